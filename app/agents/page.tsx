@@ -63,10 +63,12 @@ export default function AgentsPage() {
   return (
     <ChatWindow
       endpoint="api/chat/agents"
+      persona="polly"
       emptyStateComponent={InfoCard}
       placeholder="Squawk! I'm a conversational agent! Ask me about the current weather in Honolulu!"
       emoji="🦜"
       showIntermediateStepsToggle={true}
+      acceptImages={true}
     />
   );
 }
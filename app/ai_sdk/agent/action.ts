@@ -1,15 +1,34 @@
 "use server";
 
-import { ChatOpenAI } from "@langchain/openai";
 import { ChatPromptTemplate } from "@langchain/core/prompts";
 import { TavilySearchResults } from "@langchain/community/tools/tavily_search";
 import { AgentExecutor, createToolCallingAgent } from "langchain/agents";
 import { pull } from "langchain/hub";
 import { createStreamableValue } from "ai/rsc";
+import { createChatModel } from "@/lib/llm-providers";
+import { resolveProviderConfig } from "@/lib/model-router";
+import { UsageCallbackHandler } from "@/lib/usage-tracker";
 
-export async function runAgent(input: string) {
+/**
+ * `llm` picks the model with the `provider`, `model` and `temperature`
+ * fields of chat requests
+ */
+export async function runAgent(
+  input: string,
+  llm?: { provider?: string; model?: string; temperature?: number },
+) {
   "use server";
 
+  // An unknown provider or model fails the action itself
+  const { config } = await resolveProviderConfig(llm, undefined, {
+    prompt: input,
+    requires: ["toolCalling"],
+  });
+  const model = await createChatModel({
+    ...config,
+    temperature: llm?.temperature ?? 0,
+  });
+
   const stream = createStreamableValue();
   (async () => {
     const tools = [new TavilySearchResults({ maxResults: 1 })];
@@ -17,10 +36,8 @@ export async function runAgent(input: string) {
       "hwchase17/openai-tools-agent",
     );
 
-    const llm = new ChatOpenAI({ model: "gpt-4o-mini", temperature: 0 });
-
     const agent = createToolCallingAgent({
-      llm,
+      llm: model,
       tools,
       prompt,
     });
@@ -29,7 +46,16 @@ export async function runAgent(input: string) {
 
     const streamingEvents = agentExecutor.streamEvents(
       { input },
-      { version: "v2" },
+      {
+        version: "v2",
+        callbacks: [
+          new UsageCallbackHandler({
+            route: "ai_sdk/agent",
+            model,
+            config,
+          }),
+        ],
+      },
     );
 
     for await (const item of streamingEvents) {
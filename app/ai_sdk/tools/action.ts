@@ -1,12 +1,14 @@
 "use server";
 
-import { ChatOpenAI } from "@langchain/openai";
 import { ChatPromptTemplate } from "@langchain/core/prompts";
 import { createStreamableValue } from "ai/rsc";
 import { z } from "zod";
 import { Runnable } from "@langchain/core/runnables";
-import { zodToJsonSchema } from "zod-to-json-schema";
 import { JsonOutputKeyToolsParser } from "@langchain/core/output_parsers/openai_tools";
+import { createChatModel } from "@/lib/llm-providers";
+import { ModelCapabilityError } from "@/lib/model-capabilities";
+import { resolveProviderConfig } from "@/lib/model-router";
+import { UsageCallbackHandler } from "@/lib/usage-tracker";
 
 const Weather = z
   .object({
@@ -20,10 +22,36 @@ export async function executeTool(
   options?: {
     wso?: boolean;
     streamEvents?: boolean;
+    /** Picks the model like the fields of chat requests */
+    provider?: string;
+    model?: string;
+    temperature?: number;
   },
 ) {
   "use server";
 
+  // An unknown provider or model fails the action itself
+  const { config } = await resolveProviderConfig(options, undefined, {
+    prompt: input,
+    requires: ["toolCalling"],
+  });
+  const llm = await createChatModel({
+    ...config,
+    temperature: options?.temperature ?? 0,
+  });
+  if (typeof llm.bindTools !== "function") {
+    throw new ModelCapabilityError(
+      `Model ${config.model} of provider ${config.provider} does not support tool calling`,
+    );
+  }
+  const llmWithTools = llm.bindTools([
+    {
+      name: "get_weather",
+      description: Weather.description,
+      schema: Weather,
+    },
+  ]);
+
   const stream = createStreamableValue();
 
   (async () => {
@@ -35,9 +63,10 @@ export async function executeTool(
       ["human", "{input}"],
     ]);
 
-    const llm = new ChatOpenAI({
-      model: "gpt-4o-mini",
-      temperature: 0,
+    const usageHandler = new UsageCallbackHandler({
+      route: "ai_sdk/tools",
+      model: llm,
+      config,
     });
 
     let chain: Runnable;
@@ -49,27 +78,12 @@ export async function executeTool(
         }),
       );
     } else {
-      chain = prompt
-        .pipe(
-          llm.bind({
-            tools: [
-              {
-                type: "function" as const,
-                function: {
-                  name: "get_weather",
-                  description: Weather.description,
-                  parameters: zodToJsonSchema(Weather as any, { target: "openApi3" }),
-                },
-              },
-            ],
-          }),
-        )
-        .pipe(
-          new JsonOutputKeyToolsParser<z.infer<typeof Weather>>({
-            keyName: "get_weather",
-            zodSchema: Weather as any,
-          }),
-        );
+      chain = prompt.pipe(llmWithTools).pipe(
+        new JsonOutputKeyToolsParser<z.infer<typeof Weather>>({
+          keyName: "get_weather",
+          zodSchema: Weather as any,
+        }),
+      );
     }
 
     if (options?.streamEvents) {
@@ -79,6 +93,7 @@ export async function executeTool(
         },
         {
           version: "v2",
+          callbacks: [usageHandler],
         },
       );
 
@@ -86,9 +101,12 @@ export async function executeTool(
         stream.update(JSON.parse(JSON.stringify(item, null, 2)));
       }
     } else {
-      const streamResult = await chain.stream({
-        input,
-      });
+      const streamResult = await chain.stream(
+        {
+          input,
+        },
+        { callbacks: [usageHandler] },
+      );
 
       for await (const item of streamResult) {
         stream.update(JSON.parse(JSON.stringify(item, null, 2)));
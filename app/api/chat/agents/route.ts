@@ -1,47 +1,57 @@
-import { NextRequest, NextResponse } from "next/server";
-import { Message as VercelChatMessage, StreamingTextResponse } from "ai";
+import { NextRequest } from "next/server";
+import { StreamingTextResponse } from "ai";
 
 import { createReactAgent } from "@langchain/langgraph/prebuilt";
-import { ChatOpenAI } from "@langchain/openai";
 import { SerpAPI } from "@langchain/community/tools/serpapi";
 import { Calculator } from "@langchain/community/tools/calculator";
 import {
   AIMessage,
-  BaseMessage,
   ChatMessage,
-  HumanMessage,
   SystemMessage,
 } from "@langchain/core/messages";
 
+import { errorResponse } from "@/lib/api-errors";
+import {
+  chatRequestSchema,
+  getRequestId,
+  parseJsonBody,
+  type ChatRequestMessage,
+} from "@/lib/api-requests";
+import {
+  getConversationHeaders,
+  recordUserTurn,
+} from "@/lib/conversations";
+import { getGuardrailHeaders, GuardrailPipeline } from "@/lib/guardrails";
+import { createChatModel } from "@/lib/llm-providers";
+import {
+  getMessageText,
+  hasImages,
+  toHumanMessage,
+} from "@/lib/message-content";
+import { getRoutingHeaders, resolveProviderConfig } from "@/lib/model-router";
+import { resolvePersona, withPersonaModel } from "@/lib/personas";
+import { getCacheStatus } from "@/lib/response-cache";
+import {
+  agentStreamEvents,
+  encodeChatEvents,
+  primeEvents,
+} from "@/lib/stream-utils";
+import { UsageCallbackHandler } from "@/lib/usage-tracker";
+import { getUserApiKeys, redactApiKeys } from "@/lib/user-api-keys";
+
 // Remove edge runtime for compatibility with dynamic imports and Vercel deployment
 // export const runtime = "edge";
 
-const convertVercelMessageToLangChainMessage = (message: VercelChatMessage) => {
+const convertVercelMessageToLangChainMessage = (message: ChatRequestMessage) => {
   if (message.role === "user") {
-    return new HumanMessage(message.content);
+    return toHumanMessage(message.content);
   } else if (message.role === "assistant") {
-    return new AIMessage(message.content);
-  } else {
-    return new ChatMessage(message.content, message.role);
-  }
-};
-
-const convertLangChainMessageToVercelMessage = (message: BaseMessage) => {
-  if (message._getType() === "human") {
-    return { content: message.content, role: "user" };
-  } else if (message._getType() === "ai") {
-    return {
-      content: message.content,
-      role: "assistant",
-      tool_calls: (message as AIMessage).tool_calls,
-    };
+    return new AIMessage(getMessageText(message.content));
   } else {
-    return { content: message.content, role: message._getType() };
+    return new ChatMessage(getMessageText(message.content), message.role);
   }
 };
 
-const AGENT_SYSTEM_TEMPLATE = `You are a talking parrot named Polly. All final responses must be how a talking parrot would respond. Squawk often!`;
-
 /**
  * This handler initializes and calls an tool caling ReAct agent.
  * See the docs for more information:
@@ -49,26 +59,61 @@ const AGENT_SYSTEM_TEMPLATE = `You are a talking parrot named Polly. All final r
  * https://langchain-ai.github.io/langgraphjs/tutorials/quickstart/
  */
 export async function POST(req: NextRequest) {
+  const requestId = getRequestId(req);
+  const apiKeys = getUserApiKeys(req);
   try {
-    const body = await req.json();
-    const returnIntermediateSteps = body.show_intermediate_steps;
+    const body = await parseJsonBody(req, chatRequestSchema);
+    const guardrails = new GuardrailPipeline({
+      route: "/api/chat/agents",
+      secrets: Object.values(apiKeys),
+    });
+    const screenedMessages = guardrails.screenMessages(body.messages);
     /**
-     * We represent intermediate steps as system messages for display purposes,
-     * but don't want them in the chat history.
+     * Only the user and assistant turns make up the chat history; tool calls
+     * of earlier turns are not replayed.
      */
-    const messages = (body.messages ?? [])
+    const messages = screenedMessages
       .filter(
-        (message: VercelChatMessage) =>
+        (message: ChatRequestMessage) =>
           message.role === "user" || message.role === "assistant",
       )
       .map(convertVercelMessageToLangChainMessage);
 
-    // Requires process.env.SERPAPI_API_KEY to be set: https://serpapi.com/
-    // You can remove this or use a different tool instead.
-    const tools = [new Calculator(), new SerpAPI()];
-    const chat = new ChatOpenAI({
-      model: "gpt-4o-mini",
-      temperature: 0,
+    // The persona supplies the system prompt, the temperature and, unless
+    // the request picks a provider, the model
+    const persona = resolvePersona(body, "polly");
+
+    /**
+     * The agent calls tools, so the model must support tool calling, and
+     * vision when the conversation has images.
+     */
+    const { config: providerConfig, routing } = await resolveProviderConfig(
+      withPersonaModel(body, persona),
+      apiKeys,
+      {
+        prompt:
+          messages.length > 0
+            ? getMessageText(messages[messages.length - 1].content)
+            : "",
+        requires: hasImages(messages)
+          ? ["toolCalling", "vision"]
+          : ["toolCalling"],
+      },
+    );
+
+    // Web search requires process.env.SERPAPI_API_KEY to be set: https://serpapi.com/
+    // Without it the agent only has the calculator, e.g. for offline runs with the mock provider.
+    const tools = process.env.SERPAPI_API_KEY
+      ? [new Calculator(), new SerpAPI()]
+      : [new Calculator()];
+    const chat = await createChatModel({
+      ...providerConfig,
+      temperature: body.temperature ?? persona.temperature ?? 0,
+    });
+    const usageHandler = new UsageCallbackHandler({
+      route: "/api/chat/agents",
+      model: chat,
+      config: providerConfig,
     });
 
     /**
@@ -83,59 +128,57 @@ export async function POST(req: NextRequest) {
        *
        * https://langchain-ai.github.io/langgraphjs/tutorials/quickstart/
        */
-      messageModifier: new SystemMessage(AGENT_SYSTEM_TEMPLATE),
+      messageModifier: new SystemMessage(persona.systemTemplate),
     });
 
-    if (!returnIntermediateSteps) {
-      /**
-       * Stream back all generated tokens and steps from their runs.
-       *
-       * We do some filtering of the generated events and only stream back
-       * the final response as a string.
-       *
-       * For this specific type of tool calling ReAct agents with OpenAI, we can tell when
-       * the agent is ready to stream back final output when it no longer calls
-       * a tool and instead streams back content.
-       *
-       * See: https://langchain-ai.github.io/langgraphjs/how-tos/stream-tokens/
-       */
-      const eventStream = await agent.streamEvents(
-        { messages },
-        { version: "v2" },
-      );
+    const conversation = await recordUserTurn(
+      { ...body, messages: screenedMessages },
+      {
+        endpoint: "/api/chat/agents",
+        persona: persona.id,
+      },
+    );
 
-      const textEncoder = new TextEncoder();
-      const transformStream = new ReadableStream({
-        async start(controller) {
-          for await (const { event, data } of eventStream) {
-            if (event === "on_chat_model_stream") {
-              // Intermediate chat model generations will contain tool calls and no content
-              if (!!data.chunk.content) {
-                controller.enqueue(textEncoder.encode(data.chunk.content));
-              }
-            }
-          }
-          controller.close();
-        },
-      });
+    /**
+     * Stream back all generated tokens and steps from their runs.
+     *
+     * Tool calls and their results are streamed as they happen, and the
+     * tokens of the final answer once the agent no longer calls a tool and
+     * instead streams back content. Plain text clients only get the answer.
+     *
+     * See: https://langchain-ai.github.io/langgraphjs/how-tos/stream-tokens/
+     */
+    const eventStream = await agent.streamEvents(
+      { messages },
+      // Aborting also cancels a pending tool call
+      { version: "v2", callbacks: [usageHandler], signal: req.signal },
+    );
 
-      return new StreamingTextResponse(transformStream);
-    } else {
-      /**
-       * We could also pick intermediate steps out from `streamEvents` chunks, but
-       * they are generated as JSON objects, so streaming and displaying them with
-       * the AI SDK is more complicated.
-       */
-      const result = await agent.invoke({ messages });
+    // The agent's first model response is awaited, so its errors become error
+    // responses and the cache status is known
+    const events = await primeEvents(agentStreamEvents(eventStream));
+    const cacheStatus = getCacheStatus(chat);
 
-      return NextResponse.json(
-        {
-          messages: result.messages.map(convertLangChainMessageToVercelMessage),
+    return new StreamingTextResponse(
+      encodeChatEvents(guardrails.screenOutput(events), {
+        protocol: body.streamProtocol,
+        getUsage: () => usageHandler.usage,
+        onComplete: (reply) => conversation?.recordReply(reply),
+        formatError: (error) => redactApiKeys(error.message, apiKeys),
+      }),
+      {
+        headers: {
+          "x-llm-persona": persona.id,
+          ...(cacheStatus && { "x-cache": cacheStatus }),
+          ...getRoutingHeaders(routing),
+          ...getConversationHeaders(conversation),
+          ...getGuardrailHeaders(guardrails),
         },
-        { status: 200 },
-      );
-    }
+      },
+    );
   } catch (e: any) {
-    return NextResponse.json({ error: e.message }, { status: e.status ?? 500 });
+    return errorResponse(e, requestId, {
+      redact: (message) => redactApiKeys(message, apiKeys),
+    });
   }
 }
@@ -1,7 +1,33 @@
 import { NextRequest, NextResponse } from "next/server";
-import { LangChainStream, StreamingTextResponse } from "ai";
-import { createChatModel, parseProviderConfig } from "@/lib/llm-providers";
+import { StreamingTextResponse } from "ai";
+import { StringOutputParser } from "@langchain/core/output_parsers";
+import { z } from "zod";
+import { errorResponse } from "@/lib/api-errors";
+import {
+  chatRequestSchema,
+  getRequestId,
+  parseJsonBody,
+  parseWith,
+} from "@/lib/api-requests";
+import {
+  getConversationHeaders,
+  recordUserTurn,
+} from "@/lib/conversations";
+import { getGuardrailHeaders, GuardrailPipeline } from "@/lib/guardrails";
+import { createChatModel } from "@/lib/llm-providers";
+import { assertTextOnly, getMessageText } from "@/lib/message-content";
+import { getRoutingHeaders, resolveProviderConfig } from "@/lib/model-router";
 import { globalTaskManager, globalTodoListManager } from "@/lib/orchestration-tools";
+import { getCacheStatus } from "@/lib/response-cache";
+import {
+  encodeChatEvents,
+  primeStream,
+  textStreamEvents,
+  type StreamProtocol,
+  type StreamUsage,
+} from "@/lib/stream-utils";
+import { UsageCallbackHandler } from "@/lib/usage-tracker";
+import { getUserApiKeys, redactApiKeys } from "@/lib/user-api-keys";
 
 export const runtime = "nodejs";
 
@@ -52,8 +78,9 @@ function shouldUseCli(prompt: string, taskType: 'planning' | 'development' | 'an
   return { useCli: shouldUseCli, provider, reason };
 }
 
-// Function to execute CLI command via terminal API
-async function executeCliCommand(command: string, background = true): Promise<{
+// Function to execute CLI command via terminal API; aborting `signal` stops
+// a foreground command
+async function executeCliCommand(command: string, background = true, signal?: AbortSignal): Promise<{
   success: boolean;
   output: string;
   taskId?: string;
@@ -67,6 +94,7 @@ async function executeCliCommand(command: string, background = true): Promise<{
         background,
         workingDirectory: process.cwd(),
       }),
+      signal,
     });
     
     const result = await response.json();
@@ -84,6 +112,9 @@ async function executeCliCommand(command: string, background = true): Promise<{
       output: result.stdout || result.error || 'No output',
     };
   } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
     return {
       success: false,
       output: `Failed to execute CLI command: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -91,6 +122,39 @@ async function executeCliCommand(command: string, background = true): Promise<{
   }
 }
 
+const pollRequestSchema = z
+  .object({ pollTaskId: z.string().min(1).optional() })
+  .passthrough();
+
+const orchestrationRequestSchema = chatRequestSchema.extend({
+  taskType: z.enum(['planning', 'development', 'analysis']).default('planning'),
+  useBackground: z.boolean().default(true),
+});
+
+const NO_USAGE: StreamUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0 };
+
+// CLI results are JSON, except for chat clients on the data stream protocol,
+// which get the message as the answer after the guardrail decisions
+function cliResponse(
+  protocol: StreamProtocol | undefined,
+  result: Record<string, unknown>,
+  content: string,
+  headers: Record<string, string>,
+  guardrails: GuardrailPipeline
+) {
+  const responseHeaders = { ...headers, ...getGuardrailHeaders(guardrails) };
+  if (protocol === 'data') {
+    return new StreamingTextResponse(
+      encodeChatEvents([...guardrails.pendingEvents(), { type: 'token', text: content }], {
+        protocol,
+        getUsage: () => NO_USAGE,
+      }),
+      { headers: responseHeaders }
+    );
+  }
+  return NextResponse.json(result, { headers: responseHeaders });
+}
+
 // Function to get task status
 async function getTaskStatus(taskId: string): Promise<any> {
   try {
@@ -102,9 +166,10 @@ async function getTaskStatus(taskId: string): Promise<any> {
 }
 
 export async function POST(req: NextRequest) {
+  const requestId = getRequestId(req);
+  const apiKeys = getUserApiKeys(req);
   try {
-    const body = await req.json();
-    const { messages, taskType = 'planning', useBackground = true, pollTaskId } = body;
+    const { pollTaskId, ...rest } = await parseJsonBody(req, pollRequestSchema);
     
     // If polling for task status
     if (pollTaskId) {
@@ -116,16 +181,26 @@ export async function POST(req: NextRequest) {
         completed: taskStatus?.status === 'completed' || taskStatus?.status === 'failed',
       });
     }
+
+    const body = parseWith(orchestrationRequestSchema, rest);
+    const { taskType: validTaskType, useBackground } = body;
     
-    const lastMessage = messages[messages.length - 1];
-    const prompt = lastMessage?.content || '';
-    
-    // Validate taskType
-    const validTaskType: 'planning' | 'development' | 'analysis' = 
-      ['planning', 'development', 'analysis'].includes(taskType) ? taskType : 'planning';
+    // Prompts are passed to the CLI tools as text
+    assertTextOnly(body.messages, "/api/chat/cli-orchestrator");
+    const guardrails = new GuardrailPipeline({
+      route: "/api/chat/cli-orchestrator",
+      secrets: Object.values(apiKeys),
+    });
+    const messages = guardrails.screenMessages(body.messages);
+    const prompt = getMessageText(messages[messages.length - 1].content);
     
     // Determine execution strategy
     const strategy = shouldUseCli(prompt, validTaskType);
+
+    const conversation = await recordUserTurn({ ...body, messages }, {
+      endpoint: "/api/chat/cli-orchestrator",
+    });
+    const conversationHeaders = getConversationHeaders(conversation);
     
     if (strategy.useCli) {
       // Use CLI approach with proper type checking
@@ -133,7 +208,7 @@ export async function POST(req: NextRequest) {
       const commandTemplate = providerCommands[validTaskType];
       const command = commandTemplate(prompt);
       
-      const result = await executeCliCommand(command, useBackground);
+      const result = await executeCliCommand(command, useBackground, req.signal);
       
       if (useBackground && result.taskId) {
         // Create orchestrated task for better tracking
@@ -152,32 +227,36 @@ export async function POST(req: NextRequest) {
           orchestratedTaskId
         );
 
-        return NextResponse.json({
+        const message = `Started ${strategy.provider} CLI task in background with orchestration`;
+        await conversation?.recordReply({ content: `${message}: ${command}` });
+
+        return cliResponse(body.streamProtocol, {
           type: 'background_task',
           taskId: result.taskId,
           orchestratedTaskId,
-          message: `Started ${strategy.provider} CLI task in background with orchestration`,
+          message,
           command,
           strategy: strategy.reason,
           pollUrl: `/api/chat/cli-orchestrator`,
-        });
+        }, `${message}: ${command}`, conversationHeaders, guardrails);
       } else {
-        return NextResponse.json({
+        const output = guardrails.screenAnswer(result.output);
+        await conversation?.recordReply({ content: output });
+
+        return cliResponse(body.streamProtocol, {
           type: 'cli_result',
-          output: result.output,
+          output,
           success: result.success,
           command,
           strategy: strategy.reason,
-        });
+        }, output, conversationHeaders, guardrails);
       }
     } else {
       // Use LangChain API approach for simple orchestration - with fallback
       try {
-        const llmConfig = parseProviderConfig(body);
+        const { config: llmConfig, routing } = await resolveProviderConfig(body, apiKeys, { prompt });
         const model = await createChatModel(llmConfig);
         
-        const { stream, handlers } = LangChainStream();
-        
         // Enhanced prompt for orchestration
         const orchestrationPrompt = `You are a project orchestration assistant. Your role is to provide lightweight coordination and planning.
 
@@ -191,44 +270,83 @@ User Request: ${prompt}
 
 Provide a helpful response that guides the user on next steps.`;
         
-        model.invoke([{ role: "user", content: orchestrationPrompt }], {
-          callbacks: [handlers],
+        const usageHandler = new UsageCallbackHandler({
+          route: "/api/chat/cli-orchestrator",
+          model,
+          config: llmConfig,
         });
-        
-        return new StreamingTextResponse(stream);
+
+        const stream = await model
+          .pipe(new StringOutputParser())
+          .stream([{ role: "user", content: orchestrationPrompt }], {
+            callbacks: [usageHandler],
+            signal: req.signal,
+          });
+        // Provider errors before the first token fall back to the CLI below
+        const primedStream = await primeStream(stream);
+        const cacheStatus = getCacheStatus(model);
+
+        return new StreamingTextResponse(
+          encodeChatEvents(guardrails.screenOutput(textStreamEvents(primedStream)), {
+            protocol: body.streamProtocol,
+            getUsage: () => usageHandler.usage,
+            onComplete: (reply) => conversation?.recordReply(reply),
+            formatError: (error) => redactApiKeys(error.message, apiKeys),
+          }),
+          {
+            headers: {
+              ...(cacheStatus && { "x-cache": cacheStatus }),
+              ...conversationHeaders,
+              ...getRoutingHeaders(routing),
+              ...getGuardrailHeaders(guardrails),
+            },
+          }
+        );
       } catch (error) {
-        console.error("LLM orchestration error:", error);
+        // A client that went away gets no CLI fallback either
+        if (req.signal.aborted) {
+          throw error;
+        }
+        const errorMessage = redactApiKeys(
+          error instanceof Error ? error.message : 'Unknown error',
+          apiKeys
+        );
+        console.error("LLM orchestration error:", errorMessage);
         
         // Fallback: If API fails, route to CLI anyway for local-first operation
         const fallbackCommand = CLI_COMMANDS.claude.planning(prompt);
-        const result = await executeCliCommand(fallbackCommand, useBackground);
+        const result = await executeCliCommand(fallbackCommand, useBackground, req.signal);
         
         if (useBackground && result.taskId) {
-          return NextResponse.json({
+          const message = `API unavailable - routed to Claude CLI as fallback`;
+          await conversation?.recordReply({ content: `${message}: ${fallbackCommand}` });
+
+          return cliResponse(body.streamProtocol, {
             type: 'background_task_fallback',
             taskId: result.taskId,
-            message: `API unavailable - routed to Claude CLI as fallback`,
+            message,
             command: fallbackCommand,
-            strategy: `Fallback to CLI due to API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            strategy: `Fallback to CLI due to API error: ${errorMessage}`,
             pollUrl: `/api/chat/cli-orchestrator`,
-          });
+          }, `${message}: ${fallbackCommand}`, conversationHeaders, guardrails);
         } else {
-          return NextResponse.json({
+          const output = guardrails.screenAnswer(result.output);
+          await conversation?.recordReply({ content: output });
+
+          return cliResponse(body.streamProtocol, {
             type: 'cli_result_fallback',
-            output: result.output,
+            output,
             success: result.success,
             command: fallbackCommand,
-            strategy: `Fallback to CLI due to API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          });
+            strategy: `Fallback to CLI due to API error: ${errorMessage}`,
+          }, output, conversationHeaders, guardrails);
         }
       }
     }
   } catch (error) {
-    console.error("CLI Orchestrator error:", error);
-    return NextResponse.json(
-      { error: "Internal server error", details: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500 }
-    );
+    return errorResponse(error, requestId, {
+      redact: (message) => redactApiKeys(message, apiKeys),
+    });
   }
 }
 
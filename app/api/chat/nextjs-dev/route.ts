@@ -1,59 +1,47 @@
-import { NextRequest, NextResponse } from "next/server";
-import { Message as VercelChatMessage, StreamingTextResponse } from "ai";
+import { NextRequest } from "next/server";
+import { StreamingTextResponse } from "ai";
 import { PromptTemplate } from "@langchain/core/prompts";
 import { HttpResponseOutputParser } from "langchain/output_parsers";
-import { createChatModel, parseProviderConfig } from "@/lib/llm-providers";
+import { errorResponse } from "@/lib/api-errors";
+import {
+  chatRequestSchema,
+  getRequestId,
+  parseJsonBody,
+} from "@/lib/api-requests";
+import {
+  estimateTokens,
+  getHistoryHeaders,
+  prepareChatHistory,
+} from "@/lib/chat-history";
+import {
+  getConversationHeaders,
+  recordUserTurn,
+} from "@/lib/conversations";
+import { getGuardrailHeaders, GuardrailPipeline } from "@/lib/guardrails";
+import {
+  createChatModel,
+  getRespondingModel,
+} from "@/lib/llm-providers";
+import {
+  attachImages,
+  getMessageImages,
+  getMessageText,
+} from "@/lib/message-content";
+import { getRoutingHeaders, resolveProviderConfig } from "@/lib/model-router";
+import { resolvePersona, withPersonaModel } from "@/lib/personas";
+import { getCacheStatus } from "@/lib/response-cache";
+import {
+  encodeChatEvents,
+  primeStream,
+  textStreamEvents,
+} from "@/lib/stream-utils";
+import { UsageCallbackHandler } from "@/lib/usage-tracker";
+import { getUserApiKeys, redactApiKeys } from "@/lib/user-api-keys";
 
 // Remove edge runtime for compatibility with dynamic imports
 // export const runtime = "edge";
 
-const formatMessage = (message: VercelChatMessage) => {
-  return `${message.role}: ${message.content}`;
-};
-
-const NEXTJS_DEV_TEMPLATE = `You are an expert Next.js development assistant specializing in modern React development with the App Router, Tailwind CSS, Shadcn UI, and best practices for projects of any scale and complexity.
-
-Your expertise includes:
-- Next.js 15+ with App Router architecture for both simple and enterprise applications
-- TypeScript development patterns and advanced type systems
-- Tailwind CSS for styling, responsive design, and design systems
-- Shadcn UI component integration, customization, and theme systems
-- Server Components and Client Components with optimal rendering strategies
-- API routes, server actions, and middleware for complex backends
-- Database integration (Supabase, Prisma, multiple databases)
-- Authentication and authorization (NextAuth, custom solutions, RBAC)
-- Performance optimization, SEO, and Core Web Vitals
-- Testing strategies (unit, integration, e2e) with Jest, Vitest, Playwright
-- Deployment strategies (Vercel, Docker, self-hosted, multi-environment)
-- Monorepo setup with Turbopack, Nx, or Rush
-- Microservices integration and API orchestration
-- State management (Zustand, Redux, React Context) for complex apps
-- Real-time features (WebSockets, Server-Sent Events, WebRTC)
-- Internationalization (i18n) and accessibility (a11y)
-- CI/CD pipelines and automated testing workflows
-
-For enterprise and complex projects:
-- Modular architecture with feature-based organization
-- Component libraries and design systems
-- Multi-tenant applications and white-labeling
-- Advanced caching strategies (ISR, edge caching, Redis)
-- Error monitoring and observability (Sentry, DataDog)
-- Security best practices and compliance (GDPR, SOC2)
-- Scalable file uploads and media handling
-- Background job processing and queues
-- Service integration patterns and API design
-
-When helping with development:
-- Provide complete, production-ready code examples
-- Follow Next.js and React best practices for scale
-- Use TypeScript for type safety and maintainability
-- Implement responsive designs with Tailwind and proper semantic HTML
-- Leverage Shadcn UI components with custom variants
-- Consider performance, accessibility, and SEO implications
-- Include comprehensive error handling and loading states
-- Suggest optimal file structure and code organization
-- Recommend testing approaches and implementation
-- Consider security implications and best practices
+const NEXTJS_DEV_TEMPLATE = `{persona}
 
 Current conversation:
 {chat_history}
@@ -67,18 +55,47 @@ Provide detailed Next.js development assistance with complete, production-ready
  * Specialized for Next.js App Router development with modern tools for any project scale
  */
 export async function POST(req: NextRequest) {
+  const requestId = getRequestId(req);
+  // Provider keys the user supplied for this request; never echoed back
+  const apiKeys = getUserApiKeys(req);
+
   try {
-    const body = await req.json();
-    const messages = body.messages ?? [];
+    const body = await parseJsonBody(req, chatRequestSchema);
+    const guardrails = new GuardrailPipeline({
+      route: "/api/chat/nextjs-dev",
+      secrets: Object.values(apiKeys),
+    });
+    const messages = guardrails.screenMessages(body.messages);
     const previousMessages = messages.slice(0, -1);
-    const currentMessageContent = messages[messages.length - 1].content;
-
-    const formattedPreviousMessages = previousMessages.map(formatMessage);
+    // Images of the current message are sent along with the prompt
+    const currentMessage = messages[messages.length - 1];
+    const currentMessageContent = getMessageText(currentMessage.content);
+    const images = getMessageImages(currentMessage.content);
 
     const prompt = PromptTemplate.fromTemplate(NEXTJS_DEV_TEMPLATE);
 
+    // The persona supplies the system prompt, the temperature and, unless
+    // the request picks a provider, the model
+    const persona = resolvePersona(body, "nextjs-developer");
+
     // Parse provider configuration from request or use defaults
-    const providerConfig = parseProviderConfig(body);
+    // `provider: "auto"` routes the request to a model suited to the prompt
+    const { config: providerConfig, routing } = await resolveProviderConfig(
+      withPersonaModel(body, persona),
+      apiKeys,
+      {
+        prompt: currentMessageContent,
+        ...(images.length > 0 && { requires: ["vision"] }),
+      },
+    );
+
+    // Older turns are summarized when the history outgrows the context window
+    const history = await prepareChatHistory(previousMessages, {
+      config: providerConfig,
+      promptTokens: estimateTokens(NEXTJS_DEV_TEMPLATE + persona.systemTemplate + currentMessageContent),
+      route: "/api/chat/nextjs-dev",
+      signal: req.signal,
+    });
 
     /**
      * Use a capable model for development assistance
@@ -86,20 +103,78 @@ export async function POST(req: NextRequest) {
      */
     const model = await createChatModel({
       ...providerConfig,
-      temperature: 0.2, // Lower temperature for more precise code
+      temperature: body.temperature ?? persona.temperature ?? 0.2, // Lower temperature for more precise code
     });
 
     const outputParser = new HttpResponseOutputParser();
 
-    const chain = prompt.pipe(model).pipe(outputParser);
+    const chain = prompt
+      .pipe(attachImages(images))
+      .pipe(model)
+      .pipe(outputParser);
 
-    const stream = await chain.stream({
-      chat_history: formattedPreviousMessages.join("\n"),
-      input: currentMessageContent,
+    const usageHandler = new UsageCallbackHandler({
+      route: "/api/chat/nextjs-dev",
+      model,
+      config: providerConfig,
     });
 
-    return new StreamingTextResponse(stream);
+    const conversation = await recordUserTurn(
+      { ...body, messages },
+      {
+        endpoint: "/api/chat/nextjs-dev",
+        persona: persona.id,
+      },
+    );
+
+    const stream = await chain.stream(
+      {
+        persona: persona.systemTemplate,
+        chat_history: history.chatHistory,
+        input: currentMessageContent,
+      },
+      { callbacks: [usageHandler], signal: req.signal },
+    );
+
+    /**
+     * Wait for the first chunk so the provider that actually answered
+     * (after any fallbacks, or the response cache) can be reported in the
+     * response headers.
+     */
+    const primedStream = await primeStream(stream);
+    const respondingModel = getRespondingModel(model, providerConfig);
+    const cacheStatus = getCacheStatus(model);
+
+    /**
+     * Clients using the AI SDK data protocol receive the request's token
+     * usage at the end of the stream.
+     */
+    const responseStream = encodeChatEvents(
+      guardrails.screenOutput(textStreamEvents(primedStream)),
+      {
+        protocol: body.streamProtocol,
+        getUsage: () => usageHandler.usage,
+        onComplete: (reply) =>
+          conversation?.recordReply({ ...reply, ...respondingModel }),
+        formatError: (error) => redactApiKeys(error.message, apiKeys),
+      },
+    );
+
+    return new StreamingTextResponse(responseStream, {
+      headers: {
+        "x-llm-provider": respondingModel.provider,
+        "x-llm-model": respondingModel.model,
+        "x-llm-persona": persona.id,
+        ...(cacheStatus && { "x-cache": cacheStatus }),
+        ...getRoutingHeaders(routing),
+        ...getHistoryHeaders(history),
+        ...getConversationHeaders(conversation),
+        ...getGuardrailHeaders(guardrails),
+      },
+    });
   } catch (e: any) {
-    return NextResponse.json({ error: e.message }, { status: e.status ?? 500 });
+    return errorResponse(e, requestId, {
+      redact: (message) => redactApiKeys(message, apiKeys),
+    });
   }
 }
\ No newline at end of file
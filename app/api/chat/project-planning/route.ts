@@ -1,49 +1,47 @@
-import { NextRequest, NextResponse } from "next/server";
-import { Message as VercelChatMessage, StreamingTextResponse } from "ai";
+import { NextRequest } from "next/server";
+import { StreamingTextResponse } from "ai";
 import { PromptTemplate } from "@langchain/core/prompts";
 import { HttpResponseOutputParser } from "langchain/output_parsers";
-import { createChatModel, parseProviderConfig } from "@/lib/llm-providers";
+import { errorResponse } from "@/lib/api-errors";
+import {
+  chatRequestSchema,
+  getRequestId,
+  parseJsonBody,
+} from "@/lib/api-requests";
+import {
+  estimateTokens,
+  getHistoryHeaders,
+  prepareChatHistory,
+} from "@/lib/chat-history";
+import {
+  getConversationHeaders,
+  recordUserTurn,
+} from "@/lib/conversations";
+import { getGuardrailHeaders, GuardrailPipeline } from "@/lib/guardrails";
+import {
+  createChatModel,
+  getRespondingModel,
+} from "@/lib/llm-providers";
+import {
+  attachImages,
+  getMessageImages,
+  getMessageText,
+} from "@/lib/message-content";
+import { getRoutingHeaders, resolveProviderConfig } from "@/lib/model-router";
+import { resolvePersona, withPersonaModel } from "@/lib/personas";
+import { getCacheStatus } from "@/lib/response-cache";
+import {
+  encodeChatEvents,
+  primeStream,
+  textStreamEvents,
+} from "@/lib/stream-utils";
+import { UsageCallbackHandler } from "@/lib/usage-tracker";
+import { getUserApiKeys, redactApiKeys } from "@/lib/user-api-keys";
 
 // Remove edge runtime for compatibility with dynamic imports
 // export const runtime = "edge";
 
-const formatMessage = (message: VercelChatMessage) => {
-  return `${message.role}: ${message.content}`;
-};
-
-const PROJECT_PLANNING_TEMPLATE = `You are an expert project planning AI assistant specializing in software development projects of any size and complexity. Your role is to help break down complex projects into manageable tasks, suggest architectures, identify dependencies, and create realistic timelines.
-
-Key capabilities:
-- Project decomposition and task breakdown for projects ranging from simple scripts to enterprise systems
-- Technology stack recommendations for modern and legacy systems
-- Timeline estimation and milestone planning with risk assessment
-- Modular architecture design with monorepo and microservice considerations
-- Resource allocation suggestions for teams of any size
-- Best practices and architectural guidance for scalable systems
-- Integration patterns and API design
-- DevOps and CI/CD pipeline recommendations
-- Security and compliance considerations
-- Performance optimization strategies
-
-When planning projects, consider:
-- Modern development practices (CI/CD, testing, documentation, monitoring)
-- Scalability and maintainability across different project scales
-- Security and performance requirements
-- Team size, skill levels, and organizational constraints
-- Technology constraints, preferences, and migration paths
-- Modular design principles and dependency management
-- Monorepo vs multi-repo strategies
-- Microservice vs monolithic architecture decisions
-- Cloud-native and containerization strategies
-- Data architecture and storage solutions
-
-For complex enterprise projects, focus on:
-- Service decomposition and bounded contexts
-- API gateway and service mesh considerations
-- Event-driven architecture patterns
-- CQRS and event sourcing when appropriate
-- Distributed system challenges and solutions
-- Cross-cutting concerns (logging, monitoring, security)
+const PROJECT_PLANNING_TEMPLATE = `{persona}
 
 Current conversation:
 {chat_history}
@@ -57,18 +55,47 @@ Provide detailed, actionable project planning guidance with specific recommendat
  * Specialized for breaking down development projects of any size and complexity
  */
 export async function POST(req: NextRequest) {
+  const requestId = getRequestId(req);
+  // Provider keys the user supplied for this request; never echoed back
+  const apiKeys = getUserApiKeys(req);
+
   try {
-    const body = await req.json();
-    const messages = body.messages ?? [];
+    const body = await parseJsonBody(req, chatRequestSchema);
+    const guardrails = new GuardrailPipeline({
+      route: "/api/chat/project-planning",
+      secrets: Object.values(apiKeys),
+    });
+    const messages = guardrails.screenMessages(body.messages);
     const previousMessages = messages.slice(0, -1);
-    const currentMessageContent = messages[messages.length - 1].content;
-
-    const formattedPreviousMessages = previousMessages.map(formatMessage);
+    // Images of the current message are sent along with the prompt
+    const currentMessage = messages[messages.length - 1];
+    const currentMessageContent = getMessageText(currentMessage.content);
+    const images = getMessageImages(currentMessage.content);
 
     const prompt = PromptTemplate.fromTemplate(PROJECT_PLANNING_TEMPLATE);
 
+    // The persona supplies the system prompt, the temperature and, unless
+    // the request picks a provider, the model
+    const persona = resolvePersona(body, "project-planner");
+
     // Parse provider configuration from request or use defaults
-    const providerConfig = parseProviderConfig(body);
+    // `provider: "auto"` routes the request to a model suited to the prompt
+    const { config: providerConfig, routing } = await resolveProviderConfig(
+      withPersonaModel(body, persona),
+      apiKeys,
+      {
+        prompt: currentMessageContent,
+        ...(images.length > 0 && { requires: ["vision"] }),
+      },
+    );
+
+    // Older turns are summarized when the history outgrows the context window
+    const history = await prepareChatHistory(previousMessages, {
+      config: providerConfig,
+      promptTokens: estimateTokens(PROJECT_PLANNING_TEMPLATE + persona.systemTemplate + currentMessageContent),
+      route: "/api/chat/project-planning",
+      signal: req.signal,
+    });
 
     /**
      * Use a more capable model for complex project planning
@@ -76,20 +103,78 @@ export async function POST(req: NextRequest) {
      */
     const model = await createChatModel({
       ...providerConfig,
-      temperature: 0.3, // Lower temperature for more focused planning
+      temperature: body.temperature ?? persona.temperature ?? 0.3, // Lower temperature for more focused planning
     });
 
     const outputParser = new HttpResponseOutputParser();
 
-    const chain = prompt.pipe(model).pipe(outputParser);
+    const chain = prompt
+      .pipe(attachImages(images))
+      .pipe(model)
+      .pipe(outputParser);
 
-    const stream = await chain.stream({
-      chat_history: formattedPreviousMessages.join("\n"),
-      input: currentMessageContent,
+    const usageHandler = new UsageCallbackHandler({
+      route: "/api/chat/project-planning",
+      model,
+      config: providerConfig,
     });
 
-    return new StreamingTextResponse(stream);
+    const conversation = await recordUserTurn(
+      { ...body, messages },
+      {
+        endpoint: "/api/chat/project-planning",
+        persona: persona.id,
+      },
+    );
+
+    const stream = await chain.stream(
+      {
+        persona: persona.systemTemplate,
+        chat_history: history.chatHistory,
+        input: currentMessageContent,
+      },
+      { callbacks: [usageHandler], signal: req.signal },
+    );
+
+    /**
+     * Wait for the first chunk so the provider that actually answered
+     * (after any fallbacks, or the response cache) can be reported in the
+     * response headers.
+     */
+    const primedStream = await primeStream(stream);
+    const respondingModel = getRespondingModel(model, providerConfig);
+    const cacheStatus = getCacheStatus(model);
+
+    /**
+     * Clients using the AI SDK data protocol receive the request's token
+     * usage at the end of the stream.
+     */
+    const responseStream = encodeChatEvents(
+      guardrails.screenOutput(textStreamEvents(primedStream)),
+      {
+        protocol: body.streamProtocol,
+        getUsage: () => usageHandler.usage,
+        onComplete: (reply) =>
+          conversation?.recordReply({ ...reply, ...respondingModel }),
+        formatError: (error) => redactApiKeys(error.message, apiKeys),
+      },
+    );
+
+    return new StreamingTextResponse(responseStream, {
+      headers: {
+        "x-llm-provider": respondingModel.provider,
+        "x-llm-model": respondingModel.model,
+        "x-llm-persona": persona.id,
+        ...(cacheStatus && { "x-cache": cacheStatus }),
+        ...getRoutingHeaders(routing),
+        ...getHistoryHeaders(history),
+        ...getConversationHeaders(conversation),
+        ...getGuardrailHeaders(guardrails),
+      },
+    });
   } catch (e: any) {
-    return NextResponse.json({ error: e.message }, { status: e.status ?? 500 });
+    return errorResponse(e, requestId, {
+      redact: (message) => redactApiKeys(message, apiKeys),
+    });
   }
 }
\ No newline at end of file
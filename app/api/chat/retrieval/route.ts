@@ -1,9 +1,8 @@
-import { NextRequest, NextResponse } from "next/server";
-import { Message as VercelChatMessage, StreamingTextResponse } from "ai";
+import { NextRequest } from "next/server";
+import { StreamingTextResponse } from "ai";
 
 import { createClient } from "@supabase/supabase-js";
 
-import { ChatOpenAI, OpenAIEmbeddings } from "@langchain/openai";
 import { PromptTemplate } from "@langchain/core/prompts";
 import { SupabaseVectorStore } from "@langchain/community/vectorstores/supabase";
 import { Document } from "@langchain/core/documents";
@@ -13,6 +12,39 @@ import {
   StringOutputParser,
 } from "@langchain/core/output_parsers";
 
+import { errorResponse } from "@/lib/api-errors";
+import {
+  chatRequestSchema,
+  getRequestId,
+  parseJsonBody,
+  type ChatRequestMessage,
+} from "@/lib/api-requests";
+import {
+  getConversationHeaders,
+  recordUserTurn,
+} from "@/lib/conversations";
+import { getGuardrailHeaders, GuardrailPipeline } from "@/lib/guardrails";
+import {
+  createChatModel,
+  createEmbeddings,
+  getEmbeddingsId,
+  getRespondingModel,
+  parseEmbeddingsConfig,
+} from "@/lib/llm-providers";
+import { assertTextOnly, getMessageText } from "@/lib/message-content";
+import { getRoutingHeaders, resolveProviderConfig } from "@/lib/model-router";
+import { resolvePersona, withPersonaModel } from "@/lib/personas";
+import { getCacheStatus } from "@/lib/response-cache";
+import {
+  encodeChatEvents,
+  primeStream,
+  textStreamEvents,
+  type ChatStreamEvent,
+} from "@/lib/stream-utils";
+import { UsageCallbackHandler } from "@/lib/usage-tracker";
+import { getUserApiKeys, redactApiKeys } from "@/lib/user-api-keys";
+import { assertCollectionEmbeddings } from "@/lib/vector-collections";
+
 // Remove edge runtime for compatibility with dynamic imports and Vercel deployment
 // export const runtime = "edge";
 
@@ -21,7 +53,7 @@ const combineDocumentsFn = (docs: Document[]) => {
   return serializedDocs.join("\n\n");
 };
 
-const formatVercelMessages = (chatHistory: VercelChatMessage[]) => {
+const formatVercelMessages = (chatHistory: ChatRequestMessage[]) => {
   const formattedDialogueTurns = chatHistory.map((message) => {
     if (message.role === "user") {
       return `Human: ${message.content}`;
@@ -46,8 +78,7 @@ const condenseQuestionPrompt = PromptTemplate.fromTemplate(
   CONDENSE_QUESTION_TEMPLATE,
 );
 
-const ANSWER_TEMPLATE = `You are an energetic talking puppy named Dana, and must answer all questions like a happy, talking dog would.
-Use lots of puns!
+const ANSWER_TEMPLATE = `{persona}
 
 Answer the question based only on the following context and chat history:
 <context>
@@ -69,26 +100,62 @@ const answerPrompt = PromptTemplate.fromTemplate(ANSWER_TEMPLATE);
  * https://js.langchain.com/v0.2/docs/how_to/qa_chat_history_how_to/
  */
 export async function POST(req: NextRequest) {
+  const requestId = getRequestId(req);
+  const apiKeys = getUserApiKeys(req);
   try {
-    const body = await req.json();
-    const messages = body.messages ?? [];
-    const previousMessages = messages.slice(0, -1);
-    const currentMessageContent = messages[messages.length - 1].content;
-
-    const model = new ChatOpenAI({
-      model: "gpt-4o-mini",
-      temperature: 0.2,
+    const body = await parseJsonBody(req, chatRequestSchema);
+    const messages = body.messages;
+    // The question is condensed and matched as text
+    assertTextOnly(messages, "/api/chat/retrieval");
+    const guardrails = new GuardrailPipeline({
+      route: "/api/chat/retrieval",
+      secrets: Object.values(apiKeys),
+    });
+    const screenedMessages = guardrails.screenMessages(messages);
+    const previousMessages = screenedMessages.slice(0, -1);
+    const currentMessageContent =
+      screenedMessages[screenedMessages.length - 1].content;
+
+    const persona = resolvePersona(body, "dana");
+
+    // The same model condenses the question and answers it
+    const { config: providerConfig, routing } = await resolveProviderConfig(
+      withPersonaModel(body, persona),
+      apiKeys,
+      { prompt: getMessageText(currentMessageContent) },
+    );
+    const model = await createChatModel({
+      ...providerConfig,
+      temperature: body.temperature ?? persona.temperature ?? 0.2,
+    });
+    const usageHandler = new UsageCallbackHandler({
+      route: "/api/chat/retrieval",
+      model,
+      config: providerConfig,
     });
 
     const client = createClient(
       process.env.SUPABASE_URL!,
       process.env.SUPABASE_PRIVATE_KEY!,
     );
-    const vectorstore = new SupabaseVectorStore(new OpenAIEmbeddings(), {
+    /**
+     * Query with the same embedding model the collection was ingested with;
+     * mixing models would silently return unrelated documents.
+     */
+    const embeddingsConfig = parseEmbeddingsConfig(body, apiKeys);
+    await assertCollectionEmbeddings(
       client,
-      tableName: "documents",
-      queryName: "match_documents",
-    });
+      "documents",
+      getEmbeddingsId(embeddingsConfig),
+    );
+    const vectorstore = new SupabaseVectorStore(
+      await createEmbeddings(embeddingsConfig),
+      {
+        client,
+        tableName: "documents",
+        queryName: "match_documents",
+      },
+    );
 
     /**
      * We use LangChain Expression Language to compose two chains.
@@ -106,21 +173,30 @@ export async function POST(req: NextRequest) {
     ]);
 
     let resolveWithDocuments: (value: Document[]) => void;
-    const documentPromise = new Promise<Document[]>((resolve) => {
+    let rejectWithDocuments: (reason: unknown) => void;
+    const documentPromise = new Promise<Document[]>((resolve, reject) => {
       resolveWithDocuments = resolve;
+      rejectWithDocuments = reject;
     });
+    // Only awaited once the answer streams, so an early failure is not unhandled
+    documentPromise.catch(() => {});
+    req.signal.addEventListener(
+      "abort",
+      () => rejectWithDocuments(req.signal.reason),
+      { once: true },
+    );
 
-    const retriever = vectorstore.asRetriever({
-      callbacks: [
-        {
-          handleRetrieverEnd(documents) {
-            resolveWithDocuments(documents);
-          },
-        },
-      ],
-    });
+    const retriever = vectorstore.asRetriever();
 
-    const retrievalChain = retriever.pipe(combineDocumentsFn);
+    /**
+     * Retrieved documents pass the guardrails before they enter the
+     * answer prompt; the screened ones are also the sources shown.
+     */
+    const retrievalChain = retriever.pipe((documents: Document[]) => {
+      const screened = guardrails.screenDocuments(documents);
+      resolveWithDocuments(screened);
+      return combineDocumentsFn(screened);
+    });
 
     const answerChain = RunnableSequence.from([
       {
@@ -130,6 +206,7 @@ export async function POST(req: NextRequest) {
         ]),
         chat_history: (input) => input.chat_history,
         question: (input) => input.question,
+        persona: () => persona.systemTemplate,
       },
       answerPrompt,
       model,
@@ -144,30 +221,72 @@ export async function POST(req: NextRequest) {
       new BytesOutputParser(),
     ]);
 
-    const stream = await conversationalRetrievalQAChain.stream({
-      question: currentMessageContent,
-      chat_history: formatVercelMessages(previousMessages),
+    const conversation = await recordUserTurn(
+      { ...body, messages: screenedMessages },
+      {
+        endpoint: "/api/chat/retrieval",
+        persona: persona.id,
+      },
+    );
+
+    const stream = await conversationalRetrievalQAChain.stream(
+      {
+        question: currentMessageContent,
+        chat_history: formatVercelMessages(previousMessages),
+      },
+      // Cancels retrieval and generation when the client disconnects
+      { callbacks: [usageHandler], signal: req.signal },
+    );
+
+    /**
+     * Condensing the question, embedding it and searching the vector store
+     * all run before the first token, so their errors become error responses.
+     */
+    const primedStream = await primeStream(stream).catch((error) => {
+      rejectWithDocuments(error);
+      throw error;
     });
+    const cacheStatus = getCacheStatus(model);
 
-    const documents = await documentPromise;
-    const serializedSources = Buffer.from(
-      JSON.stringify(
-        documents.map((doc) => {
-          return {
-            pageContent: doc.pageContent.slice(0, 50) + "...",
-            metadata: doc.metadata,
-          };
+    /**
+     * The sources are sent ahead of the answer; the documents are retrieved
+     * before the answer starts streaming.
+     */
+    async function* events(): AsyncGenerator<ChatStreamEvent> {
+      const documents = await documentPromise;
+      yield {
+        type: "sources",
+        sources: documents.map((doc) => ({
+          pageContent: doc.pageContent.slice(0, 50) + "...",
+          metadata: doc.metadata,
+        })),
+      };
+      yield* textStreamEvents(primedStream);
+    }
+
+    const responseStream = encodeChatEvents(guardrails.screenOutput(events()), {
+      protocol: body.streamProtocol,
+      getUsage: () => usageHandler.usage,
+      onComplete: (reply) =>
+        conversation?.recordReply({
+          ...reply,
+          ...getRespondingModel(model, providerConfig),
         }),
-      ),
-    ).toString("base64");
+      formatError: (error) => redactApiKeys(error.message, apiKeys),
+    });
 
-    return new StreamingTextResponse(stream, {
+    return new StreamingTextResponse(responseStream, {
       headers: {
-        "x-message-index": (previousMessages.length + 1).toString(),
-        "x-sources": serializedSources,
+        "x-llm-persona": persona.id,
+        ...(cacheStatus && { "x-cache": cacheStatus }),
+        ...getRoutingHeaders(routing),
+        ...getConversationHeaders(conversation),
+        ...getGuardrailHeaders(guardrails),
       },
     });
   } catch (e: any) {
-    return NextResponse.json({ error: e.message }, { status: e.status ?? 500 });
+    return errorResponse(e, requestId, {
+      redact: (message) => redactApiKeys(message, apiKeys),
+    });
   }
 }
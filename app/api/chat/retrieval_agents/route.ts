@@ -1,50 +1,64 @@
-import { NextRequest, NextResponse } from "next/server";
-import { Message as VercelChatMessage, StreamingTextResponse } from "ai";
+import { NextRequest } from "next/server";
+import { StreamingTextResponse } from "ai";
 
 import { createClient } from "@supabase/supabase-js";
 
 import { SupabaseVectorStore } from "@langchain/community/vectorstores/supabase";
 import {
   AIMessage,
-  BaseMessage,
   ChatMessage,
   HumanMessage,
   SystemMessage,
 } from "@langchain/core/messages";
-import { ChatOpenAI, OpenAIEmbeddings } from "@langchain/openai";
-import { createRetrieverTool } from "langchain/tools/retriever";
+import { DynamicStructuredTool } from "@langchain/core/tools";
 import { createReactAgent } from "@langchain/langgraph/prebuilt";
+import { z } from "zod";
+
+import { errorResponse } from "@/lib/api-errors";
+import {
+  chatRequestSchema,
+  getRequestId,
+  parseJsonBody,
+  type ChatRequestMessage,
+} from "@/lib/api-requests";
+import {
+  getConversationHeaders,
+  recordUserTurn,
+} from "@/lib/conversations";
+import { getGuardrailHeaders, GuardrailPipeline } from "@/lib/guardrails";
+import {
+  createChatModel,
+  createEmbeddings,
+  getEmbeddingsId,
+  parseEmbeddingsConfig,
+} from "@/lib/llm-providers";
+import { assertTextOnly, getMessageText } from "@/lib/message-content";
+import { getRoutingHeaders, resolveProviderConfig } from "@/lib/model-router";
+import { resolvePersona, withPersonaModel } from "@/lib/personas";
+import { getCacheStatus } from "@/lib/response-cache";
+import {
+  agentStreamEvents,
+  encodeChatEvents,
+  primeEvents,
+} from "@/lib/stream-utils";
+import { UsageCallbackHandler } from "@/lib/usage-tracker";
+import { getUserApiKeys, redactApiKeys } from "@/lib/user-api-keys";
+import { assertCollectionEmbeddings } from "@/lib/vector-collections";
 
 // Remove edge runtime for compatibility with dynamic imports and Vercel deployment
 // export const runtime = "edge";
 
-const convertVercelMessageToLangChainMessage = (message: VercelChatMessage) => {
+const convertVercelMessageToLangChainMessage = (message: ChatRequestMessage) => {
   if (message.role === "user") {
-    return new HumanMessage(message.content);
+    return new HumanMessage(getMessageText(message.content));
   } else if (message.role === "assistant") {
-    return new AIMessage(message.content);
-  } else {
-    return new ChatMessage(message.content, message.role);
-  }
-};
-
-const convertLangChainMessageToVercelMessage = (message: BaseMessage) => {
-  if (message._getType() === "human") {
-    return { content: message.content, role: "user" };
-  } else if (message._getType() === "ai") {
-    return {
-      content: message.content,
-      role: "assistant",
-      tool_calls: (message as AIMessage).tool_calls,
-    };
+    return new AIMessage(getMessageText(message.content));
   } else {
-    return { content: message.content, role: message._getType() };
+    return new ChatMessage(getMessageText(message.content), message.role);
   }
 };
 
-const AGENT_SYSTEM_TEMPLATE = `You are a stereotypical robot named Robbie and must answer all questions like a stereotypical robot. Use lots of interjections like "BEEP" and "BOOP".
-
-If you don't know how to answer a question, use the available tools to look up relevant information. You should particularly do this for questions about LangChain.`;
+const AGENT_TOOL_INSTRUCTIONS = `If you don't know how to answer a question, use the available tools to look up relevant information. You should particularly do this for questions about LangChain.`;
 
 /**
  * This handler initializes and calls an tool caling ReAct agent.
@@ -54,44 +68,97 @@ If you don't know how to answer a question, use the available tools to look up r
  * https://js.langchain.com/docs/use_cases/question_answering/conversational_retrieval_agents
  */
 export async function POST(req: NextRequest) {
+  const requestId = getRequestId(req);
+  const apiKeys = getUserApiKeys(req);
   try {
-    const body = await req.json();
+    const body = await parseJsonBody(req, chatRequestSchema);
+    assertTextOnly(body.messages, "/api/chat/retrieval_agents");
+    const guardrails = new GuardrailPipeline({
+      route: "/api/chat/retrieval_agents",
+      secrets: Object.values(apiKeys),
+    });
+    const screenedMessages = guardrails.screenMessages(body.messages);
     /**
-     * We represent intermediate steps as system messages for display purposes,
-     * but don't want them in the chat history.
+     * Only the user and assistant turns make up the chat history; tool calls
+     * of earlier turns are not replayed.
      */
-    const messages = (body.messages ?? [])
+    const messages = screenedMessages
       .filter(
-        (message: VercelChatMessage) =>
+        (message: ChatRequestMessage) =>
           message.role === "user" || message.role === "assistant",
       )
       .map(convertVercelMessageToLangChainMessage);
-    const returnIntermediateSteps = body.show_intermediate_steps;
 
-    const chatModel = new ChatOpenAI({
-      model: "gpt-4o-mini",
-      temperature: 0.2,
+    const persona = resolvePersona(body, "robbie");
+
+    // The agent searches through a tool, so the model must call tools
+    const { config: providerConfig, routing } = await resolveProviderConfig(
+      withPersonaModel(body, persona),
+      apiKeys,
+      {
+        prompt:
+          messages.length > 0
+            ? getMessageText(messages[messages.length - 1].content)
+            : "",
+        requires: ["toolCalling"],
+      },
+    );
+    const chatModel = await createChatModel({
+      ...providerConfig,
+      temperature: body.temperature ?? persona.temperature ?? 0.2,
+    });
+    const usageHandler = new UsageCallbackHandler({
+      route: "/api/chat/retrieval_agents",
+      model: chatModel,
+      config: providerConfig,
     });
 
     const client = createClient(
       process.env.SUPABASE_URL!,
       process.env.SUPABASE_PRIVATE_KEY!,
     );
-    const vectorstore = new SupabaseVectorStore(new OpenAIEmbeddings(), {
+    /**
+     * Query with the same embedding model the collection was ingested with;
+     * mixing models would silently return unrelated documents.
+     */
+    const embeddingsConfig = parseEmbeddingsConfig(body, apiKeys);
+    await assertCollectionEmbeddings(
       client,
-      tableName: "documents",
-      queryName: "match_documents",
-    });
+      "documents",
+      getEmbeddingsId(embeddingsConfig),
+    );
+    const vectorstore = new SupabaseVectorStore(
+      await createEmbeddings(embeddingsConfig),
+      {
+        client,
+        tableName: "documents",
+        queryName: "match_documents",
+      },
+    );
 
     const retriever = vectorstore.asRetriever();
 
     /**
      * Wrap the retriever in a tool to present it to the agent in a
-     * usable form.
+     * usable form. The documents pass the guardrails before the agent
+     * reads them.
      */
-    const tool = createRetrieverTool(retriever, {
+    const tool = new DynamicStructuredTool({
       name: "search_latest_knowledge",
       description: "Searches and returns up-to-date general information.",
+      schema: z.object({
+        query: z.string().describe("query to look up in retriever"),
+      }),
+      func: async ({ query }, runManager, config) => {
+        const documents = await retriever.invoke(query, {
+          callbacks: runManager?.getChild("retriever"),
+          signal: config?.signal,
+        });
+        return guardrails
+          .screenDocuments(documents)
+          .map((doc) => doc.pageContent)
+          .join("\n\n");
+      },
     });
 
     /**
@@ -106,60 +173,58 @@ export async function POST(req: NextRequest) {
        *
        * https://langchain-ai.github.io/langgraphjs/tutorials/quickstart/
        */
-      messageModifier: new SystemMessage(AGENT_SYSTEM_TEMPLATE),
+      messageModifier: new SystemMessage(
+        `${persona.systemTemplate}\n\n${AGENT_TOOL_INSTRUCTIONS}`,
+      ),
     });
 
-    if (!returnIntermediateSteps) {
-      /**
-       * Stream back all generated tokens and steps from their runs.
-       *
-       * We do some filtering of the generated events and only stream back
-       * the final response as a string.
-       *
-       * For this specific type of tool calling ReAct agents with OpenAI, we can tell when
-       * the agent is ready to stream back final output when it no longer calls
-       * a tool and instead streams back content.
-       *
-       * See: https://langchain-ai.github.io/langgraphjs/how-tos/stream-tokens/
-       */
-      const eventStream = await agent.streamEvents(
-        {
-          messages,
-        },
-        { version: "v2" },
-      );
-
-      const textEncoder = new TextEncoder();
-      const transformStream = new ReadableStream({
-        async start(controller) {
-          for await (const { event, data } of eventStream) {
-            if (event === "on_chat_model_stream") {
-              // Intermediate chat model generations will contain tool calls and no content
-              if (!!data.chunk.content) {
-                controller.enqueue(textEncoder.encode(data.chunk.content));
-              }
-            }
-          }
-          controller.close();
-        },
-      });
+    const conversation = await recordUserTurn(
+      { ...body, messages: screenedMessages },
+      {
+        endpoint: "/api/chat/retrieval_agents",
+        persona: persona.id,
+      },
+    );
 
-      return new StreamingTextResponse(transformStream);
-    } else {
-      /**
-       * We could also pick intermediate steps out from `streamEvents` chunks, but
-       * they are generated as JSON objects, so streaming and displaying them with
-       * the AI SDK is more complicated.
-       */
-      const result = await agent.invoke({ messages });
-      return NextResponse.json(
-        {
-          messages: result.messages.map(convertLangChainMessageToVercelMessage),
+    /**
+     * Stream back all generated tokens and steps from their runs.
+     *
+     * Tool calls and their results are streamed as they happen, and the
+     * tokens of the final answer once the agent no longer calls a tool and
+     * instead streams back content. Plain text clients only get the answer.
+     *
+     * See: https://langchain-ai.github.io/langgraphjs/how-tos/stream-tokens/
+     */
+    const eventStream = await agent.streamEvents(
+      { messages },
+      { version: "v2", callbacks: [usageHandler], signal: req.signal },
+    );
+
+    // The agent's first model response is awaited, so its errors become error
+    // responses and the cache status is known
+    const events = await primeEvents(agentStreamEvents(eventStream));
+    const cacheStatus = getCacheStatus(chatModel);
+
+    return new StreamingTextResponse(
+      encodeChatEvents(guardrails.screenOutput(events), {
+        protocol: body.streamProtocol,
+        getUsage: () => usageHandler.usage,
+        onComplete: (reply) => conversation?.recordReply(reply),
+        formatError: (error) => redactApiKeys(error.message, apiKeys),
+      }),
+      {
+        headers: {
+          "x-llm-persona": persona.id,
+          ...(cacheStatus && { "x-cache": cacheStatus }),
+          ...getRoutingHeaders(routing),
+          ...getConversationHeaders(conversation),
+          ...getGuardrailHeaders(guardrails),
         },
-        { status: 200 },
-      );
-    }
+      },
+    );
   } catch (e: any) {
-    return NextResponse.json({ error: e.message }, { status: e.status ?? 500 });
+    return errorResponse(e, requestId, {
+      redact: (message) => redactApiKeys(message, apiKeys),
+    });
   }
 }
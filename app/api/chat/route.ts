@@ -1,18 +1,48 @@
-import { NextRequest, NextResponse } from "next/server";
-import { Message as VercelChatMessage, StreamingTextResponse } from "ai";
+import { NextRequest } from "next/server";
+import { StreamingTextResponse } from "ai";
 
 import { PromptTemplate } from "@langchain/core/prompts";
 import { HttpResponseOutputParser } from "langchain/output_parsers";
-import { createChatModel, parseProviderConfig } from "@/lib/llm-providers";
+import { errorResponse } from "@/lib/api-errors";
+import {
+  chatRequestSchema,
+  getRequestId,
+  parseJsonBody,
+} from "@/lib/api-requests";
+import {
+  estimateTokens,
+  getHistoryHeaders,
+  prepareChatHistory,
+} from "@/lib/chat-history";
+import {
+  getConversationHeaders,
+  recordUserTurn,
+} from "@/lib/conversations";
+import { getGuardrailHeaders, GuardrailPipeline } from "@/lib/guardrails";
+import {
+  createChatModel,
+  getRespondingModel,
+} from "@/lib/llm-providers";
+import {
+  attachImages,
+  getMessageImages,
+  getMessageText,
+} from "@/lib/message-content";
+import { getRoutingHeaders, resolveProviderConfig } from "@/lib/model-router";
+import { resolvePersona, withPersonaModel } from "@/lib/personas";
+import { getCacheStatus } from "@/lib/response-cache";
+import {
+  encodeChatEvents,
+  primeStream,
+  textStreamEvents,
+} from "@/lib/stream-utils";
+import { UsageCallbackHandler } from "@/lib/usage-tracker";
+import { getUserApiKeys, redactApiKeys } from "@/lib/user-api-keys";
 
 // Remove edge runtime for compatibility with dynamic imports
 // export const runtime = "edge";
 
-const formatMessage = (message: VercelChatMessage) => {
-  return `${message.role}: ${message.content}`;
-};
-
-const TEMPLATE = `You are a pirate named Patchy. All responses must be extremely verbose and in pirate dialect.
+const TEMPLATE = `{persona}
 
 Current conversation:
 {chat_history}
@@ -27,46 +57,53 @@ AI:`;
  * https://js.langchain.com/docs/guides/expression_language/cookbook#prompttemplate--llm--outputparser
  */
 export async function POST(req: NextRequest) {
+  const requestId = getRequestId(req);
+  // Provider keys the user supplied for this request; never echoed back
+  const apiKeys = getUserApiKeys(req);
+
   try {
-    const body = await req.json();
-    const messages = body.messages ?? [];
-    
-    // Validate messages format
-    if (!Array.isArray(messages)) {
-      return NextResponse.json(
-        { error: "Messages must be an array" },
-        { status: 500 }
-      );
-    }
-    
-    if (messages.length === 0) {
-      return NextResponse.json(
-        { error: "Messages array cannot be empty" },
-        { status: 500 }
-      );
-    }
-    
-    // Validate message structure
-    for (const message of messages) {
-      if (!message.role || !message.content) {
-        return NextResponse.json(
-          { error: "Each message must have 'role' and 'content' properties" },
-          { status: 500 }
-        );
-      }
-    }
-    
-    const formattedPreviousMessages = messages.slice(0, -1).map(formatMessage);
-    const currentMessageContent = messages[messages.length - 1].content;
+    const body = await parseJsonBody(req, chatRequestSchema);
+    // User messages are screened before they reach the prompt, the answer
+    // on its way back
+    const guardrails = new GuardrailPipeline({
+      route: "/api/chat",
+      secrets: Object.values(apiKeys),
+    });
+    const messages = guardrails.screenMessages(body.messages);
+
+    // Images of the current message are sent along with the prompt
+    const currentMessage = messages[messages.length - 1];
+    const currentMessageContent = getMessageText(currentMessage.content);
+    const images = getMessageImages(currentMessage.content);
     const prompt = PromptTemplate.fromTemplate(TEMPLATE);
 
+    // The persona supplies the system prompt, the temperature and, unless
+    // the request picks a provider, the model
+    const persona = resolvePersona(body, "patchy");
+
     // Parse provider configuration from request or use defaults
-    const providerConfig = parseProviderConfig(body);
+    // `provider: "auto"` routes the request to a model suited to the prompt
+    const { config: providerConfig, routing } = await resolveProviderConfig(
+      withPersonaModel(body, persona),
+      apiKeys,
+      {
+        prompt: currentMessageContent,
+        ...(images.length > 0 && { requires: ["vision"] }),
+      },
+    );
+
+    // Older turns are summarized when the history outgrows the context window
+    const history = await prepareChatHistory(messages.slice(0, -1), {
+      config: providerConfig,
+      promptTokens: estimateTokens(TEMPLATE + persona.systemTemplate + currentMessageContent),
+      route: "/api/chat",
+      signal: req.signal,
+    });
     
     // Create chat model using the multi-provider abstraction
     const model = await createChatModel({
       ...providerConfig,
-      temperature: 0.8,
+      temperature: body.temperature ?? persona.temperature ?? 0.8,
     });
 
     /**
@@ -80,16 +117,79 @@ export async function POST(req: NextRequest) {
      *
      * import { RunnableSequence } from "@langchain/core/runnables";
      * const chain = RunnableSequence.from([prompt, model, outputParser]);
+     *
+     * With images, the formatted prompt and the images reach the model as
+     * one multimodal message.
      */
-    const chain = prompt.pipe(model).pipe(outputParser);
+    const chain = prompt
+      .pipe(attachImages(images))
+      .pipe(model)
+      .pipe(outputParser);
 
-    const stream = await chain.stream({
-      chat_history: formattedPreviousMessages.join("\n"),
-      input: currentMessageContent,
+    const usageHandler = new UsageCallbackHandler({
+      route: "/api/chat",
+      model,
+      config: providerConfig,
     });
 
-    return new StreamingTextResponse(stream);
+    // Requests with a conversationId are recorded in the conversation store
+    const conversation = await recordUserTurn(
+      { ...body, messages },
+      {
+        endpoint: "/api/chat",
+        persona: persona.id,
+      },
+    );
+
+    const stream = await chain.stream(
+      {
+        persona: persona.systemTemplate,
+        chat_history: history.chatHistory,
+        input: currentMessageContent,
+      },
+      // A client that disconnects cancels the provider request
+      { callbacks: [usageHandler], signal: req.signal },
+    );
+
+    /**
+     * Wait for the first chunk so the provider that actually answered
+     * (after any fallbacks, or the response cache) can be reported in the
+     * response headers.
+     */
+    const primedStream = await primeStream(stream);
+    const respondingModel = getRespondingModel(model, providerConfig);
+    const cacheStatus = getCacheStatus(model);
+
+    /**
+     * Clients using the AI SDK data protocol receive the request's token
+     * usage at the end of the stream.
+     */
+    const responseStream = encodeChatEvents(
+      guardrails.screenOutput(textStreamEvents(primedStream)),
+      {
+        protocol: body.streamProtocol,
+        getUsage: () => usageHandler.usage,
+        onComplete: (reply) =>
+          conversation?.recordReply({ ...reply, ...respondingModel }),
+        formatError: (error) => redactApiKeys(error.message, apiKeys),
+      },
+    );
+
+    return new StreamingTextResponse(responseStream, {
+      headers: {
+        "x-llm-provider": respondingModel.provider,
+        "x-llm-model": respondingModel.model,
+        "x-llm-persona": persona.id,
+        ...(cacheStatus && { "x-cache": cacheStatus }),
+        ...getRoutingHeaders(routing),
+        ...getHistoryHeaders(history),
+        ...getConversationHeaders(conversation),
+        ...getGuardrailHeaders(guardrails),
+      },
+    });
   } catch (e: any) {
-    return NextResponse.json({ error: e.message }, { status: e.status ?? 500 });
+    return errorResponse(e, requestId, {
+      redact: (message) => redactApiKeys(message, apiKeys),
+    });
   }
 }
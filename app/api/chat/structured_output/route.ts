@@ -1,10 +1,33 @@
 import { NextRequest, NextResponse } from "next/server";
+import { StreamingTextResponse } from "ai";
 
 import { z } from "zod";
 
-import { ChatOpenAI } from "@langchain/openai";
 import { PromptTemplate } from "@langchain/core/prompts";
 
+import { errorResponse } from "@/lib/api-errors";
+import {
+  chatRequestSchema,
+  getRequestId,
+  parseJsonBody,
+} from "@/lib/api-requests";
+import {
+  getConversationHeaders,
+  recordUserTurn,
+} from "@/lib/conversations";
+import { getGuardrailHeaders, GuardrailPipeline } from "@/lib/guardrails";
+import { createChatModel, getRespondingModel } from "@/lib/llm-providers";
+import {
+  attachImages,
+  getMessageImages,
+  getMessageText,
+} from "@/lib/message-content";
+import { getRoutingHeaders, resolveProviderConfig } from "@/lib/model-router";
+import { getCacheStatus } from "@/lib/response-cache";
+import { encodeChatEvents } from "@/lib/stream-utils";
+import { UsageCallbackHandler } from "@/lib/usage-tracker";
+import { getUserApiKeys, redactApiKeys } from "@/lib/user-api-keys";
+
 // Remove edge runtime for compatibility with dynamic imports and Vercel deployment
 // export const runtime = "edge";
 
@@ -23,18 +46,38 @@ Input:
  * https://js.langchain.com/v0.2/docs/how_to/structured_output
  */
 export async function POST(req: NextRequest) {
+  const requestId = getRequestId(req);
+  const apiKeys = getUserApiKeys(req);
   try {
-    const body = await req.json();
-    const messages = body.messages ?? [];
-    const currentMessageContent = messages[messages.length - 1].content;
+    const body = await parseJsonBody(req, chatRequestSchema);
+    const guardrails = new GuardrailPipeline({
+      route: "/api/chat/structured_output",
+      secrets: Object.values(apiKeys),
+    });
+    const messages = guardrails.screenMessages(body.messages);
+    // Images of the current message are sent along with the prompt
+    const currentMessage = messages[messages.length - 1];
+    const currentMessageContent = getMessageText(currentMessage.content);
+    const images = getMessageImages(currentMessage.content);
 
     const prompt = PromptTemplate.fromTemplate(TEMPLATE);
     /**
-     * Function calling is currently only supported with ChatOpenAI models
+     * Structured output relies on tool calling, and images on vision. A
+     * requested model without them is rejected; without a requested model a
+     * capable one is picked.
      */
-    const model = new ChatOpenAI({
-      temperature: 0.8,
-      model: "gpt-4o-mini",
+    const { config: providerConfig, routing } = await resolveProviderConfig(
+      body,
+      apiKeys,
+      {
+        prompt: currentMessageContent,
+        requires:
+          images.length > 0 ? ["toolCalling", "vision"] : ["toolCalling"],
+      },
+    );
+    const model = await createChatModel({
+      ...providerConfig,
+      temperature: body.temperature ?? 0.8,
     });
 
     /**
@@ -68,14 +111,66 @@ export async function POST(req: NextRequest) {
     /**
      * Returns a chain with the function calling model.
      */
-    const chain = prompt.pipe(functionCallingModel);
+    const chain = prompt
+      .pipe(attachImages(images))
+      .pipe(functionCallingModel);
+
+    const conversation = await recordUserTurn(
+      { ...body, messages },
+      { endpoint: "/api/chat/structured_output" },
+    );
+
+    const usageHandler = new UsageCallbackHandler({
+      route: "/api/chat/structured_output",
+      model,
+      config: providerConfig,
+    });
+    const output = await chain.invoke(
+      {
+        input: currentMessageContent,
+      },
+      { callbacks: [usageHandler], signal: req.signal },
+    );
+    // The text fields of the object are screened like a chat answer
+    const result = Object.fromEntries(
+      Object.entries(output).map(([key, value]) => [
+        key,
+        typeof value === "string" ? guardrails.screenAnswer(value) : value,
+      ]),
+    );
 
-    const result = await chain.invoke({
-      input: currentMessageContent,
+    const content = JSON.stringify(result, null, 2);
+    await conversation?.recordReply({
+      content,
+      ...getRespondingModel(model, providerConfig),
     });
 
-    return NextResponse.json(result, { status: 200 });
+    const cacheStatus = getCacheStatus(model);
+    const headers = {
+      ...(cacheStatus && { "x-cache": cacheStatus }),
+      ...getRoutingHeaders(routing),
+      ...getConversationHeaders(conversation),
+      ...getGuardrailHeaders(guardrails),
+    };
+
+    // Chat clients get the formatted object as the answer of a data stream
+    if (body.streamProtocol === "data") {
+      return new StreamingTextResponse(
+        encodeChatEvents(
+          [...guardrails.pendingEvents(), { type: "token", text: content }],
+          {
+            protocol: "data",
+            getUsage: () => usageHandler.usage,
+          },
+        ),
+        { headers },
+      );
+    }
+
+    return NextResponse.json(result, { status: 200, headers });
   } catch (e: any) {
-    return NextResponse.json({ error: e.message }, { status: e.status ?? 500 });
+    return errorResponse(e, requestId, {
+      redact: (message) => redactApiKeys(message, apiKeys),
+    });
   }
 }
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ApiError, errorResponse } from "@/lib/api-errors";
+import { getRequestId, parseSearchParams } from "@/lib/api-requests";
+import {
+  conversationFormatSchema,
+  exportConversation,
+} from "@/lib/conversation-export";
+import { getConversationStore } from "@/lib/conversations";
+
+// Remove edge runtime for compatibility with dynamic imports
+// export const runtime = "edge";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const exportQuerySchema = z.object({
+  format: conversationFormatSchema.default("markdown"),
+});
+
+/**
+ * GET /api/conversations/:id/export?format=markdown|json|jsonl
+ * Downloads the conversation as a Markdown transcript (default), a JSON
+ * export or an OpenAI fine-tuning example
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const requestId = getRequestId(req);
+  try {
+    const { id } = await params;
+    const { format } = parseSearchParams(req, exportQuerySchema);
+    const conversation = await getConversationStore().get(id);
+    if (!conversation) {
+      throw new ApiError("not_found", `Conversation not found: ${id}`, 404);
+    }
+
+    const exported = exportConversation(conversation, format);
+    return new NextResponse(exported.content, {
+      headers: {
+        "Content-Type": exported.contentType,
+        "Content-Disposition": `attachment; filename="${exported.fileName}"`,
+      },
+    });
+  } catch (e: any) {
+    return errorResponse(e, requestId);
+  }
+}
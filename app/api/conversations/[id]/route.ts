@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ApiError, errorResponse } from "@/lib/api-errors";
+import { getRequestId, parseJsonBody } from "@/lib/api-requests";
+import { getConversationStore } from "@/lib/conversations";
+
+// Remove edge runtime for compatibility with dynamic imports
+// export const runtime = "edge";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const renameSchema = z.object({ title: z.string() }).strict();
+
+/**
+ * GET /api/conversations/:id
+ * Returns the conversation with all of its messages
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const requestId = getRequestId(req);
+  try {
+    const { id } = await params;
+    const conversation = await getConversationStore().get(id);
+    if (!conversation) {
+      throw new ApiError("not_found", `Conversation not found: ${id}`, 404);
+    }
+    return NextResponse.json({ conversation });
+  } catch (e: any) {
+    return errorResponse(e, requestId);
+  }
+}
+
+/**
+ * PATCH /api/conversations/:id
+ * Renames the conversation: { title }
+ */
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const requestId = getRequestId(req);
+  try {
+    const { id } = await params;
+    const { title } = await parseJsonBody(req, renameSchema);
+    const conversation = await getConversationStore().rename(id, title);
+    return NextResponse.json({ conversation });
+  } catch (e: any) {
+    return errorResponse(e, requestId);
+  }
+}
+
+/**
+ * DELETE /api/conversations/:id
+ */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const requestId = getRequestId(req);
+  try {
+    const { id } = await params;
+    await getConversationStore().delete(id);
+    return NextResponse.json({ deleted: true });
+  } catch (e: any) {
+    return errorResponse(e, requestId);
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { errorResponse } from "@/lib/api-errors";
+import {
+  getRequestId,
+  parseJsonBody,
+  parseSearchParams,
+} from "@/lib/api-requests";
+import {
+  conversationFormatSchema,
+  exportConversation,
+} from "@/lib/conversation-export";
+import {
+  conversationInputSchema,
+  toConversation,
+} from "@/lib/conversations";
+
+// Remove edge runtime for compatibility with dynamic imports
+// export const runtime = "edge";
+
+const exportQuerySchema = z.object({
+  format: conversationFormatSchema.default("markdown"),
+});
+
+/**
+ * POST /api/conversations/export?format=markdown|json|jsonl
+ * Exports a conversation that is not stored, such as the llm-providers chat:
+ *
+ * { title?, endpoint?, persona?, messages: [{ role, content, provider?, model?, sources?, intermediateSteps? }] }
+ */
+export async function POST(req: NextRequest) {
+  const requestId = getRequestId(req);
+  try {
+    const { format } = parseSearchParams(req, exportQuerySchema);
+    const input = await parseJsonBody(req, conversationInputSchema);
+
+    const exported = exportConversation(toConversation(input), format);
+    return new NextResponse(exported.content, {
+      headers: {
+        "Content-Type": exported.contentType,
+        "Content-Disposition": `attachment; filename="${exported.fileName}"`,
+      },
+    });
+  } catch (e: any) {
+    return errorResponse(e, requestId);
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { errorResponse } from "@/lib/api-errors";
+import { getRequestId, parseSearchParams } from "@/lib/api-requests";
+import {
+  conversationFormatSchema,
+  importConversation,
+} from "@/lib/conversation-export";
+import { getConversationStore } from "@/lib/conversations";
+
+// Remove edge runtime for compatibility with dynamic imports
+// export const runtime = "edge";
+
+const importQuerySchema = z.object({
+  format: conversationFormatSchema.optional(),
+  endpoint: z.string().startsWith("/api/").optional(),
+});
+
+/**
+ * POST /api/conversations/import?format=json|jsonl&endpoint=/api/chat
+ * Restores a JSON or JSONL export, sent as the request body, into a new
+ * conversation. Without a format it is detected from the body; `endpoint`
+ * applies to exports that do not name one, such as JSONL.
+ */
+export async function POST(req: NextRequest) {
+  const requestId = getRequestId(req);
+  try {
+    const { format, endpoint } = parseSearchParams(req, importQuerySchema);
+    const input = importConversation(await req.text(), { format, endpoint });
+
+    const conversation = await getConversationStore().create(input);
+    return NextResponse.json({ conversation }, { status: 201 });
+  } catch (e: any) {
+    return errorResponse(e, requestId);
+  }
+}
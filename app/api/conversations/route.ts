@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { errorResponse } from "@/lib/api-errors";
+import { getRequestId, parseSearchParams } from "@/lib/api-requests";
+import { getConversationStore } from "@/lib/conversations";
+
+// Remove edge runtime for compatibility with dynamic imports
+// export const runtime = "edge";
+
+const listQuerySchema = z.object({
+  endpoint: z.string().startsWith("/api/").optional(),
+});
+
+/**
+ * GET /api/conversations?endpoint=/api/chat
+ * Lists conversation summaries, most recently updated first, optionally
+ * only those held with one chat route
+ */
+export async function GET(req: NextRequest) {
+  const requestId = getRequestId(req);
+  try {
+    const { endpoint } = parseSearchParams(req, listQuerySchema);
+    const conversations = await getConversationStore().list({ endpoint });
+    return NextResponse.json({ conversations });
+  } catch (e: any) {
+    return errorResponse(e, requestId);
+  }
+}
@@ -0,0 +1,223 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import {
+  AIMessage,
+  BaseMessage,
+  HumanMessage,
+  SystemMessage,
+} from "@langchain/core/messages";
+
+import { errorResponse } from "@/lib/api-errors";
+import {
+  chatRequestSchema,
+  getRequestId,
+  parseJsonBody,
+  type ChatRequestMessage,
+} from "@/lib/api-requests";
+import {
+  createChatModel,
+  getRespondingModel,
+  parseProviderConfig,
+  type LLMConfig,
+} from "@/lib/llm-providers";
+import { assertTextOnly, getMessageText } from "@/lib/message-content";
+import type { StreamUsage } from "@/lib/stream-utils";
+import { UsageCallbackHandler } from "@/lib/usage-tracker";
+import { getUserApiKeys, redactApiKeys } from "@/lib/user-api-keys";
+
+// Remove edge runtime for compatibility with dynamic imports
+// export const runtime = "edge";
+
+const MAX_COMPARE_MODELS = 6;
+
+const generationFields = {
+  temperature: chatRequestSchema.shape.temperature,
+  maxTokens: chatRequestSchema.shape.maxTokens,
+  // Validated per provider by parseProviderConfig
+  options: z.unknown().optional(),
+};
+
+const compareRequestSchema = z.object({
+  messages: chatRequestSchema.shape.messages,
+  models: z
+    .array(z.object({ provider: z.string().min(1), model: z.string().min(1).optional(), ...generationFields }), {
+      required_error: `Models must be an array of 1 to ${MAX_COMPARE_MODELS} { provider, model } entries`,
+    })
+    .min(1, `Models must be an array of 1 to ${MAX_COMPARE_MODELS} { provider, model } entries`)
+    .max(MAX_COMPARE_MODELS, `Models must be an array of 1 to ${MAX_COMPARE_MODELS} { provider, model } entries`),
+  ...generationFields,
+});
+
+/**
+ * One line of the response stream; `channel` is the index of the model in the request
+ */
+type CompareEvent =
+  | { type: "start"; channel: number; provider: string; model: string }
+  | { type: "token"; channel: number; text: string }
+  | {
+      type: "done";
+      channel: number;
+      provider: string;
+      model: string;
+      /** Milliseconds until the first token, undefined when nothing was generated */
+      ttftMs?: number;
+      latencyMs: number;
+      usage: StreamUsage;
+    }
+  | { type: "error"; channel: number; message: string; latencyMs: number };
+
+const convertVercelMessageToLangChainMessage = (message: ChatRequestMessage) => {
+  const content = getMessageText(message.content);
+  if (message.role === "system") {
+    return new SystemMessage(content);
+  } else if (message.role === "assistant") {
+    return new AIMessage(content);
+  } else {
+    return new HumanMessage(content);
+  }
+};
+
+async function streamChannel(
+  channel: number,
+  config: LLMConfig,
+  messages: BaseMessage[],
+  send: (event: CompareEvent) => void,
+  signal: AbortSignal,
+  redact: (text: string) => string,
+): Promise<void> {
+  const startedAt = Date.now();
+  let firstTokenAt: number | undefined;
+
+  try {
+    const model = await createChatModel(config);
+    const usageHandler = new UsageCallbackHandler({
+      route: "/api/llm/compare",
+      model,
+      config,
+    });
+
+    const stream = await model.stream(messages, {
+      callbacks: [usageHandler],
+      signal,
+    });
+    for await (const chunk of stream) {
+      const text = chunk.text;
+      if (!text) {
+        continue;
+      }
+      firstTokenAt ??= Date.now();
+      send({ type: "token", channel, text });
+    }
+
+    send({
+      type: "done",
+      channel,
+      ...getRespondingModel(model, config),
+      ttftMs: firstTokenAt === undefined ? undefined : firstTokenAt - startedAt,
+      latencyMs: Date.now() - startedAt,
+      usage: usageHandler.usage,
+    });
+  } catch (e: any) {
+    send({
+      type: "error",
+      channel,
+      message: redact(e.message ?? "Unknown error"),
+      latencyMs: Date.now() - startedAt,
+    });
+  }
+}
+
+/**
+ * POST /api/llm/compare
+ * Sends the same messages to several provider/model pairs in parallel:
+ *
+ * { messages, models: [{ provider, model?, temperature?, maxTokens?, options? }], temperature?, maxTokens?, options? }
+ *
+ * The response is newline-delimited JSON. Every line carries the `channel`
+ * (index into `models`) it belongs to: a `start` line per model, `token`
+ * lines as text arrives, then `done` with time to first token, latency and
+ * usage, or `error`. Fallbacks and the response cache are bypassed so each
+ * channel measures the model itself.
+ */
+export async function POST(req: NextRequest) {
+  const requestId = getRequestId(req);
+  const apiKeys = getUserApiKeys(req);
+  try {
+    const body = await parseJsonBody(req, compareRequestSchema);
+    const messages = body.messages;
+    // Models are compared on text prompts
+    assertTextOnly(messages, "/api/llm/compare");
+
+    const configs: LLMConfig[] = body.models.map((target) =>
+      parseProviderConfig(
+        {
+          provider: target.provider,
+          model: target.model,
+          temperature: target.temperature ?? body.temperature,
+          maxTokens: target.maxTokens ?? body.maxTokens,
+          options: target.options ?? body.options,
+          fallbacks: [],
+          cache: false,
+        },
+        apiKeys,
+      ),
+    );
+
+    const langChainMessages = messages.map(
+      convertVercelMessageToLangChainMessage,
+    );
+    const redact = (text: string) => redactApiKeys(text, apiKeys);
+    const abortController = new AbortController();
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: CompareEvent) => {
+          if (!abortController.signal.aborted) {
+            controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+          }
+        };
+
+        configs.forEach((config, channel) =>
+          send({
+            type: "start",
+            channel,
+            provider: config.provider,
+            model: config.model,
+          }),
+        );
+        await Promise.all(
+          configs.map((config, channel) =>
+            streamChannel(
+              channel,
+              config,
+              langChainMessages,
+              send,
+              abortController.signal,
+              redact,
+            ),
+          ),
+        );
+
+        if (!abortController.signal.aborted) {
+          controller.close();
+        }
+      },
+      cancel() {
+        // The client went away, stop generating on every channel
+        abortController.abort();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "application/x-ndjson; charset=utf-8",
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (e: any) {
+    return errorResponse(e, requestId, {
+      redact: (message) => redactApiKeys(message, apiKeys),
+    });
+  }
+}
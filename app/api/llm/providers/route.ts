@@ -1,32 +1,67 @@
 import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { errorResponse } from "@/lib/api-errors";
+import {
+  booleanParamSchema,
+  getRequestId,
+  parseJsonBody,
+  parseSearchParams,
+} from "@/lib/api-requests";
 import { 
   getAvailableProviders, 
-  PROVIDER_CONFIGS, 
-  validateProvider,
-  type LLMProvider 
+  getProviderNames,
+  isSupportedProvider,
 } from "@/lib/llm-providers";
+import { getDiscoveredProviderConfig } from "@/lib/model-discovery";
+import { checkProviderHealth } from "@/lib/provider-health";
+import { getProviderRateLimiter } from "@/lib/rate-limiter";
+import { getUserApiKeys } from "@/lib/user-api-keys";
 
 // Remove edge runtime for compatibility with dynamic imports
 // export const runtime = "edge";
 
+const providersQuerySchema = z.object({
+  includeUnavailable: booleanParamSchema.default('false'),
+  refresh: booleanParamSchema.default('false'),
+});
+
+const validateRequestSchema = z.object({
+  provider: z
+    .string({ required_error: 'Provider parameter is required', invalid_type_error: 'Provider parameter is required' })
+    .min(1, 'Provider parameter is required')
+    .refine(isSupportedProvider, provider => ({ message: `Unknown provider: ${provider}` })),
+  refresh: z.boolean().default(false),
+});
+
 /**
  * GET /api/llm/providers
- * Returns information about available LLM providers and their configurations
+ * Returns information about available LLM providers and their configurations,
+ * including custom providers from the provider config file
+ * Model lists and health are probed from the providers; pass `refresh=true` to bypass the caches
+ * Keys sent in the `x-llm-api-keys` header are used for the probes of this request only
+ * `rateLimit` reports each provider's limits, queue depth and recent queue wait times
  */
 export async function GET(req: NextRequest) {
+  const requestId = getRequestId(req);
   try {
-    const { searchParams } = new URL(req.url);
-    const includeUnavailable = searchParams.get('includeUnavailable') === 'true';
+    const { includeUnavailable, refresh } = parseSearchParams(req, providersQuerySchema);
+    const apiKeys = getUserApiKeys(req);
 
     if (includeUnavailable) {
       // Return all providers with their availability status
-      const allProviders = Object.keys(PROVIDER_CONFIGS) as LLMProvider[];
+      const allProviders = getProviderNames();
       const providersWithStatus = await Promise.all(
-        allProviders.map(async (provider) => ({
-          provider,
-          available: await validateProvider(provider),
-          config: PROVIDER_CONFIGS[provider],
-        }))
+        allProviders.map(async (provider) => {
+          const apiKey = apiKeys[provider];
+          const health = await checkProviderHealth(provider, { refresh, apiKey });
+          return {
+            provider,
+            available: health.status === 'healthy',
+            health,
+            rateLimit: getProviderRateLimiter(provider).getStats(),
+            config: await getDiscoveredProviderConfig(provider, { refresh, apiKey }),
+          };
+        })
       );
 
       return NextResponse.json({
@@ -35,12 +70,16 @@ export async function GET(req: NextRequest) {
       });
     } else {
       // Return only available providers
-      const availableProviders = await getAvailableProviders();
-      const providersInfo = availableProviders.map(provider => ({
-        provider,
-        available: true,
-        config: PROVIDER_CONFIGS[provider],
-      }));
+      const availableProviders = await getAvailableProviders({ refresh, apiKeys });
+      const providersInfo = await Promise.all(
+        availableProviders.map(async (provider) => ({
+          provider,
+          available: true,
+          health: await checkProviderHealth(provider, { apiKey: apiKeys[provider] }),
+          rateLimit: getProviderRateLimiter(provider).getStats(),
+          config: await getDiscoveredProviderConfig(provider, { refresh, apiKey: apiKeys[provider] }),
+        }))
+      );
 
       return NextResponse.json({
         providers: providersInfo,
@@ -48,11 +87,7 @@ export async function GET(req: NextRequest) {
       });
     }
   } catch (error: any) {
-    console.error('Error getting LLM providers:', error);
-    return NextResponse.json(
-      { error: 'Failed to get LLM providers', details: error.message },
-      { status: 500 }
-    );
+    return errorResponse(error, requestId);
   }
 }
 
@@ -61,40 +96,28 @@ export async function GET(req: NextRequest) {
  * Validates if a specific provider is available and properly configured
  */
 export async function POST(req: NextRequest) {
+  const requestId = getRequestId(req);
   try {
-    const body = await req.json();
-    const { provider } = body;
-
-    if (!provider || typeof provider !== 'string') {
-      return NextResponse.json(
-        { error: 'Provider parameter is required' },
-        { status: 400 }
-      );
-    }
-
-    if (!(provider in PROVIDER_CONFIGS)) {
-      return NextResponse.json(
-        { error: `Unknown provider: ${provider}` },
-        { status: 400 }
-      );
-    }
+    const { provider, refresh } = await parseJsonBody(req, validateRequestSchema);
 
-    const isValid = await validateProvider(provider as LLMProvider);
-    const config = PROVIDER_CONFIGS[provider as LLMProvider];
+    const apiKey = getUserApiKeys(req)[provider];
+    const health = await checkProviderHealth(provider, { refresh, apiKey });
+    const isValid = health.status === 'healthy';
+    const config = await getDiscoveredProviderConfig(provider, { refresh, apiKey });
 
     return NextResponse.json({
       provider,
       available: isValid,
+      health,
+      rateLimit: getProviderRateLimiter(provider).getStats(),
       config,
       message: isValid 
         ? `Provider ${provider} is available` 
-        : `Provider ${provider} is not properly configured`,
+        : health.status === 'unconfigured'
+          ? `Provider ${provider} is not properly configured`
+          : `Provider ${provider} is not reachable: ${health.lastError}`,
     });
   } catch (error: any) {
-    console.error('Error validating provider:', error);
-    return NextResponse.json(
-      { error: 'Failed to validate provider', details: error.message },
-      { status: 500 }
-    );
+    return errorResponse(error, requestId);
   }
 }
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { errorResponse } from "@/lib/api-errors";
+import { getRequestId, parseSearchParams } from "@/lib/api-requests";
+import { globalUsageStore } from "@/lib/usage-tracker";
+
+// Remove edge runtime for compatibility with dynamic imports
+// export const runtime = "edge";
+
+const daySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Must be a date in YYYY-MM-DD format');
+
+const usageQuerySchema = z.object({
+  from: daySchema.optional(),
+  to: daySchema.optional(),
+});
+
+/**
+ * GET /api/llm/usage
+ * Returns token usage and cost aggregated by provider, model, route and day
+ * Optional `from` and `to` query parameters (YYYY-MM-DD) limit the range of days
+ */
+export async function GET(req: NextRequest) {
+  const requestId = getRequestId(req);
+  try {
+    const range = parseSearchParams(req, usageQuerySchema);
+
+    return NextResponse.json({
+      totals: globalUsageStore.getTotals(range),
+      byProvider: globalUsageStore.summarize('provider', range),
+      byModel: globalUsageStore.summarize('model', range),
+      byRoute: globalUsageStore.summarize('route', range),
+      byDay: globalUsageStore.summarize('day', range),
+    });
+  } catch (error: any) {
+    return errorResponse(error, requestId);
+  }
+}
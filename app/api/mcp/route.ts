@@ -1,4 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ApiError, errorResponse } from "@/lib/api-errors";
+import { getRequestId, parseJsonBody } from "@/lib/api-requests";
 
 export const runtime = "nodejs";
 
@@ -7,7 +10,8 @@ interface MCPTool {
   name: string;
   description: string;
   parameters: Record<string, any>;
-  handler: (params: any) => Promise<any>;
+  /** `signal` is aborted when the client disconnects */
+  handler: (params: any, signal: AbortSignal) => Promise<any>;
 }
 
 // File system operations
@@ -29,7 +33,7 @@ const fileSystemTools: MCPTool[] = [
       // Security: restrict to project directory
       const safePath = path.resolve(process.cwd(), params.path);
       if (!safePath.startsWith(process.cwd())) {
-        throw new Error("Access denied: Path outside project directory");
+        throw new ApiError("forbidden", "Access denied: Path outside project directory", 403);
       }
       
       try {
@@ -58,7 +62,7 @@ const fileSystemTools: MCPTool[] = [
       // Security: restrict to project directory
       const safePath = path.resolve(process.cwd(), params.path);
       if (!safePath.startsWith(process.cwd())) {
-        throw new Error("Access denied: Path outside project directory");
+        throw new ApiError("forbidden", "Access denied: Path outside project directory", 403);
       }
       
       try {
@@ -86,7 +90,7 @@ const fileSystemTools: MCPTool[] = [
       // Security: restrict to project directory
       const safePath = path.resolve(process.cwd(), params.path);
       if (!safePath.startsWith(process.cwd())) {
-        throw new Error("Access denied: Path outside project directory");
+        throw new ApiError("forbidden", "Access denied: Path outside project directory", 403);
       }
       
       try {
@@ -119,12 +123,13 @@ const webTools: MCPTool[] = [
       },
       required: ["url"]
     },
-    handler: async (params) => {
+    handler: async (params, signal) => {
       try {
         const response = await fetch(params.url, {
           method: params.method || "GET",
           headers: params.headers,
-          body: params.body
+          body: params.body,
+          signal
         });
         
         const content = await response.text();
@@ -156,43 +161,42 @@ export async function GET() {
   });
 }
 
+const toolRequestSchema = z.object({
+  // Checked by hand so a missing tool keeps its own message
+  tool: z.string().optional(),
+  parameters: z.record(z.unknown()).default({}),
+});
+
 export async function POST(req: NextRequest) {
+  const requestId = getRequestId(req);
   try {
-    const body = await req.json();
-    const { tool: toolName, parameters = {} } = body;
-    
+    const { tool: toolName, parameters } = await parseJsonBody(req, toolRequestSchema);
+
     if (!toolName) {
-      return NextResponse.json({ error: "Tool name is required" }, { status: 400 });
+      throw new ApiError("invalid_request", "Tool name is required");
     }
-    
+
     const tool = allTools.find(t => t.name === toolName);
     if (!tool) {
-      return NextResponse.json(
-        { error: `Tool '${toolName}' not found` },
-        { status: 404 }
-      );
+      throw new ApiError("not_found", `Tool '${toolName}' not found`, 404);
     }
-    
-    try {
-      const result = await tool.handler(parameters);
-      return NextResponse.json({
-        tool: toolName,
-        parameters,
-        result,
-        timestamp: new Date().toISOString()
-      });
-    } catch (error: any) {
-      return NextResponse.json({
-        tool: toolName,
-        parameters,
-        error: error.message,
-        timestamp: new Date().toISOString()
-      }, { status: 500 });
+
+    const missing = (tool.parameters.required as string[]).filter(name => parameters[name] === undefined);
+    if (missing.length > 0) {
+      throw new ApiError(
+        "invalid_request",
+        `Tool '${toolName}' is missing required parameters: ${missing.join(", ")}`
+      );
     }
+
+    const result = await tool.handler(parameters, req.signal);
+    return NextResponse.json({
+      tool: toolName,
+      parameters,
+      result,
+      timestamp: new Date().toISOString()
+    });
   } catch (error: any) {
-    return NextResponse.json(
-      { error: "Invalid request body", details: error.message },
-      { status: 400 }
-    );
+    return errorResponse(error, requestId);
   }
-}
\ No newline at end of file
+}
@@ -1,19 +1,71 @@
 import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
 import { 
   globalTaskManager, 
   globalWorkflowOrchestrator, 
   globalTodoListManager,
-  TaskState 
 } from "@/lib/orchestration-tools";
+import { ApiError, errorResponse } from "@/lib/api-errors";
+import { getRequestId, parseJsonBody, parseSearchParams } from "@/lib/api-requests";
 
 export const runtime = "nodejs";
 
+const stepStatusSchema = z.enum(['pending', 'running', 'completed', 'failed']);
+const todoStatusSchema = z.enum(['todo', 'in_progress', 'done']);
+
+const orchestrationQuerySchema = z
+  .object({
+    action: z.enum(['tasks', 'task', 'todos', 'todos_by_task']).optional(),
+    taskId: z.string().min(1).optional(),
+    status: todoStatusSchema.optional(),
+  })
+  .refine(
+    query => !(query.action === 'task' || query.action === 'todos_by_task') || query.taskId,
+    { message: 'taskId required', path: ['taskId'] }
+  );
+
+const createRequestSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('create_task'),
+    taskType: z.enum(['planning', 'development', 'analysis']).default('planning'),
+    description: z.string().min(1),
+    cliCommand: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('create_todo'),
+    title: z.string().min(1),
+    description: z.string().default(''),
+    priority: z.enum(['low', 'medium', 'high']).optional(),
+    taskId: z.string().optional(),
+  }),
+]);
+
+const updateRequestSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('update_task_status'), id: z.string().min(1), status: stepStatusSchema }),
+  z.object({
+    type: z.literal('update_step_status'),
+    id: z.string().min(1),
+    stepId: z.string().min(1),
+    status: stepStatusSchema,
+    result: z.string().optional(),
+  }),
+  z.object({ type: z.literal('update_todo_status'), id: z.string().min(1), status: todoStatusSchema }),
+]);
+
+function getTaskOrThrow(taskId: string) {
+  const task = globalTaskManager.getTask(taskId);
+  if (!task) {
+    throw new ApiError('not_found', 'Task not found', 404);
+  }
+  return task;
+}
+
 export async function GET(req: NextRequest) {
-  const { searchParams } = new URL(req.url);
-  const action = searchParams.get('action');
-  const taskId = searchParams.get('taskId');
+  const requestId = getRequestId(req);
 
   try {
+    const { action, taskId, status } = parseSearchParams(req, orchestrationQuerySchema);
+
     switch (action) {
       case 'tasks':
         return NextResponse.json({
@@ -22,27 +74,16 @@ export async function GET(req: NextRequest) {
         });
 
       case 'task':
-        if (!taskId) {
-          return NextResponse.json({ error: "taskId required" }, { status: 400 });
-        }
-        const task = globalTaskManager.getTask(taskId);
-        if (!task) {
-          return NextResponse.json({ error: "Task not found" }, { status: 404 });
-        }
-        return NextResponse.json({ task });
+        return NextResponse.json({ task: getTaskOrThrow(taskId!) });
 
       case 'todos':
-        const status = searchParams.get('status') as 'todo' | 'in_progress' | 'done' | null;
         return NextResponse.json({
-          todos: globalTodoListManager.getTodos(status || undefined),
+          todos: globalTodoListManager.getTodos(status),
         });
 
       case 'todos_by_task':
-        if (!taskId) {
-          return NextResponse.json({ error: "taskId required" }, { status: 400 });
-        }
         return NextResponse.json({
-          todos: globalTodoListManager.getTodosByTask(taskId),
+          todos: globalTodoListManager.getTodosByTask(taskId!),
         });
 
       default:
@@ -73,20 +114,17 @@ export async function GET(req: NextRequest) {
         });
     }
   } catch (error) {
-    console.error("Orchestration API error:", error);
-    return NextResponse.json(
-      { error: "Internal server error", details: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500 }
-    );
+    return errorResponse(error, requestId);
   }
 }
 
 export async function POST(req: NextRequest) {
+  const requestId = getRequestId(req);
+
   try {
-    const body = await req.json();
-    const { type, ...data } = body;
+    const data = await parseJsonBody(req, createRequestSchema);
 
-    switch (type) {
+    switch (data.type) {
       case 'create_task':
         const { taskType, description: taskDescription, cliCommand } = data;
         const taskId = `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -138,46 +176,39 @@ export async function POST(req: NextRequest) {
           todoId,
           message: 'Todo created successfully',
         });
-
-      default:
-        return NextResponse.json({ error: "Invalid type" }, { status: 400 });
     }
   } catch (error) {
-    console.error("Orchestration POST error:", error);
-    return NextResponse.json(
-      { error: "Internal server error", details: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500 }
-    );
+    return errorResponse(error, requestId);
   }
 }
 
 export async function PUT(req: NextRequest) {
+  const requestId = getRequestId(req);
+
   try {
-    const body = await req.json();
-    const { type, id, status, stepId } = body;
+    const body = await parseJsonBody(req, updateRequestSchema);
 
-    switch (type) {
+    switch (body.type) {
       case 'update_task_status':
-        globalTaskManager.updateTaskStatus(id, status);
+        getTaskOrThrow(body.id);
+        globalTaskManager.updateTaskStatus(body.id, body.status);
         return NextResponse.json({ success: true, message: 'Task status updated' });
 
       case 'update_step_status':
-        const { result } = body;
-        globalTaskManager.updateStepStatus(id, stepId, status, result);
+        if (!getTaskOrThrow(body.id).steps.some(step => step.id === body.stepId)) {
+          throw new ApiError('not_found', 'Step not found', 404);
+        }
+        globalTaskManager.updateStepStatus(body.id, body.stepId, body.status, body.result);
         return NextResponse.json({ success: true, message: 'Step status updated' });
 
       case 'update_todo_status':
-        globalTodoListManager.updateTodoStatus(id, status);
+        if (!globalTodoListManager.getTodos().some(todo => todo.id === body.id)) {
+          throw new ApiError('not_found', 'Todo not found', 404);
+        }
+        globalTodoListManager.updateTodoStatus(body.id, body.status);
         return NextResponse.json({ success: true, message: 'Todo status updated' });
-
-      default:
-        return NextResponse.json({ error: "Invalid type" }, { status: 400 });
     }
   } catch (error) {
-    console.error("Orchestration PUT error:", error);
-    return NextResponse.json(
-      { error: "Internal server error", details: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500 }
-    );
+    return errorResponse(error, requestId);
   }
 }
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ApiError, errorResponse } from "@/lib/api-errors";
+import { getRequestId, parseJsonBody } from "@/lib/api-requests";
+import { getPersonaStore, personaPatchSchema } from "@/lib/personas";
+
+// Remove edge runtime for compatibility with dynamic imports
+// export const runtime = "edge";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/personas/:id
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const requestId = getRequestId(req);
+  try {
+    const { id } = await params;
+    const persona = getPersonaStore().get(id);
+    if (!persona) {
+      throw new ApiError("not_found", `Persona not found: ${id}`, 404);
+    }
+    return NextResponse.json({ persona });
+  } catch (e: any) {
+    return errorResponse(e, requestId);
+  }
+}
+
+/**
+ * PATCH /api/personas/:id
+ * Updates the given fields; null clears description, provider, model or
+ * temperature. Built-in personas can be edited too.
+ */
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const requestId = getRequestId(req);
+  try {
+    const { id } = await params;
+    const patch = await parseJsonBody(req, personaPatchSchema);
+    const persona = getPersonaStore().update(id, patch);
+    return NextResponse.json({ persona });
+  } catch (e: any) {
+    return errorResponse(e, requestId);
+  }
+}
+
+/**
+ * DELETE /api/personas/:id
+ * Deletes a custom persona. For an edited built-in persona the edits are
+ * discarded and the restored persona is returned.
+ */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const requestId = getRequestId(req);
+  try {
+    const { id } = await params;
+    const restored = getPersonaStore().delete(id);
+    return NextResponse.json(restored ? { deleted: false, persona: restored } : { deleted: true });
+  } catch (e: any) {
+    return errorResponse(e, requestId);
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api-errors";
+import { getRequestId, parseJsonBody } from "@/lib/api-requests";
+import { getPersonaStore, personaInputSchema } from "@/lib/personas";
+
+// Remove edge runtime for compatibility with dynamic imports
+// export const runtime = "edge";
+
+/**
+ * GET /api/personas
+ * Lists built-in and custom personas
+ */
+export async function GET(req: NextRequest) {
+  const requestId = getRequestId(req);
+  try {
+    return NextResponse.json({ personas: getPersonaStore().list() });
+  } catch (e: any) {
+    return errorResponse(e, requestId);
+  }
+}
+
+/**
+ * POST /api/personas
+ * Creates a persona:
+ *
+ * { name, systemTemplate, description?, provider?, model?, temperature? }
+ *
+ * The id is derived from the name. Chat routes use the persona when a
+ * request sends its id as `persona`.
+ */
+export async function POST(req: NextRequest) {
+  const requestId = getRequestId(req);
+  try {
+    const input = await parseJsonBody(req, personaInputSchema);
+    const persona = getPersonaStore().create(input);
+    return NextResponse.json({ persona }, { status: 201 });
+  } catch (e: any) {
+    return errorResponse(e, requestId);
+  }
+}
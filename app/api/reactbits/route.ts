@@ -1,4 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ApiError, errorResponse } from "@/lib/api-errors";
+import { getRequestId, parseJsonBody, parseSearchParams } from "@/lib/api-requests";
 
 // Remove edge runtime for compatibility with dynamic imports and Vercel deployment
 // export const runtime = "edge";
@@ -95,9 +98,21 @@ async function pollTaskStatus(taskId: string): Promise<any> {
   }
 }
 
+const pollQuerySchema = z.object({ taskId: z.string().min(1).optional() });
+
+const generateRequestSchema = z.object({
+  prompt: z.string({ required_error: "Prompt is required" }).trim().min(1, "Prompt is required"),
+  useBackground: z.boolean().default(false),
+});
+
 export async function GET(req: NextRequest) {
-  const url = new URL(req.url);
-  const taskId = url.searchParams.get('taskId');
+  const requestId = getRequestId(req);
+  let taskId: string | undefined;
+  try {
+    ({ taskId } = parseSearchParams(req, pollQuerySchema));
+  } catch (error) {
+    return errorResponse(error, requestId);
+  }
   
   if (taskId) {
     // Poll for task status
@@ -122,22 +137,15 @@ export async function GET(req: NextRequest) {
 }
 
 export async function POST(req: NextRequest) {
+  const requestId = getRequestId(req);
   try {
-    const body = await req.json();
-    const { prompt, useBackground = false } = body;
-    
-    if (!prompt) {
-      return NextResponse.json({ error: "Prompt is required" }, { status: 400 });
-    }
+    const { prompt, useBackground } = await parseJsonBody(req, generateRequestSchema);
     
     // Use CLI orchestrator for component generation
     const result = await generateComponentWithCli(prompt, useBackground);
     
     if (!result.success) {
-      return NextResponse.json(
-        { error: "Failed to generate component", details: result.error },
-        { status: 500 }
-      );
+      throw new ApiError("internal_error", `Failed to generate component: ${result.error}`, 500);
     }
     
     if (result.taskId) {
@@ -174,9 +182,6 @@ export async function POST(req: NextRequest) {
     }
     
   } catch (error: any) {
-    return NextResponse.json(
-      { error: "Failed to generate component", details: error.message },
-      { status: 500 }
-    );
+    return errorResponse(error, requestId);
   }
 }
\ No newline at end of file
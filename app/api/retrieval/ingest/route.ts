@@ -1,9 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
 import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
 
 import { createClient } from "@supabase/supabase-js";
 import { SupabaseVectorStore } from "@langchain/community/vectorstores/supabase";
-import { OpenAIEmbeddings } from "@langchain/openai";
+
+import {
+  createEmbeddings,
+  getEmbeddingsId,
+  parseEmbeddingsConfig,
+} from "@/lib/llm-providers";
+import { assertCollectionEmbeddings } from "@/lib/vector-collections";
+import { ApiError, errorResponse } from "@/lib/api-errors";
+import { getRequestId, parseJsonBody } from "@/lib/api-requests";
 
 // Remove edge runtime for compatibility with dynamic imports and Vercel deployment
 // export const runtime = "edge";
@@ -11,30 +20,41 @@ import { OpenAIEmbeddings } from "@langchain/openai";
 // Before running, follow set-up instructions at
 // https://js.langchain.com/v0.2/docs/integrations/vectorstores/supabase
 
+// Embedding fields pass through to parseEmbeddingsConfig
+const ingestRequestSchema = z
+  .object({
+    text: z.string({ required_error: "Text is required" }).trim().min(1, "Text is required"),
+  })
+  .passthrough();
+
 /**
  * This handler takes input text, splits it into chunks, and embeds those chunks
  * into a vector store for later retrieval. See the following docs for more information:
  *
  * https://js.langchain.com/v0.2/docs/how_to/recursive_text_splitter
  * https://js.langchain.com/v0.2/docs/integrations/vectorstores/supabase
+ *
+ * The embedding model comes from `embeddingProvider` / `embeddingModel` in the
+ * request (or the EMBEDDINGS_* environment variables) and is recorded on every
+ * chunk, so a collection never mixes vectors from different models.
  */
 export async function POST(req: NextRequest) {
-  const body = await req.json();
-  const text = body.text;
-
-  if (process.env.NEXT_PUBLIC_DEMO === "true") {
-    return NextResponse.json(
-      {
-        error: [
+  const requestId = getRequestId(req);
+  try {
+    if (process.env.NEXT_PUBLIC_DEMO === "true") {
+      throw new ApiError(
+        "forbidden",
+        [
           "Ingest is not supported in demo mode.",
           "Please set up your own version of the repo here: https://github.com/langchain-ai/langchain-nextjs-template",
         ].join("\n"),
-      },
-      { status: 403 },
-    );
-  }
+        403,
+      );
+    }
+
+    const body = await parseJsonBody(req, ingestRequestSchema);
+    const text = body.text;
 
-  try {
     const client = createClient(
       process.env.SUPABASE_URL!,
       process.env.SUPABASE_PRIVATE_KEY!,
@@ -45,11 +65,18 @@ export async function POST(req: NextRequest) {
       chunkOverlap: 20,
     });
 
-    const splitDocuments = await splitter.createDocuments([text]);
+    const embeddingsConfig = parseEmbeddingsConfig(body);
+    const embeddingsId = getEmbeddingsId(embeddingsConfig);
+    await assertCollectionEmbeddings(client, "documents", embeddingsId);
+
+    const splitDocuments = await splitter.createDocuments(
+      [text],
+      [{ embeddingModel: embeddingsId }],
+    );
 
     const vectorstore = await SupabaseVectorStore.fromDocuments(
       splitDocuments,
-      new OpenAIEmbeddings(),
+      await createEmbeddings(embeddingsConfig),
       {
         client,
         tableName: "documents",
@@ -59,6 +86,6 @@ export async function POST(req: NextRequest) {
 
     return NextResponse.json({ ok: true }, { status: 200 });
   } catch (e: any) {
-    return NextResponse.json({ error: e.message }, { status: 500 });
+    return errorResponse(e, requestId);
   }
 }
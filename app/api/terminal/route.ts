@@ -3,6 +3,9 @@ import { exec, spawn } from "child_process";
 import { promisify } from "util";
 import * as path from "path";
 import * as fs from "fs/promises";
+import { z } from "zod";
+import { ApiError, errorResponse } from "@/lib/api-errors";
+import { getRequestId, parseJsonBody, parseSearchParams } from "@/lib/api-requests";
 
 const execAsync = promisify(exec);
 
@@ -86,7 +89,7 @@ async function createProjectDir(projectName: string): Promise<string> {
 }
 
 // Helper function to execute CLI commands with special handling for Claude and Gemini
-async function executeCliCommand(command: string, workingDirectory: string): Promise<{
+async function executeCliCommand(command: string, workingDirectory: string, signal?: AbortSignal): Promise<{
   success: boolean;
   stdout: string;
   stderr: string;
@@ -149,6 +152,7 @@ async function executeCliCommand(command: string, workingDirectory: string): Pro
       cwd: workingDirectory,
       timeout: 30000, // 30 second timeout
       maxBuffer: 1024 * 1024, // 1MB buffer
+      signal, // Kills the command when the client disconnects
     });
     
     return {
@@ -213,22 +217,33 @@ function sanitizeCommand(command: string): { isValid: boolean; reason?: string }
   return { isValid: true };
 }
 
+const commandRequestSchema = z.object({
+  command: z.string({ required_error: "Command is required" }).trim().min(1, "Command is required"),
+  workingDirectory: z.string().min(1).optional(),
+  background: z.boolean().default(false),
+  taskId: z.string().min(1).optional(),
+});
+
+const terminalQuerySchema = z.object({
+  taskId: z.string().min(1).optional(),
+  action: z.enum(['list', 'plans', 'projects']).optional(),
+});
+
+const projectRequestSchema = z.object({
+  projectName: z.string({ required_error: "Project name is required" }).trim().min(1, "Project name is required"),
+  description: z.string().optional(),
+});
+
 export async function POST(req: NextRequest) {
+  const requestId = getRequestId(req);
   try {
-    const body = await req.json();
-    const { command, workingDirectory = process.cwd(), background = false, taskId } = body;
-    
-    if (!command) {
-      return NextResponse.json({ error: "Command is required" }, { status: 400 });
-    }
+    const body = await parseJsonBody(req, commandRequestSchema);
+    const { command, workingDirectory = process.cwd(), background, taskId } = body;
     
     // Sanitize and validate command
     const validation = sanitizeCommand(command);
     if (!validation.isValid) {
-      return NextResponse.json(
-        { error: `Security violation: ${validation.reason}` },
-        { status: 403 }
-      );
+      throw new ApiError("forbidden", `Security violation: ${validation.reason}`, 403);
     }
     
     // Handle background execution
@@ -255,7 +270,7 @@ export async function POST(req: NextRequest) {
     }
     
     // Execute command immediately
-    const result = await executeCliCommand(command, workingDirectory);
+    const result = await executeCliCommand(command, workingDirectory, req.signal);
     
     return NextResponse.json({
       success: result.success,
@@ -266,23 +281,25 @@ export async function POST(req: NextRequest) {
       metadata: result.metadata,
     });
   } catch (error: any) {
-    return NextResponse.json(
-      { error: "Internal server error", details: error.message },
-      { status: 500 }
-    );
+    return errorResponse(error, requestId);
   }
 }
 
 export async function GET(req: NextRequest) {
-  const { searchParams } = new URL(req.url);
-  const taskId = searchParams.get('taskId');
-  const action = searchParams.get('action');
-  
+  const requestId = getRequestId(req);
+  try {
+    return await getTerminalInfo(parseSearchParams(req, terminalQuerySchema));
+  } catch (error: any) {
+    return errorResponse(error, requestId);
+  }
+}
+
+async function getTerminalInfo({ taskId, action }: z.infer<typeof terminalQuerySchema>) {
   // Get task status
   if (taskId) {
     const task = backgroundTasks.get(taskId);
     if (!task) {
-      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+      throw new ApiError("not_found", "Task not found", 404);
     }
     
     return NextResponse.json({
@@ -311,36 +328,28 @@ export async function GET(req: NextRequest) {
   
   // Get plans directory
   if (action === 'plans') {
-    try {
-      const planosDir = getPlanosDir();
-      await ensureDirectoryExists(planosDir);
-      const files = await fs.readdir(planosDir);
-      const plans = files.filter(f => f.endsWith('.md')).map(f => ({
-        name: f,
-        path: path.join(planosDir, f),
-      }));
-      
-      return NextResponse.json({ plans, directory: planosDir });
-    } catch (error: any) {
-      return NextResponse.json({ error: error.message }, { status: 500 });
-    }
+    const planosDir = getPlanosDir();
+    await ensureDirectoryExists(planosDir);
+    const files = await fs.readdir(planosDir);
+    const plans = files.filter(f => f.endsWith('.md')).map(f => ({
+      name: f,
+      path: path.join(planosDir, f),
+    }));
+    
+    return NextResponse.json({ plans, directory: planosDir });
   }
   
   // Get projects directory
   if (action === 'projects') {
-    try {
-      const projetosDir = getProjetosDir();
-      await ensureDirectoryExists(projetosDir);
-      const dirs = await fs.readdir(projetosDir, { withFileTypes: true });
-      const projects = dirs.filter(d => d.isDirectory()).map(d => ({
-        name: d.name,
-        path: path.join(projetosDir, d.name),
-      }));
-      
-      return NextResponse.json({ projects, directory: projetosDir });
-    } catch (error: any) {
-      return NextResponse.json({ error: error.message }, { status: 500 });
-    }
+    const projetosDir = getProjetosDir();
+    await ensureDirectoryExists(projetosDir);
+    const dirs = await fs.readdir(projetosDir, { withFileTypes: true });
+    const projects = dirs.filter(d => d.isDirectory()).map(d => ({
+      name: d.name,
+      path: path.join(projetosDir, d.name),
+    }));
+    
+    return NextResponse.json({ projects, directory: projetosDir });
   }
   
   // Default API info
@@ -359,13 +368,9 @@ export async function GET(req: NextRequest) {
 }
 
 export async function PUT(req: NextRequest) {
+  const requestId = getRequestId(req);
   try {
-    const body = await req.json();
-    const { projectName, description } = body;
-    
-    if (!projectName) {
-      return NextResponse.json({ error: "Project name is required" }, { status: 400 });
-    }
+    const { projectName, description } = await parseJsonBody(req, projectRequestSchema);
     
     const projectDir = await createProjectDir(projectName);
     
@@ -380,9 +385,6 @@ export async function PUT(req: NextRequest) {
       message: 'Project directory created successfully',
     });
   } catch (error: any) {
-    return NextResponse.json(
-      { error: "Failed to create project", details: error.message },
-      { status: 500 }
-    );
+    return errorResponse(error, requestId);
   }
 }
\ No newline at end of file
@@ -55,9 +55,11 @@ export default function ChatPage() {
   return (
     <ChatWindow
       endpoint="api/chat"
+      persona="patchy"
       emoji="🏴‍☠️"
       placeholder="I'm an LLM pretending to be a pirate! Ask me about the pirate life!"
       emptyStateComponent={InfoCard}
+      acceptImages={true}
     />
   );
 }
\ No newline at end of file
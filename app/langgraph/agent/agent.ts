@@ -4,9 +4,67 @@ import {
   START,
   Annotation,
 } from "@langchain/langgraph";
-import { ChatOpenAI } from "@langchain/openai";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { chatRequestSchema, parseWith } from "../../../lib/api-requests";
+import { createChatModel } from "../../../lib/llm-providers";
+import { getMessageText } from "../../../lib/message-content";
+import { resolveProviderConfig } from "../../../lib/model-router";
+import {
+  resolvePersona,
+  withPersonaModel,
+  type Persona,
+} from "../../../lib/personas";
+
+const MAX_CACHED_MODELS = 100;
+
+// The model fields of `configurable` are validated like those of chat requests
+const configurableSchema = chatRequestSchema
+  .pick({ provider: true, model: true, temperature: true, persona: true })
+  .passthrough();
+
+// Models by thread and model fields, so every step of a run reuses one model
+const chatModels = new Map<string, Promise<BaseChatModel>>();
+
+async function createAgentModel(
+  configurable: Record<string, any>,
+  persona: Persona,
+  prompt: string,
+): Promise<BaseChatModel> {
+  const { config: providerConfig } = await resolveProviderConfig(
+    withPersonaModel(configurable, persona),
+    undefined,
+    { prompt },
+  );
+  return createChatModel({
+    ...providerConfig,
+    temperature: configurable.temperature ?? persona.temperature ?? 0,
+  });
+}
 
-const llm = new ChatOpenAI({ model: "gpt-4o-mini", temperature: 0 });
+function getAgentModel(
+  configurable: Record<string, any>,
+  persona: Persona,
+  prompt: string,
+): Promise<BaseChatModel> {
+  const key = JSON.stringify([
+    configurable.thread_id,
+    persona.id,
+    configurable.provider,
+    configurable.model,
+    configurable.temperature,
+  ]);
+  let model = chatModels.get(key);
+  if (!model) {
+    model = createAgentModel(configurable, persona, prompt);
+    // A failed model is created again on the next run
+    model.catch(() => chatModels.delete(key));
+    chatModels.set(key, model);
+    if (chatModels.size > MAX_CACHED_MODELS) {
+      chatModels.delete(chatModels.keys().next().value!);
+    }
+  }
+  return model;
+}
 
 const builder = new StateGraph(
   Annotation.Root({
@@ -15,13 +73,22 @@ const builder = new StateGraph(
   }),
 )
   .addNode("agent", async (state, config) => {
+    // Pick another persona with `configurable: { persona: "<id>" }`, and
+    // the model with `provider`, `model` and `temperature` like chat requests
+    const configurable = parseWith(
+      configurableSchema,
+      config.configurable ?? {},
+      "configurable",
+    );
+    const persona = resolvePersona(configurable, "patchy");
+    const lastMessage = state.messages[state.messages.length - 1];
+    const llm = await getAgentModel(
+      configurable,
+      persona,
+      getMessageText(lastMessage?.content),
+    );
     const message = await llm.invoke([
-      {
-        type: "system",
-        content:
-          "You are a pirate named Patchy. " +
-          "All responses must be extremely verbose and in pirate dialect.",
-      },
+      { type: "system", content: persona.systemTemplate },
       ...state.messages,
     ]);
 
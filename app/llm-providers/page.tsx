@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -8,74 +8,210 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { AlertCircle, CheckCircle, Loader2, Settings, Bot, Key, Eye, EyeOff } from "lucide-react";
+import { AlertCircle, CheckCircle, Loader2, Settings, Bot, Key, Eye, EyeOff, RefreshCw, Shuffle } from "lucide-react";
 import { useChat } from "ai/react";
 import { toast } from "sonner";
+import { ExportConversationButton } from "@/components/ExportConversationButton";
+import { ModelComparison } from "@/components/ModelComparison";
+
+interface ProviderHealth {
+  status: 'healthy' | 'unhealthy' | 'unconfigured';
+  latencyMs?: number;
+  lastError?: string;
+  lastChecked: string;
+}
+
+interface MessageUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+// Provider and model that answered, from the response headers
+interface Responder {
+  provider: string;
+  model: string | null;
+}
+
+function formatResponder(responder?: Responder): string | undefined {
+  return responder && `${responder.provider}${responder.model ? ` · ${responder.model}` : ''}`;
+}
+
+function MessageUsageLine(props: { annotations?: unknown[] }) {
+  // Usage is sent as a message annotation at the end of the stream
+  const usage = props.annotations?.find(
+    (item): item is { usage: MessageUsage } => typeof item === 'object' && item !== null && 'usage' in item
+  )?.usage;
+  if (!usage) return null;
+
+  return (
+    <p className="mt-2 text-xs text-muted-foreground">
+      {usage.inputTokens} in · {usage.outputTokens} out · ${usage.costUsd.toFixed(5)}
+    </p>
+  );
+}
+
+interface ModelCapabilities {
+  toolCalling: boolean;
+  jsonMode: boolean;
+  vision: boolean;
+  contextWindow: number;
+  maxOutputTokens: number;
+}
+
+function formatTokenCount(tokens: number): string {
+  return tokens >= 1000 ? `${Math.round(tokens / 1000)}K` : String(tokens);
+}
+
+function ModelCapabilityBadges(props: { capabilities?: ModelCapabilities }) {
+  const { capabilities } = props;
+  if (!capabilities) return null;
+
+  const features = [
+    capabilities.toolCalling && 'Tools',
+    capabilities.jsonMode && 'JSON',
+    capabilities.vision && 'Vision',
+  ].filter(Boolean);
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-1">
+      {features.map((feature) => (
+        <Badge key={feature as string} variant="outline" className="text-xs">
+          {feature}
+        </Badge>
+      ))}
+      <span className="text-xs text-muted-foreground">
+        {formatTokenCount(capabilities.contextWindow)} context · {formatTokenCount(capabilities.maxOutputTokens)} output
+      </span>
+    </div>
+  );
+}
+
+interface ProviderRateLimit {
+  requestsPerMinute?: number;
+  maxConcurrency?: number;
+  active: number;
+  queueDepth: number;
+  averageWaitMs: number;
+}
 
 interface Provider {
   provider: string;
   available: boolean;
+  health: ProviderHealth;
+  rateLimit: ProviderRateLimit;
   config: {
     models: string[];
     defaultModel: string;
     requiresApiKey: boolean;
     supportsStreaming: boolean;
     baseURL?: string;
+    custom?: boolean;
+    modelsSource: 'live' | 'static';
+    modelsFetchedAt: string;
+    modelCapabilities: Record<string, ModelCapabilities>;
   };
 }
 
+// Provider value that lets the server pick a model per message
+const AUTO_PROVIDER = 'auto';
+
+// Header read by the server for the user's own provider keys
+function apiKeyHeaders(keys: Record<string, string>): Record<string, string> {
+  const saved = Object.fromEntries(Object.entries(keys).filter(([, key]) => key.trim()));
+  return Object.keys(saved).length > 0 ? { 'x-llm-api-keys': JSON.stringify(saved) } : {};
+}
+
 export default function MultiProviderChat() {
   const [providers, setProviders] = useState<Provider[]>([]);
   const [selectedProvider, setSelectedProvider] = useState<string>("");
   const [selectedModel, setSelectedModel] = useState<string>("");
   const [temperature, setTemperature] = useState<number>(0.7);
   const [loading, setLoading] = useState(true);
+  const [refreshingProviders, setRefreshingProviders] = useState(false);
   const [error, setError] = useState<string>("");
   const [showApiKeyConfig, setShowApiKeyConfig] = useState(false);
   const [apiKeys, setApiKeys] = useState<Record<string, string>>({});
+  const [savedApiKeys, setSavedApiKeys] = useState<Record<string, string>>({});
   const [showKeys, setShowKeys] = useState<Record<string, boolean>>({});
+  const [respondedBy, setRespondedBy] = useState<Record<string, Responder>>({});
+  const [routingReasons, setRoutingReasons] = useState<Record<string, string>>({});
+  const pendingResponder = useRef<{ responder: Responder; routingReason: string | null } | null>(null);
 
   const { messages, input, handleInputChange, handleSubmit, isLoading, setMessages } = useChat({
     api: '/api/chat',
+    // Saved keys travel with each request so the server can use them for this user only
+    headers: apiKeyHeaders(savedApiKeys),
     body: {
       provider: selectedProvider,
       model: selectedModel,
       temperature: temperature,
+      // Data protocol so the token usage of each reply arrives at the end of the stream
+      streamProtocol: 'data',
+    },
+    onResponse(response) {
+      // Fallback chains may answer with a different provider than the one selected
+      const provider = response.headers.get('x-llm-provider');
+      const model = response.headers.get('x-llm-model');
+      pendingResponder.current = provider
+        ? {
+            responder: { provider, model },
+            // Set when the auto provider picked the model
+            routingReason: response.headers.get('x-llm-routing-reason'),
+          }
+        : null;
+    },
+    onFinish(message) {
+      const pending = pendingResponder.current;
+      if (pending) {
+        setRespondedBy(prev => ({ ...prev, [message.id]: pending.responder }));
+        if (pending.routingReason) {
+          setRoutingReasons(prev => ({ ...prev, [message.id]: pending.routingReason! }));
+        }
+      }
     },
   });
 
   useEffect(() => {
-    fetchProviders();
-    loadApiKeysFromStorage();
+    fetchProviders(loadApiKeysFromStorage());
   }, []);
 
-  const loadApiKeysFromStorage = () => {
+  const loadApiKeysFromStorage = (): Record<string, string> => {
     const stored = localStorage.getItem('llm-api-keys');
     if (stored) {
       try {
-        setApiKeys(JSON.parse(stored));
+        const keys = JSON.parse(stored);
+        setApiKeys(keys);
+        setSavedApiKeys(keys);
+        return keys;
       } catch (e) {
         console.error('Failed to parse stored API keys');
       }
     }
+    return {};
   };
 
   const saveApiKey = (provider: string, key: string) => {
-    const newApiKeys = { ...apiKeys, [provider]: key };
-    setApiKeys(newApiKeys);
+    const newApiKeys = { ...savedApiKeys, [provider]: key };
+    setSavedApiKeys(newApiKeys);
     localStorage.setItem('llm-api-keys', JSON.stringify(newApiKeys));
     
     toast.success(`${provider.charAt(0).toUpperCase() + provider.slice(1)} API key has been configured.`);
+    // The new key may make the provider available
+    refreshProviders(newApiKeys);
   };
 
   const toggleKeyVisibility = (provider: string) => {
     setShowKeys(prev => ({ ...prev, [provider]: !prev[provider] }));
   };
 
-  const fetchProviders = async () => {
+  const fetchProviders = async (keys: Record<string, string>) => {
     try {
       setLoading(true);
-      const response = await fetch('/api/llm/providers?includeUnavailable=true');
+      const response = await fetch('/api/llm/providers?includeUnavailable=true', {
+        headers: apiKeyHeaders(keys),
+      });
       const data = await response.json();
       setProviders(data.providers);
       
@@ -92,16 +228,58 @@ export default function MultiProviderChat() {
     }
   };
 
+  // Re-probes provider health and rediscovers model lists, bypassing the server caches
+  const refreshProviders = async (keys: Record<string, string> = savedApiKeys) => {
+    try {
+      setRefreshingProviders(true);
+      const response = await fetch('/api/llm/providers?includeUnavailable=true&refresh=true', {
+        headers: apiKeyHeaders(keys),
+      });
+      const data = await response.json();
+      setProviders(data.providers);
+
+      // Keep the current selection if the provider still serves the model
+      const current = data.providers.find((p: Provider) => p.provider === selectedProvider);
+      if (current && !current.config.models.includes(selectedModel)) {
+        setSelectedModel(current.config.defaultModel);
+      }
+    } catch (err) {
+      toast.error('Failed to refresh providers');
+    } finally {
+      setRefreshingProviders(false);
+    }
+  };
+
   const handleProviderChange = (provider: string) => {
     setSelectedProvider(provider);
+    if (provider === AUTO_PROVIDER) {
+      setSelectedModel("");
+      return;
+    }
     const providerConfig = providers.find(p => p.provider === provider)?.config;
     if (providerConfig) {
       setSelectedModel(providerConfig.defaultModel);
     }
   };
 
+  // The chat is not stored, so it is sent along to be exported
+  const getConversation = () => ({
+    messages: messages
+      .filter(message => message.role === 'user' || message.role === 'assistant')
+      .map(message => {
+        const responder = respondedBy[message.id];
+        return {
+          role: message.role as 'user' | 'assistant',
+          content: message.content,
+          ...(responder?.model && { provider: responder.provider, model: responder.model }),
+        };
+      }),
+  });
+
   const clearMessages = () => {
     setMessages([]);
+    setRespondedBy({});
+    setRoutingReasons({});
   };
 
   if (loading) {
@@ -152,6 +330,12 @@ export default function MultiProviderChat() {
                     <SelectValue placeholder="Select a provider" />
                   </SelectTrigger>
                   <SelectContent>
+                    <SelectItem value={AUTO_PROVIDER}>
+                      <div className="flex items-center justify-between w-full">
+                        <span>Auto</span>
+                        <Shuffle className="h-4 w-4 text-muted-foreground ml-2" />
+                      </div>
+                    </SelectItem>
                     {providers.map((provider) => (
                       <SelectItem 
                         key={provider.provider} 
@@ -172,9 +356,23 @@ export default function MultiProviderChat() {
                 </Select>
               </div>
 
-              {selectedProvider && (
+              {selectedProvider === AUTO_PROVIDER && (
+                <p className="text-xs text-muted-foreground">
+                  Each message is routed to a model by prompt complexity, provider health and cost.
+                  Hover a reply to see why its model was chosen.
+                </p>
+              )}
+
+              {selectedProvider && selectedProvider !== AUTO_PROVIDER && (
                 <div>
-                  <Label htmlFor="model">Model</Label>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="model">Model</Label>
+                    <span className="text-xs text-muted-foreground">
+                      {providers.find(p => p.provider === selectedProvider)?.config.modelsSource === 'live'
+                        ? 'Discovered from provider'
+                        : 'Offline model list'}
+                    </span>
+                  </div>
                   <Select value={selectedModel} onValueChange={setSelectedModel}>
                     <SelectTrigger>
                       <SelectValue placeholder="Select a model" />
@@ -189,6 +387,11 @@ export default function MultiProviderChat() {
                         ))}
                     </SelectContent>
                   </Select>
+                  <ModelCapabilityBadges
+                    capabilities={providers
+                      .find(p => p.provider === selectedProvider)
+                      ?.config.modelCapabilities[selectedModel]}
+                  />
                 </div>
               )}
 
@@ -205,33 +408,74 @@ export default function MultiProviderChat() {
                 />
               </div>
 
-              <Button 
-                onClick={clearMessages} 
-                variant="outline" 
-                className="w-full"
-                disabled={messages.length === 0}
-              >
-                Clear Chat
-              </Button>
+              <div className="flex gap-2">
+                <Button 
+                  onClick={clearMessages} 
+                  variant="outline" 
+                  className="flex-1"
+                  disabled={messages.length === 0}
+                >
+                  Clear Chat
+                </Button>
+                <ExportConversationButton
+                  getConversation={getConversation}
+                  disabled={messages.length === 0 || isLoading}
+                />
+              </div>
             </CardContent>
           </Card>
 
           {/* Provider Status */}
           <Card className="mt-6">
             <CardHeader>
-              <CardTitle>Provider Status</CardTitle>
+              <CardTitle className="flex items-center justify-between">
+                Provider Status
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => refreshProviders()}
+                  disabled={refreshingProviders}
+                >
+                  <RefreshCw className={`h-4 w-4 mr-1 ${refreshingProviders ? 'animate-spin' : ''}`} />
+                  Refresh
+                </Button>
+              </CardTitle>
             </CardHeader>
             <CardContent>
               <div className="space-y-2">
                 {providers.map((provider) => (
-                  <div key={provider.provider} className="flex items-center justify-between">
-                    <span className="capitalize font-medium">{provider.provider}</span>
-                    <Badge 
-                      variant={provider.available ? "default" : "secondary"}
-                      className={provider.available ? "bg-green-500" : ""}
-                    >
-                      {provider.available ? "Available" : "Not Configured"}
-                    </Badge>
+                  <div key={provider.provider} title={provider.health.lastError}>
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">
+                        <span className="capitalize">{provider.provider}</span>
+                        {provider.config.custom && (
+                          <Badge variant="outline" className="ml-2" title={provider.config.baseURL}>
+                            Custom
+                          </Badge>
+                        )}
+                      </span>
+                      <Badge 
+                        variant={provider.available ? "default" : "secondary"}
+                        className={provider.available ? "bg-green-500" : ""}
+                      >
+                        {provider.health.status === 'healthy' && "Available"}
+                        {provider.health.status === 'unhealthy' && "Unreachable"}
+                        {provider.health.status === 'unconfigured' && "Not Configured"}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {provider.health.latencyMs !== undefined && `${provider.health.latencyMs} ms · `}
+                      checked {new Date(provider.health.lastChecked).toLocaleTimeString()}
+                    </p>
+                    {provider.rateLimit.requestsPerMinute !== undefined || provider.rateLimit.maxConcurrency !== undefined ? (
+                      <p className="text-xs text-muted-foreground">
+                        {provider.rateLimit.requestsPerMinute !== undefined && `${provider.rateLimit.requestsPerMinute}/min · `}
+                        {provider.rateLimit.active}
+                        {provider.rateLimit.maxConcurrency !== undefined && `/${provider.rateLimit.maxConcurrency}`} active
+                        {' · '}{provider.rateLimit.queueDepth} queued
+                        {provider.rateLimit.averageWaitMs > 0 && ` · avg wait ${provider.rateLimit.averageWaitMs} ms`}
+                      </p>
+                    ) : null}
                   </div>
                 ))}
               </div>
@@ -304,7 +548,8 @@ export default function MultiProviderChat() {
                   <div className="flex items-center">
                     <AlertCircle className="h-5 w-5 text-amber-500 mr-2" />
                     <span className="text-sm text-amber-700">
-                      API keys are stored locally in your browser and are not sent to our servers.
+                      API keys are stored locally in your browser. They are sent only with your own
+                      requests and are never stored or logged by the server.
                     </span>
                   </div>
                 </div>
@@ -343,13 +588,14 @@ export default function MultiProviderChat() {
                       }`}
                     >
                       <div className="flex items-start space-x-2">
-                        <Badge variant="outline" className="text-xs">
-                          {message.role === 'user' ? 'You' : selectedProvider || 'AI'}
+                        <Badge variant="outline" className="text-xs" title={routingReasons[message.id]}>
+                          {message.role === 'user' ? 'You' : formatResponder(respondedBy[message.id]) || selectedProvider || 'AI'}
                         </Badge>
                       </div>
                       <div className="mt-2 whitespace-pre-wrap">
                         {message.content}
                       </div>
+                      <MessageUsageLine annotations={message.annotations} />
                     </div>
                   ))
                 )}
@@ -386,6 +632,9 @@ export default function MultiProviderChat() {
           </Card>
         </div>
       </div>
+
+      {/* Side-by-side comparison */}
+      <ModelComparison providers={providers} headers={apiKeyHeaders(savedApiKeys)} />
     </div>
   );
 }
\ No newline at end of file
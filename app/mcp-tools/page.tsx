@@ -61,8 +61,12 @@ export default function MCPToolsPage() {
         }),
       });
 
-      const result = await response.json();
-      
+      const json = await response.json();
+      // Failed calls answer with the API error envelope
+      const result = response.ok
+        ? json
+        : { tool: selectedTool.name, parameters, error: json.error, timestamp: new Date().toISOString() };
+
       setResults(prev => [result, ...prev]);
       
       if (result.error) {
@@ -46,11 +46,13 @@ export default function NextJSDevPage() {
   return (
     <ChatWindow
       endpoint="/api/chat/nextjs-dev"
+      persona="nextjs-developer"
       emptyStateComponent={<InfoCard />}
       placeholder="Ask for Next.js development help..."
       emoji="⚛️"
       showIngestForm={false}
       showIntermediateStepsToggle={false}
+      acceptImages={true}
     />
   );
 }
\ No newline at end of file
@@ -39,11 +39,13 @@ export default function ProjectPlanningPage() {
   return (
     <ChatWindow
       endpoint="/api/chat/project-planning"
+      persona="project-planner"
       emptyStateComponent={<InfoCard />}
       placeholder="Describe your project and get a comprehensive plan..."
       emoji="🎯"
       showIngestForm={false}
       showIntermediateStepsToggle={false}
+      acceptImages={true}
     />
   );
 }
\ No newline at end of file
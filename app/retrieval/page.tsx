@@ -85,6 +85,7 @@ export default function AgentsPage() {
   return (
     <ChatWindow
       endpoint="api/chat/retrieval"
+      persona="dana"
       emptyStateComponent={InfoCard}
       showIngestForm={true}
       placeholder={
@@ -74,6 +74,7 @@ export default function AgentsPage() {
   return (
     <ChatWindow
       endpoint="api/chat/retrieval_agents"
+      persona="robbie"
       emptyStateComponent={InfoCard}
       showIngestForm={true}
       showIntermediateStepsToggle={true}
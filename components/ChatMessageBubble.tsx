@@ -1,54 +1,90 @@
 import { cn } from "@/utils/cn";
 import type { Message } from "ai/react";
+import type { ReactNode } from "react";
+import { ImageAttachmentPreviews } from "./ImageAttachments";
 
 export function ChatMessageBubble(props: {
   message: Message;
   aiEmoji?: string;
-  sources: any[];
+  sources?: any[];
+  /** Notes about the message, e.g. what guardrails redacted */
+  notices?: string[];
+  /** Shown under the message, e.g. edit or regenerate buttons */
+  actions?: ReactNode;
 }) {
   return (
     <div
       className={cn(
-        `rounded-[24px] max-w-[80%] mb-8 flex`,
-        props.message.role === "user"
-          ? "bg-secondary text-secondary-foreground px-4 py-2"
-          : null,
-        props.message.role === "user" ? "ml-auto" : "mr-auto",
+        "max-w-[80%] mb-8 flex flex-col",
+        props.message.role === "user" ? "ml-auto items-end" : "mr-auto",
       )}
     >
-      {props.message.role !== "user" && (
-        <div className="mr-4 border bg-secondary -mt-2 rounded-full w-10 h-10 flex-shrink-0 flex items-center justify-center">
-          {props.aiEmoji}
-        </div>
-      )}
+      <div
+        className={cn(
+          `rounded-[24px] flex`,
+          props.message.role === "user"
+            ? "bg-secondary text-secondary-foreground px-4 py-2"
+            : null,
+        )}
+      >
+        {props.message.role !== "user" && (
+          <div className="mr-4 border bg-secondary -mt-2 rounded-full w-10 h-10 flex-shrink-0 flex items-center justify-center">
+            {props.aiEmoji}
+          </div>
+        )}
+
+        <div className="whitespace-pre-wrap flex flex-col">
+          {props.message.experimental_attachments && (
+            <ImageAttachmentPreviews
+              attachments={props.message.experimental_attachments}
+              className="my-2"
+            />
+          )}
+          <span>{props.message.content}</span>
 
-      <div className="whitespace-pre-wrap flex flex-col">
-        <span>{props.message.content}</span>
+          {props.sources && props.sources.length ? (
+            <>
+              <code className="mt-4 mr-auto bg-primary px-2 py-1 rounded">
+                <h2>🔍 Sources:</h2>
+              </code>
+              <code className="mt-1 mr-2 bg-primary px-2 py-1 rounded text-xs">
+                {props.sources?.map((source, i) => (
+                  <div className="mt-2" key={"source:" + i}>
+                    {i + 1}. &quot;{source.pageContent}&quot;
+                    {source.metadata?.loc?.lines !== undefined ? (
+                      <div>
+                        <br />
+                        Lines {source.metadata?.loc?.lines?.from} to{" "}
+                        {source.metadata?.loc?.lines?.to}
+                      </div>
+                    ) : (
+                      ""
+                    )}
+                  </div>
+                ))}
+              </code>
+            </>
+          ) : null}
 
-        {props.sources && props.sources.length ? (
-          <>
-            <code className="mt-4 mr-auto bg-primary px-2 py-1 rounded">
-              <h2>🔍 Sources:</h2>
-            </code>
-            <code className="mt-1 mr-2 bg-primary px-2 py-1 rounded text-xs">
-              {props.sources?.map((source, i) => (
-                <div className="mt-2" key={"source:" + i}>
-                  {i + 1}. &quot;{source.pageContent}&quot;
-                  {source.metadata?.loc?.lines !== undefined ? (
-                    <div>
-                      <br />
-                      Lines {source.metadata?.loc?.lines?.from} to{" "}
-                      {source.metadata?.loc?.lines?.to}
-                    </div>
-                  ) : (
-                    ""
-                  )}
-                </div>
+          {props.notices && props.notices.length > 0 && (
+            <ul className="mt-2 text-xs text-muted-foreground">
+              {props.notices.map((notice) => (
+                <li key={notice}>🛡️ {notice}</li>
               ))}
-            </code>
-          </>
-        ) : null}
+            </ul>
+          )}
+        </div>
       </div>
+      {props.actions && (
+        <div
+          className={cn(
+            "mt-2 flex items-center gap-3",
+            props.message.role !== "user" && "ml-14",
+          )}
+        >
+          {props.actions}
+        </div>
+      )}
     </div>
   );
 }
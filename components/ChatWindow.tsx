@@ -1,17 +1,36 @@
 "use client";
 
-import { type Message } from "ai";
+import type { Attachment, JSONValue, Message, ToolInvocation } from "ai";
 import { useChat } from "ai/react";
-import { useState, lazy, Suspense } from "react";
+import { useEffect, useRef, useState, lazy, Suspense } from "react";
 import type { FormEvent, ReactNode } from "react";
+import { useQueryState } from "nuqs";
 import { toast } from "sonner";
 import { StickToBottom, useStickToBottomContext } from "use-stick-to-bottom";
 
 import { ChatMessageBubble } from "@/components/ChatMessageBubble";
+import { ConversationSidebar } from "./ConversationSidebar";
+import { ExportConversationButton } from "./ExportConversationButton";
+import {
+  AttachImagesButton,
+  ImageAttachmentPreviews,
+} from "./ImageAttachments";
 import { IntermediateStep } from "./IntermediateStep";
+import {
+  BranchPicker,
+  RegenerateButton,
+  type ModelChoice,
+} from "./MessageActions";
 import { Button } from "./ui/button";
 import { ArrowDown, LoaderCircle, Paperclip } from "lucide-react";
 import { Checkbox } from "./ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
 import { cn } from "@/utils/cn";
 
 // Lazy load heavy components
@@ -41,34 +60,361 @@ const UploadFormLoader = () => (
   </div>
 );
 
+/**
+ * Sources sent with an answer, a message annotation in the data stream
+ */
+function getSources(message: Message): any[] | undefined {
+  const annotation = message.annotations?.find(
+    (annotation) =>
+      !!annotation && typeof annotation === "object" && "sources" in annotation,
+  ) as { sources: any[] } | undefined;
+  return annotation?.sources;
+}
+
+interface GuardrailDecision {
+  stage: "input" | "context" | "output";
+  action: "block" | "redact" | "annotate";
+  reason: string;
+}
+
+const GUARDRAIL_ACTIONS = {
+  block: "Withheld",
+  redact: "Redacted",
+  annotate: "Flagged",
+};
+
+const GUARDRAIL_STAGES = {
+  input: "your message",
+  context: "retrieved context",
+  output: "the answer",
+};
+
+/**
+ * What the guardrails did to a turn, from the `guardrail` annotations of
+ * its answer, e.g. "Redacted email address in your message"
+ */
+function getGuardrailNotices(message: Message): string[] {
+  const notices = (message.annotations ?? [])
+    .filter(
+      (annotation) =>
+        !!annotation &&
+        typeof annotation === "object" &&
+        "guardrail" in annotation,
+    )
+    .map((annotation) => {
+      const { stage, action, reason } = (
+        annotation as unknown as { guardrail: GuardrailDecision }
+      ).guardrail;
+      return `${GUARDRAIL_ACTIONS[action]} ${reason} in ${GUARDRAIL_STAGES[stage]}`;
+    });
+  return Array.from(new Set(notices));
+}
+
+/**
+ * The message of a failed chat request. useChat reports the response body,
+ * which is the API error envelope.
+ */
+function getErrorMessage(error: Error): string {
+  try {
+    return JSON.parse(error.message).error ?? error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+function EditMessage(props: {
+  message: Message;
+  onEdit: (content: string) => void;
+  onCancel: () => void;
+}) {
+  const [value, setValue] = useState(props.message.content);
+
+  return (
+    <ChatInput
+      className="mb-8"
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onSubmit={(e) => {
+        e.preventDefault();
+        props.onEdit(value);
+      }}
+      attachments={
+        props.message.experimental_attachments && (
+          <ImageAttachmentPreviews
+            attachments={props.message.experimental_attachments}
+          />
+        )
+      }
+      actions={
+        <Button variant="outline" type="button" onClick={props.onCancel}>
+          Cancel
+        </Button>
+      }
+    />
+  );
+}
+
+/**
+ * What a message can do once it is stored: the other versions it has, and
+ * editing (user messages) or regenerating (replies) into a new version
+ */
+interface MessageBranching {
+  index: number;
+  count: number;
+  onSelect: (index: number) => void;
+  onEdit: (content: string) => void;
+  onRegenerate: (choice?: ModelChoice) => void;
+}
+
+function ChatMessage(props: {
+  message: Message;
+  showIntermediateSteps: boolean;
+  aiEmoji?: string;
+  branching?: MessageBranching;
+  disabled?: boolean;
+}) {
+  const { message, branching } = props;
+  const [isEditing, setIsEditing] = useState(false);
+
+  if (isEditing && branching) {
+    return (
+      <EditMessage
+        message={message}
+        onCancel={() => setIsEditing(false)}
+        onEdit={(content) => {
+          setIsEditing(false);
+          branching.onEdit(content);
+        }}
+      />
+    );
+  }
+
+  const actions = branching && (
+    <>
+      {branching.count > 1 && (
+        <BranchPicker
+          index={branching.index}
+          count={branching.count}
+          onSelect={branching.onSelect}
+          disabled={props.disabled}
+        />
+      )}
+      {message.role === "user" ? (
+        <button
+          type="button"
+          className="text-sm text-muted-foreground"
+          disabled={props.disabled}
+          onClick={() => setIsEditing(true)}
+        >
+          Edit
+        </button>
+      ) : (
+        <RegenerateButton
+          onRegenerate={branching.onRegenerate}
+          disabled={props.disabled}
+        />
+      )}
+    </>
+  );
+
+  return (
+    <>
+      {props.showIntermediateSteps &&
+        message.toolInvocations?.map((invocation) => (
+          <IntermediateStep
+            key={invocation.toolCallId}
+            invocation={invocation}
+          />
+        ))}
+      {message.role !== "assistant" || message.content ? (
+        <ChatMessageBubble
+          message={message}
+          aiEmoji={props.aiEmoji}
+          sources={getSources(message)}
+          notices={getGuardrailNotices(message)}
+          actions={actions}
+        />
+      ) : (
+        actions && (
+          <div className="mb-8 ml-14 flex items-center gap-3">{actions}</div>
+        )
+      )}
+    </>
+  );
+}
+
 function ChatMessages(props: {
   messages: Message[];
   emptyStateComponent: ReactNode;
-  sourcesForMessages: Record<string, any>;
+  showIntermediateSteps: boolean;
   aiEmoji?: string;
+  getBranching: (index: number) => MessageBranching | undefined;
+  disabled?: boolean;
   className?: string;
 }) {
   return (
     <div className="flex flex-col max-w-[768px] mx-auto pb-12 w-full">
-      {props.messages.map((m, i) => {
-        if (m.role === "system") {
-          return <IntermediateStep key={m.id} message={m} />;
-        }
-
-        const sourceKey = (props.messages.length - 1 - i).toString();
-        return (
-          <ChatMessageBubble
-            key={m.id}
-            message={m}
-            aiEmoji={props.aiEmoji}
-            sources={props.sourcesForMessages[sourceKey]}
-          />
-        );
-      })}
+      {props.messages.map((m, i) => (
+        <ChatMessage
+          key={m.id}
+          message={m}
+          aiEmoji={props.aiEmoji}
+          showIntermediateSteps={props.showIntermediateSteps}
+          branching={props.getBranching(i)}
+          disabled={props.disabled}
+        />
+      ))}
     </div>
   );
 }
 
+interface StoredMessage {
+  id: string;
+  parentId: string | null;
+  role: "user" | "assistant";
+  content: string;
+  sources?: any[];
+  intermediateSteps?: {
+    action: { name: string; args: Record<string, unknown>; id?: string };
+    observation: string;
+  }[];
+}
+
+interface StoredConversation {
+  id: string;
+  persona?: string;
+  messages: StoredMessage[];
+}
+
+/**
+ * The branch through a stored message: its ancestors, the message, and its
+ * most recent descendants down to a leaf
+ */
+function getBranchThrough(
+  messages: StoredMessage[],
+  id: string | undefined,
+): StoredMessage[] {
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const branch: StoredMessage[] = [];
+  for (
+    let message = id ? byId.get(id) : undefined;
+    message && branch.length < messages.length;
+    message = message.parentId ? byId.get(message.parentId) : undefined
+  ) {
+    branch.unshift(message);
+  }
+  for (
+    let child = messages.findLast(
+      (message) => message.parentId === branch[branch.length - 1]?.id,
+    );
+    child && branch.length < messages.length;
+    child = messages.findLast((message) => message.parentId === child?.id)
+  ) {
+    branch.push(child);
+  }
+  return branch;
+}
+
+/**
+ * Chat messages for stored messages, with intermediate steps and sources in
+ * the shape the data stream delivers them
+ */
+function toChatMessages(messages: StoredMessage[]): Message[] {
+  return messages.map((message) => {
+    const id = message.id;
+    const toolInvocations = message.intermediateSteps?.map(
+      (step, i): ToolInvocation => ({
+        state: "result",
+        toolCallId: step.action.id ?? `${id}-step-${i}`,
+        toolName: step.action.name,
+        args: step.action.args,
+        result: step.observation,
+      }),
+    );
+    return {
+      id,
+      role: message.role,
+      content: message.content,
+      ...(toolInvocations?.length && { toolInvocations }),
+      ...(message.sources?.length && {
+        annotations: [{ sources: message.sources as JSONValue }],
+      }),
+    };
+  });
+}
+
+/**
+ * A message as the chat routes read it: attached images become image parts
+ * next to the text
+ */
+function toRequestMessage(message: Message) {
+  const images = (message.experimental_attachments ?? []).filter((attachment) =>
+    attachment.contentType?.startsWith("image/"),
+  );
+  if (images.length === 0) {
+    return { role: message.role, content: message.content };
+  }
+  return {
+    role: message.role,
+    content: [
+      ...(message.content ? [{ type: "text", text: message.content }] : []),
+      ...images.map((image) => ({
+        type: "image_url",
+        image_url: { url: image.url },
+      })),
+    ],
+  };
+}
+
+interface PersonaOption {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+function PersonaPicker(props: {
+  value: string;
+  onChange: (persona: string) => void;
+  disabled?: boolean;
+}) {
+  const [personas, setPersonas] = useState<PersonaOption[]>([]);
+
+  useEffect(() => {
+    fetch("/api/personas")
+      .then(async (response) => {
+        const json = await response.json();
+        if (!response.ok) throw new Error(json.error);
+        setPersonas(json.personas);
+      })
+      .catch((e) =>
+        toast.error("Failed to load personas", { description: e.message }),
+      );
+  }, []);
+
+  return (
+    <Select
+      value={props.value}
+      onValueChange={props.onChange}
+      disabled={props.disabled}
+    >
+      <SelectTrigger className="h-9 w-48" aria-label="Persona">
+        <SelectValue placeholder="Persona" />
+      </SelectTrigger>
+      <SelectContent>
+        {personas.map((persona) => (
+          <SelectItem
+            key={persona.id}
+            value={persona.id}
+            title={persona.description}
+          >
+            {persona.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
 export function ChatInput(props: {
   onSubmit: (e: FormEvent<HTMLFormElement>) => void;
   onStop?: () => void;
@@ -79,6 +425,8 @@ export function ChatInput(props: {
   children?: ReactNode;
   className?: string;
   actions?: ReactNode;
+  /** Shown above the input, e.g. attached images */
+  attachments?: ReactNode;
 }) {
   const disabled = props.loading && props.onStop == null;
   return (
@@ -96,6 +444,9 @@ export function ChatInput(props: {
       className={cn("flex w-full flex-col", props.className)}
     >
       <div className="border border-input bg-secondary rounded-lg flex flex-col gap-2 max-w-[768px] w-full mx-auto">
+        {props.attachments && (
+          <div className="px-4 pt-4">{props.attachments}</div>
+        )}
         <input
           value={props.value}
           placeholder={props.placeholder}
@@ -109,7 +460,12 @@ export function ChatInput(props: {
           <div className="flex gap-2 self-end">
             {props.actions}
             <Button type="submit" className="self-end" disabled={disabled}>
-              {props.loading ? (
+              {props.loading && props.onStop ? (
+                <span role="status" className="flex items-center gap-2">
+                  <LoaderCircle className="animate-spin" />
+                  <span>Stop</span>
+                </span>
+              ) : props.loading ? (
                 <span role="status" className="flex justify-center">
                   <LoaderCircle className="animate-spin" />
                   <span className="sr-only">Loading...</span>
@@ -190,187 +546,319 @@ export function ChatWindow(props: {
   emoji?: string;
   showIngestForm?: boolean;
   showIntermediateStepsToggle?: boolean;
+  /** Persona the endpoint uses by default; shows a persona picker when set */
+  persona?: string;
+  /** Lets messages carry images, for vision models */
+  acceptImages?: boolean;
 }) {
+  const endpoint = `/${props.endpoint.replace(/^\/+/, "")}`;
+  const [persona, setPersona] = useState(props.persona);
+  // The open conversation is kept in the URL, so a reload reopens it
+  const [conversationId, setConversationId] = useQueryState("conversation");
+  const loadedConversationRef = useRef<string | null>(null);
+  const [conversationsVersion, setConversationsVersion] = useState(0);
   const [showIntermediateSteps, setShowIntermediateSteps] = useState(
     !!props.showIntermediateStepsToggle,
   );
-  const [intermediateStepsLoading, setIntermediateStepsLoading] =
-    useState(false);
-
-  const [sourcesForMessages, setSourcesForMessages] = useState<
-    Record<string, any>
-  >({});
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  // Every stored message of the open conversation, across all branches
+  const [storedMessages, setStoredMessages] = useState<StoredMessage[]>([]);
 
+  // Sources and tool calls arrive as typed events while the answer streams
   const chat = useChat({
     api: props.endpoint,
-    onResponse(response) {
-      const sourcesHeader = response.headers.get("x-sources");
-      const sources = sourcesHeader
-        ? JSON.parse(Buffer.from(sourcesHeader, "base64").toString("utf8"))
-        : [];
-
-      const messageIndexHeader = response.headers.get("x-message-index");
-      if (sources.length && messageIndexHeader !== null) {
-        setSourcesForMessages({
-          ...sourcesForMessages,
-          [messageIndexHeader]: sources,
-        });
-      }
+    experimental_prepareRequestBody: ({ messages, requestBody }) => ({
+      messages: messages.map(toRequestMessage),
+      streamProtocol: "data",
+      ...(persona && { persona }),
+      ...requestBody,
+    }),
+    streamProtocol: "data",
+    onFinish: () => {
+      setConversationsVersion((version) => version + 1);
+      syncWithStore();
     },
-    streamMode: "text",
     onError: (e) =>
       toast.error(`Error while processing your request`, {
-        description: e.message,
+        description: getErrorMessage(e),
       }),
   });
 
-  async function sendMessage(e: FormEvent<HTMLFormElement>) {
-    e.preventDefault();
-    if (chat.isLoading || intermediateStepsLoading) return;
-
-    if (!showIntermediateSteps) {
-      chat.handleSubmit(e);
+  const { setMessages } = chat;
+
+  /**
+   * After a turn, give the streamed messages the ids the store assigned, so
+   * they can be edited, regenerated and navigated like loaded ones
+   */
+  function syncWithStore() {
+    const id = loadedConversationRef.current;
+    if (!id) return;
+
+    fetch(`/api/conversations/${id}`)
+      .then(async (response) => {
+        const json = await response.json();
+        if (!response.ok) throw new Error(json.error);
+        if (loadedConversationRef.current !== id) return;
+
+        const stored: StoredMessage[] = json.conversation.messages;
+        const branch = getBranchThrough(stored, stored[stored.length - 1]?.id);
+        setStoredMessages(stored);
+        setMessages((current) =>
+          current.length === branch.length
+            ? current.map((message, i) => ({ ...message, id: branch[i].id }))
+            : toChatMessages(branch),
+        );
+      })
+      .catch((e) =>
+        toast.error("Failed to load conversation", { description: e.message }),
+      );
+  }
+  useEffect(() => {
+    if (!conversationId || conversationId === loadedConversationRef.current) {
       return;
     }
+    loadedConversationRef.current = conversationId;
+
+    fetch(`/api/conversations/${conversationId}`)
+      .then(async (response) => {
+        const json = await response.json();
+        if (!response.ok) throw new Error(json.error);
+        const stored: StoredMessage[] = json.conversation.messages;
+        setStoredMessages(stored);
+        setMessages(
+          toChatMessages(
+            getBranchThrough(stored, stored[stored.length - 1]?.id),
+          ),
+        );
+        if (props.persona && json.conversation.persona) {
+          setPersona(json.conversation.persona);
+        }
+      })
+      .catch((e) => {
+        toast.error("Failed to load conversation", { description: e.message });
+        loadedConversationRef.current = null;
+        setConversationId(null);
+      });
+  }, [conversationId, setConversationId, setMessages, props.persona]);
+
+  function startNewConversation() {
+    loadedConversationRef.current = null;
+    setConversationId(null);
+    chat.setMessages([]);
+    setStoredMessages([]);
+    setAttachments([]);
+  }
 
-    // Some extra work to show intermediate steps properly
-    setIntermediateStepsLoading(true);
+  /**
+   * The open conversation, or a new one that the first message creates
+   */
+  function ensureConversationId() {
+    if (conversationId) return conversationId;
+    const id = crypto.randomUUID();
+    loadedConversationRef.current = id;
+    setConversationId(id);
+    return id;
+  }
 
-    chat.setInput("");
-    const messagesWithUserReply = chat.messages.concat({
-      id: chat.messages.length.toString(),
-      content: chat.input,
-      role: "user",
-    });
-    chat.setMessages(messagesWithUserReply);
+  function sendMessage(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    if (chat.isLoading) return;
 
-    const response = await fetch(props.endpoint, {
-      method: "POST",
-      body: JSON.stringify({
-        messages: messagesWithUserReply,
-        show_intermediate_steps: true,
-      }),
-    });
-    const json = await response.json();
-    setIntermediateStepsLoading(false);
+    if (!chat.input && attachments.length === 0) return;
 
-    if (!response.ok) {
-      toast.error(`Error while processing your request`, {
-        description: json.error,
-      });
-      return;
-    }
-
-    const responseMessages: Message[] = json.messages;
+    // Continue the branch on screen, which need not end in the latest message
+    const lastMessage = chat.messages[chat.messages.length - 1];
+    const isStored = storedMessages.some(
+      (message) => message.id === lastMessage?.id,
+    );
+    chat.handleSubmit(e, {
+      body: {
+        conversationId: ensureConversationId(),
+        ...(isStored && { parentMessageId: lastMessage.id }),
+      },
+      experimental_attachments: attachments,
+      allowEmptySubmit: attachments.length > 0,
+    });
+    setAttachments([]);
+  }
 
-    // Represent intermediate steps as system messages for display purposes
-    // TODO: Add proper support for tool messages
-    const toolCallMessages = responseMessages.filter(
-      (responseMessage: Message) => {
-        return (
-          (responseMessage.role === "assistant" &&
-            !!responseMessage.tool_calls?.length) ||
-          responseMessage.role === "tool"
+  /**
+   * Versions of the message at `index` on screen, once it is stored: edits
+   * of a user message, or replies to the same user message
+   */
+  function getBranching(index: number): MessageBranching | undefined {
+    const message = chat.messages[index];
+    const stored = storedMessages.find(({ id }) => id === message.id);
+    if (!stored || !conversationId) return undefined;
+
+    const siblings = storedMessages.filter(
+      ({ parentId }) => parentId === stored.parentId,
+    );
+    const previous = chat.messages.slice(0, index);
+
+    return {
+      index: siblings.indexOf(stored),
+      count: siblings.length,
+      onSelect: (sibling) =>
+        setMessages([
+          ...previous,
+          ...toChatMessages(
+            getBranchThrough(storedMessages, siblings[sibling].id).slice(index),
+          ),
+        ]),
+      onEdit: (content) => {
+        setMessages(previous);
+        chat.append(
+          {
+            role: "user",
+            content,
+            experimental_attachments: message.experimental_attachments,
+          },
+          {
+            body: { conversationId, parentMessageId: stored.parentId },
+          },
         );
       },
-    );
-
-    const intermediateStepMessages = [];
-    for (let i = 0; i < toolCallMessages.length; i += 2) {
-      const aiMessage = toolCallMessages[i];
-      const toolMessage = toolCallMessages[i + 1];
-      intermediateStepMessages.push({
-        id: (messagesWithUserReply.length + i / 2).toString(),
-        role: "system" as const,
-        content: JSON.stringify({
-          action: aiMessage.tool_calls?.[0],
-          observation: toolMessage.content,
-        }),
-      });
-    }
-    const newMessages = messagesWithUserReply;
-    for (const message of intermediateStepMessages) {
-      newMessages.push(message);
-      chat.setMessages([...newMessages]);
-      await new Promise((resolve) =>
-        setTimeout(resolve, 1000 + Math.random() * 1000),
-      );
-    }
-
-    chat.setMessages([
-      ...newMessages,
-      {
-        id: newMessages.length.toString(),
-        content: responseMessages[responseMessages.length - 1].content,
-        role: "assistant",
+      onRegenerate: (choice) => {
+        setMessages(previous);
+        chat.reload({
+          body: {
+            conversationId,
+            replyToMessageId: stored.parentId,
+            ...choice,
+          },
+        });
       },
-    ]);
+    };
   }
 
   return (
-    <ChatLayout
-      content={
-        chat.messages.length === 0 ? (
-          <div>{props.emptyStateComponent}</div>
-        ) : (
-          <ChatMessages
-            aiEmoji={props.emoji}
-            messages={chat.messages}
-            emptyStateComponent={props.emptyStateComponent}
-            sourcesForMessages={sourcesForMessages}
-          />
-        )
-      }
-      footer={
-        <ChatInput
-          value={chat.input}
-          onChange={chat.handleInputChange}
-          onSubmit={sendMessage}
-          loading={chat.isLoading || intermediateStepsLoading}
-          placeholder={props.placeholder ?? "What's it like to be a pirate?"}
-        >
-          {props.showIngestForm && (
-            <Dialog>
-              <DialogTrigger asChild>
-                <Button
-                  variant="ghost"
-                  className="pl-2 pr-3 -ml-2"
-                  disabled={chat.messages.length !== 0}
-                >
-                  <Paperclip className="size-4" />
-                  <span>Upload document</span>
-                </Button>
-              </DialogTrigger>
-              <DialogContent>
-                <DialogHeader>
-                  <DialogTitle>Upload document</DialogTitle>
-                  <DialogDescription>
-                    Upload a document to use for the chat.
-                  </DialogDescription>
-                </DialogHeader>
-                <Suspense fallback={<UploadFormLoader />}>
-                  <LazyUploadDocumentsForm />
-                </Suspense>
-              </DialogContent>
-            </Dialog>
-          )}
-
-          {props.showIntermediateStepsToggle && (
-            <div className="flex items-center gap-2">
-              <Checkbox
-                id="show_intermediate_steps"
-                name="show_intermediate_steps"
-                checked={showIntermediateSteps}
-                disabled={chat.isLoading || intermediateStepsLoading}
-                onCheckedChange={(e) => setShowIntermediateSteps(!!e)}
+    <div className="absolute inset-0 flex">
+      <ConversationSidebar
+        className="hidden md:flex w-64 shrink-0 border-r border-input"
+        endpoint={endpoint}
+        activeId={conversationId}
+        version={conversationsVersion}
+        disabled={chat.isLoading}
+        onSelect={setConversationId}
+        onNew={startNewConversation}
+        onDeleted={(id) => {
+          if (id === conversationId) startNewConversation();
+        }}
+      />
+      <div className="relative flex-1">
+        <ChatLayout
+          content={
+            chat.messages.length === 0 ? (
+              <div>{props.emptyStateComponent}</div>
+            ) : (
+              <ChatMessages
+                aiEmoji={props.emoji}
+                messages={chat.messages}
+                emptyStateComponent={props.emptyStateComponent}
+                showIntermediateSteps={showIntermediateSteps}
+                getBranching={getBranching}
+                disabled={chat.isLoading}
               />
-              <label htmlFor="show_intermediate_steps" className="text-sm">
-                Show intermediate steps
-              </label>
-            </div>
-          )}
-        </ChatInput>
-      }
-    />
+            )
+          }
+          footer={
+            <ChatInput
+              value={chat.input}
+              onChange={chat.handleInputChange}
+              onSubmit={sendMessage}
+              // Aborting the request also cancels generation on the server,
+              // which keeps the part of the answer received so far
+              onStop={chat.stop}
+              loading={chat.isLoading}
+              attachments={
+                attachments.length > 0 && (
+                  <ImageAttachmentPreviews
+                    attachments={attachments}
+                    onRemove={(index) =>
+                      setAttachments((current) =>
+                        current.filter((_, i) => i !== index),
+                      )
+                    }
+                  />
+                )
+              }
+              placeholder={
+                props.placeholder ?? "What's it like to be a pirate?"
+              }
+            >
+              {props.showIngestForm && (
+                <Dialog>
+                  <DialogTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      className="pl-2 pr-3 -ml-2"
+                      disabled={chat.messages.length !== 0}
+                    >
+                      <Paperclip className="size-4" />
+                      <span>Upload document</span>
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent>
+                    <DialogHeader>
+                      <DialogTitle>Upload document</DialogTitle>
+                      <DialogDescription>
+                        Upload a document to use for the chat.
+                      </DialogDescription>
+                    </DialogHeader>
+                    <Suspense fallback={<UploadFormLoader />}>
+                      <LazyUploadDocumentsForm />
+                    </Suspense>
+                  </DialogContent>
+                </Dialog>
+              )}
+
+              {props.acceptImages && (
+                <AttachImagesButton
+                  className="pl-2 pr-3"
+                  count={attachments.length}
+                  disabled={chat.isLoading}
+                  onAttach={(added) =>
+                    setAttachments((current) => [...current, ...added])
+                  }
+                />
+              )}
+
+              <ExportConversationButton
+                className="pl-2 pr-3"
+                conversationId={conversationId}
+                disabled={
+                  !conversationId ||
+                  chat.messages.length === 0 ||
+                  chat.isLoading
+                }
+              />
+
+              {persona && (
+                <PersonaPicker
+                  value={persona}
+                  onChange={setPersona}
+                  disabled={chat.isLoading}
+                />
+              )}
+
+              {props.showIntermediateStepsToggle && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="show_intermediate_steps"
+                    name="show_intermediate_steps"
+                    checked={showIntermediateSteps}
+                    onCheckedChange={(e) => setShowIntermediateSteps(!!e)}
+                  />
+                  <label htmlFor="show_intermediate_steps" className="text-sm">
+                    Show intermediate steps
+                  </label>
+                </div>
+              )}
+            </ChatInput>
+          }
+        />
+      </div>
+    </div>
   );
 }
@@ -0,0 +1,251 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import {
+  Check,
+  MessageSquarePlus,
+  Pencil,
+  Trash2,
+  Upload,
+  X,
+} from "lucide-react";
+
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { cn } from "@/utils/cn";
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  endpoint: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+function ConversationItem(props: {
+  conversation: ConversationSummary;
+  active: boolean;
+  disabled?: boolean;
+  onSelect: () => void;
+  onRename: (title: string) => void;
+  onDelete: () => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [title, setTitle] = useState(props.conversation.title);
+
+  if (editing) {
+    return (
+      <form
+        className="flex items-center gap-1"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setEditing(false);
+          if (title.trim() && title !== props.conversation.title) {
+            props.onRename(title);
+          }
+        }}
+      >
+        <Input
+          autoFocus
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          aria-label="Conversation title"
+          className="h-8"
+        />
+        <Button type="submit" variant="ghost" size="icon" className="h-8 w-8">
+          <Check />
+          <span className="sr-only">Save title</span>
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => {
+            setTitle(props.conversation.title);
+            setEditing(false);
+          }}
+        >
+          <X />
+          <span className="sr-only">Cancel</span>
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <div
+      className={cn(
+        "group flex items-center rounded-md hover:bg-accent",
+        props.active && "bg-accent",
+      )}
+    >
+      <button
+        type="button"
+        className="flex-1 truncate px-2 py-1.5 text-left text-sm disabled:opacity-50"
+        title={props.conversation.title}
+        disabled={props.disabled}
+        onClick={props.onSelect}
+      >
+        {props.conversation.title}
+      </button>
+      <div className="hidden group-hover:flex">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => setEditing(true)}
+        >
+          <Pencil />
+          <span className="sr-only">Rename</span>
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          disabled={props.disabled}
+          onClick={props.onDelete}
+        >
+          <Trash2 />
+          <span className="sr-only">Delete</span>
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Past conversations of one chat endpoint, to reopen, rename or delete, and
+ * JSON or JSONL exports to import as new conversations
+ */
+export function ConversationSidebar(props: {
+  endpoint: string;
+  activeId: string | null;
+  /** Changes whenever a turn was recorded, to reload the list */
+  version: number;
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onDeleted: (id: string) => void;
+  className?: string;
+}) {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    fetch(`/api/conversations?endpoint=${encodeURIComponent(props.endpoint)}`)
+      .then(async (response) => {
+        const json = await response.json();
+        if (!response.ok) throw new Error(json.error);
+        setConversations(json.conversations);
+      })
+      .catch((e) =>
+        toast.error("Failed to load conversations", { description: e.message }),
+      );
+  }, [props.endpoint, props.version]);
+
+  async function renameConversation(id: string, title: string) {
+    const response = await fetch(`/api/conversations/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ title }),
+    });
+    const json = await response.json();
+    if (!response.ok) {
+      toast.error("Failed to rename conversation", { description: json.error });
+      return;
+    }
+    setConversations((current) =>
+      current.map((conversation) =>
+        conversation.id === id
+          ? { ...conversation, title: json.conversation.title }
+          : conversation,
+      ),
+    );
+  }
+
+  async function importConversation(file: File) {
+    const response = await fetch(
+      `/api/conversations/import?endpoint=${encodeURIComponent(props.endpoint)}`,
+      { method: "POST", body: await file.text() },
+    );
+    const json = await response.json();
+    if (!response.ok) {
+      toast.error("Failed to import conversation", { description: json.error });
+      return;
+    }
+    const { messages, ...conversation } = json.conversation;
+    setConversations((current) => [
+      { ...conversation, messageCount: messages.length },
+      ...current,
+    ]);
+    props.onSelect(conversation.id);
+  }
+
+  async function deleteConversation(id: string) {
+    const response = await fetch(`/api/conversations/${id}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      const json = await response.json();
+      toast.error("Failed to delete conversation", { description: json.error });
+      return;
+    }
+    setConversations((current) =>
+      current.filter((conversation) => conversation.id !== id),
+    );
+    props.onDeleted(id);
+  }
+
+  return (
+    <div className={cn("flex flex-col gap-2 p-2", props.className)}>
+      <Button
+        variant="outline"
+        className="justify-start"
+        disabled={props.disabled}
+        onClick={props.onNew}
+      >
+        <MessageSquarePlus />
+        <span>New chat</span>
+      </Button>
+      <Button
+        variant="ghost"
+        className="justify-start"
+        disabled={props.disabled}
+        onClick={() => fileInputRef.current?.click()}
+      >
+        <Upload />
+        <span>Import</span>
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,.jsonl,application/json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) importConversation(file);
+        }}
+      />
+      <div className="flex flex-col gap-0.5 overflow-y-auto">
+        {conversations.length === 0 && (
+          <p className="px-2 py-1.5 text-sm text-muted-foreground">
+            No conversations yet
+          </p>
+        )}
+        {conversations.map((conversation) => (
+          <ConversationItem
+            key={conversation.id}
+            conversation={conversation}
+            active={conversation.id === props.activeId}
+            disabled={props.disabled}
+            onSelect={() => props.onSelect(conversation.id)}
+            onRename={(title) => renameConversation(conversation.id, title)}
+            onDelete={() => deleteConversation(conversation.id)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
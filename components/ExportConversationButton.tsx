@@ -0,0 +1,96 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Download } from "lucide-react";
+
+import { Button } from "./ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+
+const FORMATS = [
+  { format: "markdown", label: "Markdown", description: "Readable transcript" },
+  { format: "json", label: "JSON", description: "Everything, re-importable" },
+  { format: "jsonl", label: "JSONL", description: "OpenAI fine-tuning format" },
+];
+
+export interface UnsavedConversation {
+  title?: string;
+  endpoint?: string;
+  messages: {
+    role: "user" | "assistant";
+    content: string;
+    provider?: string;
+    model?: string;
+  }[];
+}
+
+/**
+ * Download a conversation as Markdown, JSON or JSONL: a stored one by id, or
+ * one that only lives in the page
+ */
+export function ExportConversationButton(props: {
+  conversationId?: string | null;
+  getConversation?: () => UnsavedConversation;
+  disabled?: boolean;
+  className?: string;
+}) {
+  const [open, setOpen] = useState(false);
+
+  async function download(format: string) {
+    setOpen(false);
+    const response = props.conversationId
+      ? await fetch(
+          `/api/conversations/${props.conversationId}/export?format=${format}`,
+        )
+      : await fetch(`/api/conversations/export?format=${format}`, {
+          method: "POST",
+          body: JSON.stringify(props.getConversation?.()),
+        });
+
+    if (!response.ok) {
+      const json = await response.json();
+      toast.error("Failed to export conversation", { description: json.error });
+      return;
+    }
+
+    const fileName =
+      response.headers
+        .get("content-disposition")
+        ?.match(/filename="([^"]+)"/)?.[1] ?? `conversation.${format}`;
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="ghost"
+          className={props.className}
+          disabled={props.disabled}
+        >
+          <Download className="size-4" />
+          <span>Export</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-56 p-1">
+        {FORMATS.map(({ format, label, description }) => (
+          <button
+            key={format}
+            type="button"
+            className="flex w-full flex-col items-start rounded-md px-2 py-1.5 text-left hover:bg-accent"
+            onClick={() => download(format)}
+          >
+            <span className="text-sm font-medium">{label}</span>
+            <span className="text-xs text-muted-foreground">{description}</span>
+          </button>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
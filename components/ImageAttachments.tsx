@@ -0,0 +1,135 @@
+"use client";
+
+import { useRef } from "react";
+import Image from "next/image";
+import type { Attachment } from "ai";
+import { toast } from "sonner";
+import { ImagePlus, X } from "lucide-react";
+
+import { Button } from "./ui/button";
+import { cn } from "@/utils/cn";
+
+// The limits the chat routes enforce, see lib/message-content.ts
+const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+export const MAX_IMAGES_PER_MESSAGE = 4;
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Pick images to send with the next message, read as data URLs
+ */
+export function AttachImagesButton(props: {
+  /** Images already attached to the message */
+  count: number;
+  onAttach: (attachments: Attachment[]) => void;
+  disabled?: boolean;
+  className?: string;
+}) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  async function attach(files: File[]) {
+    const images = files.filter((file) => {
+      if (!IMAGE_TYPES.includes(file.type)) {
+        toast.error(`${file.name} is not a PNG, JPEG, GIF or WebP image`);
+        return false;
+      }
+      if (file.size > MAX_IMAGE_BYTES) {
+        toast.error(`${file.name} is larger than 5 MB`);
+        return false;
+      }
+      return true;
+    });
+    if (props.count + images.length > MAX_IMAGES_PER_MESSAGE) {
+      toast.error(
+        `A message can have at most ${MAX_IMAGES_PER_MESSAGE} images`,
+      );
+      return;
+    }
+
+    props.onAttach(
+      await Promise.all(
+        images.map(async (file) => ({
+          name: file.name,
+          contentType: file.type,
+          url: await readAsDataUrl(file),
+        })),
+      ),
+    );
+  }
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="ghost"
+        className={props.className}
+        disabled={props.disabled}
+        onClick={() => inputRef.current?.click()}
+      >
+        <ImagePlus className="size-4" />
+        <span>Attach image</span>
+      </Button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={IMAGE_TYPES.join(",")}
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          const files = Array.from(e.target.files ?? []);
+          e.target.value = "";
+          if (files.length > 0) attach(files);
+        }}
+      />
+    </>
+  );
+}
+
+/**
+ * Thumbnails of attached images, removable while the message is a draft
+ */
+export function ImageAttachmentPreviews(props: {
+  attachments: Attachment[];
+  onRemove?: (index: number) => void;
+  className?: string;
+}) {
+  const images = props.attachments.filter((attachment) =>
+    attachment.contentType?.startsWith("image/"),
+  );
+  if (images.length === 0) return null;
+
+  return (
+    <div className={cn("flex flex-wrap gap-2", props.className)}>
+      {images.map((attachment, i) => (
+        <div key={i} className="relative">
+          <Image
+            src={attachment.url}
+            alt={attachment.name ?? `Image ${i + 1}`}
+            width={64}
+            height={64}
+            unoptimized
+            className="h-16 w-16 rounded-md border border-input object-cover"
+          />
+          {props.onRemove && (
+            <button
+              type="button"
+              className="absolute -right-2 -top-2 rounded-full border border-input bg-secondary p-0.5"
+              onClick={() => props.onRemove?.(i)}
+            >
+              <X className="size-3" />
+              <span className="sr-only">Remove image</span>
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,12 +1,15 @@
 import { useState } from "react";
-import type { Message } from "ai/react";
+import type { ToolInvocation } from "ai";
 import { cn } from "@/utils/cn";
-import { ChevronDown, ChevronUp } from "lucide-react";
+import { ChevronDown, ChevronUp, LoaderCircle } from "lucide-react";
 
-export function IntermediateStep(props: { message: Message }) {
-  const parsedInput = JSON.parse(props.message.content);
-  const action = parsedInput.action;
-  const observation = parsedInput.observation;
+/**
+ * A tool call of an agent; the output follows once the tool returned
+ */
+export function IntermediateStep(props: { invocation: ToolInvocation }) {
+  const { toolName, args } = props.invocation;
+  const observation =
+    props.invocation.state === "result" ? props.invocation.result : undefined;
   const [expanded, setExpanded] = useState(false);
   return (
     <div className="mr-auto bg-secondary border border-input rounded p-3 max-w-[80%] mb-8 whitespace-pre-wrap flex flex-col">
@@ -19,8 +22,11 @@ export function IntermediateStep(props: { message: Message }) {
         onClick={(e) => setExpanded(!expanded)}
       >
         <span>
-          Step: <strong className="font-mono">{action.name}</strong>
+          Step: <strong className="font-mono">{toolName}</strong>
         </span>
+        {observation === undefined && (
+          <LoaderCircle className="w-4 h-4 animate-spin" />
+        )}
         <span className={cn(expanded && "hidden")}>
           <ChevronDown className="w-5 h-5" />
         </span>
@@ -42,7 +48,7 @@ export function IntermediateStep(props: { message: Message }) {
         >
           Input:{" "}
           <code className="max-h-[100px] overflow-auto">
-            {JSON.stringify(action.args)}
+            {JSON.stringify(args)}
           </code>
         </div>
         <div
@@ -0,0 +1,146 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { ChevronDown, ChevronLeft, ChevronRight } from "lucide-react";
+
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+
+export interface ModelChoice {
+  provider: string;
+  model: string;
+}
+
+interface ProviderOption {
+  provider: string;
+  available: boolean;
+  config: { models: string[] };
+}
+
+/**
+ * Step through the alternatives of a message: its edits, or the replies
+ * regenerated for the same question
+ */
+export function BranchPicker(props: {
+  /** Index of the shown alternative */
+  index: number;
+  count: number;
+  onSelect: (index: number) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <button
+        type="button"
+        className="flex-shrink-0 disabled:opacity-50"
+        disabled={props.disabled || props.index === 0}
+        onClick={() => props.onSelect(props.index - 1)}
+      >
+        <ChevronLeft className="w-4 h-4 text-muted-foreground" />
+        <span className="sr-only">Previous version</span>
+      </button>
+
+      <span className="text-muted-foreground">
+        {props.index + 1} / {props.count}
+      </span>
+
+      <button
+        type="button"
+        className="flex-shrink-0 disabled:opacity-50"
+        disabled={props.disabled || props.index === props.count - 1}
+        onClick={() => props.onSelect(props.index + 1)}
+      >
+        <ChevronRight className="w-4 h-4 text-muted-foreground" />
+        <span className="sr-only">Next version</span>
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Regenerate a reply with the endpoint's model, or pick another provider and
+ * model for the new version
+ */
+export function RegenerateButton(props: {
+  onRegenerate: (choice?: ModelChoice) => void;
+  disabled?: boolean;
+}) {
+  const [open, setOpen] = useState(false);
+  const [choices, setChoices] = useState<ModelChoice[] | null>(null);
+
+  function loadChoices() {
+    if (choices) return;
+    fetch("/api/llm/providers")
+      .then(async (response) => {
+        const json = await response.json();
+        if (!response.ok) throw new Error(json.error);
+        setChoices(
+          (json.providers as ProviderOption[])
+            .filter((option) => option.available)
+            .flatMap((option) =>
+              option.config.models.map((model) => ({
+                provider: option.provider,
+                model,
+              })),
+            ),
+        );
+      })
+      .catch((e) =>
+        toast.error("Failed to load models", { description: e.message }),
+      );
+  }
+
+  return (
+    <div className="flex items-center text-sm text-muted-foreground">
+      <button
+        type="button"
+        disabled={props.disabled}
+        onClick={() => props.onRegenerate()}
+      >
+        Regenerate
+      </button>
+      <Popover
+        open={open}
+        onOpenChange={(next) => {
+          setOpen(next);
+          if (next) loadChoices();
+        }}
+      >
+        <PopoverTrigger asChild>
+          <button type="button" className="ml-1" disabled={props.disabled}>
+            <ChevronDown className="w-4 h-4" />
+            <span className="sr-only">Regenerate with another model</span>
+          </button>
+        </PopoverTrigger>
+        <PopoverContent className="max-h-72 w-64 overflow-y-auto p-1">
+          {choices === null && (
+            <p className="px-2 py-1.5 text-sm text-muted-foreground">
+              Loading models...
+            </p>
+          )}
+          {choices?.length === 0 && (
+            <p className="px-2 py-1.5 text-sm text-muted-foreground">
+              No providers available
+            </p>
+          )}
+          {choices?.map((choice) => (
+            <button
+              key={`${choice.provider}:${choice.model}`}
+              type="button"
+              className="flex w-full flex-col items-start rounded-md px-2 py-1.5 text-left hover:bg-accent"
+              onClick={() => {
+                setOpen(false);
+                props.onRegenerate(choice);
+              }}
+            >
+              <span className="text-sm font-medium">{choice.model}</span>
+              <span className="text-xs text-muted-foreground">
+                {choice.provider}
+              </span>
+            </button>
+          ))}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
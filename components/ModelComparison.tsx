@@ -0,0 +1,280 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Columns, Loader2, Plus, X } from "lucide-react";
+
+const MAX_COMPARE_MODELS = 6;
+
+interface ComparisonProvider {
+  provider: string;
+  available: boolean;
+  config: {
+    models: string[];
+    defaultModel: string;
+  };
+}
+
+interface CompareTarget {
+  provider: string;
+  model: string;
+}
+
+interface ChannelUsage {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+interface ChannelResult {
+  provider: string;
+  model: string;
+  text: string;
+  status: 'streaming' | 'done' | 'error';
+  ttftMs?: number;
+  latencyMs?: number;
+  usage?: ChannelUsage;
+  error?: string;
+}
+
+function formatMs(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)} s` : `${ms} ms`;
+}
+
+function ChannelMetrics(props: { result: ChannelResult }) {
+  const { result } = props;
+  if (result.latencyMs === undefined) return null;
+
+  return (
+    <p className="mt-3 text-xs text-muted-foreground">
+      {result.ttftMs !== undefined && `TTFT ${formatMs(result.ttftMs)} · `}
+      {formatMs(result.latencyMs)} total
+      {result.usage && (
+        ` · ${result.usage.inputTokens} in / ${result.usage.outputTokens} out · $${result.usage.costUsd.toFixed(5)}`
+      )}
+    </p>
+  );
+}
+
+/**
+ * Sends one prompt to several provider/model pairs through /api/llm/compare
+ * and shows the streamed answers side by side
+ */
+export function ModelComparison(props: {
+  providers: ComparisonProvider[];
+  headers: Record<string, string>;
+}) {
+  const { providers, headers } = props;
+  const [targets, setTargets] = useState<CompareTarget[]>(() =>
+    providers
+      .filter(p => p.available)
+      .slice(0, 2)
+      .map(p => ({ provider: p.provider, model: p.config.defaultModel }))
+  );
+  const [prompt, setPrompt] = useState("");
+  const [results, setResults] = useState<ChannelResult[]>([]);
+  const [running, setRunning] = useState(false);
+
+  const modelsFor = (provider: string) =>
+    providers.find(p => p.provider === provider)?.config.models ?? [];
+
+  const updateTarget = (index: number, target: CompareTarget) => {
+    setTargets(prev => prev.map((current, i) => (i === index ? target : current)));
+  };
+
+  const addTarget = () => {
+    const provider = providers.find(p => p.available) ?? providers[0];
+    if (provider) {
+      setTargets(prev => [...prev, { provider: provider.provider, model: provider.config.defaultModel }]);
+    }
+  };
+
+  const updateChannel = (channel: number, update: (result: ChannelResult) => ChannelResult) => {
+    setResults(prev => prev.map((result, i) => (i === channel ? update(result) : result)));
+  };
+
+  const handleEvent = (event: any) => {
+    switch (event.type) {
+      case 'token':
+        updateChannel(event.channel, result => ({ ...result, text: result.text + event.text }));
+        break;
+      case 'done':
+        updateChannel(event.channel, result => ({
+          ...result,
+          status: 'done',
+          // Fallbacks are bypassed, but report what actually answered anyway
+          provider: event.provider,
+          model: event.model,
+          ttftMs: event.ttftMs,
+          latencyMs: event.latencyMs,
+          usage: event.usage,
+        }));
+        break;
+      case 'error':
+        updateChannel(event.channel, result => ({
+          ...result,
+          status: 'error',
+          error: event.message,
+          latencyMs: event.latencyMs,
+        }));
+        break;
+    }
+  };
+
+  const runComparison = async () => {
+    setRunning(true);
+    setResults(targets.map(target => ({ ...target, text: '', status: 'streaming' })));
+
+    try {
+      const response = await fetch('/api/llm/compare', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify({
+          messages: [{ role: 'user', content: prompt }],
+          models: targets,
+        }),
+      });
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error ?? `Comparison failed with status ${response.status}`);
+      }
+
+      // Newline-delimited JSON, one event per line
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        lines.filter(line => line.trim()).forEach(line => handleEvent(JSON.parse(line)));
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Comparison failed';
+      setResults(prev => prev.map(result =>
+        result.status === 'streaming' ? { ...result, status: 'error', error: message } : result
+      ));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Columns className="h-5 w-5 mr-2" />
+          Compare Models
+        </CardTitle>
+        <CardDescription>
+          Send the same prompt to several models at once and compare answers, speed and cost
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {targets.map((target, index) => (
+            <div key={index} className="flex space-x-2">
+              <Select
+                value={target.provider}
+                onValueChange={(provider) => updateTarget(index, {
+                  provider,
+                  model: providers.find(p => p.provider === provider)?.config.defaultModel ?? '',
+                })}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Provider" />
+                </SelectTrigger>
+                <SelectContent>
+                  {providers.map((provider) => (
+                    <SelectItem key={provider.provider} value={provider.provider}>
+                      <span className="capitalize">{provider.provider}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={target.model}
+                onValueChange={(model) => updateTarget(index, { ...target, model })}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Model" />
+                </SelectTrigger>
+                <SelectContent>
+                  {modelsFor(target.provider).map((model) => (
+                    <SelectItem key={model} value={model}>
+                      {model}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setTargets(prev => prev.filter((_, i) => i !== index))}
+                disabled={running}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={addTarget}
+            disabled={running || targets.length >= MAX_COMPARE_MODELS}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add model
+          </Button>
+        </div>
+
+        <div className="flex space-x-2">
+          <Textarea
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            placeholder="Prompt to send to every model..."
+            className="flex-1 min-h-[60px]"
+            disabled={running}
+          />
+          <Button
+            onClick={runComparison}
+            disabled={running || !prompt.trim() || targets.length === 0}
+            className="px-6"
+          >
+            {running ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Compare'}
+          </Button>
+        </div>
+
+        {results.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {results.map((result, channel) => (
+              <div key={channel} className="p-3 rounded-lg border bg-gray-50 flex flex-col">
+                <div className="flex items-center justify-between">
+                  <Badge variant="outline" className="text-xs">
+                    {result.provider} · {result.model}
+                  </Badge>
+                  {result.status === 'streaming' && <Loader2 className="h-4 w-4 animate-spin" />}
+                </div>
+                <div className="mt-2 flex-1 whitespace-pre-wrap text-sm">
+                  {result.text}
+                  {result.status === 'error' && (
+                    <span className="text-red-600">{result.error}</span>
+                  )}
+                </div>
+                <ChannelMetrics result={result} />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
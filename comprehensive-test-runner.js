@@ -233,9 +233,10 @@ async function testChatAPI() {
       messages: [{ role: 'user', content: 'Hello' }],
       provider: 'invalid-provider'
     });
-    expect(response.status).toBe(500);
+    expect(response.status).toBe(400);
     expect(response.data).toHaveProperty('error');
     expect(response.data.error).toContain('Unsupported provider');
+    expect(response.data.code).toBe('invalid_provider');
   });
   if (result1.success) passed++;
   results.push(result1);
@@ -248,9 +249,10 @@ async function testChatAPI() {
       provider: 'openai',
       model: 'invalid-model'
     });
-    expect(response.status).toBe(500);
+    expect(response.status).toBe(400);
     expect(response.data).toHaveProperty('error');
     expect(response.data.error).toContain('not supported by provider');
+    expect(response.data.code).toBe('invalid_provider');
   });
   if (result2.success) passed++;
   results.push(result2);
@@ -261,9 +263,10 @@ async function testChatAPI() {
     const response = await makeRequest('POST', '/api/chat', {
       messages: 'invalid-format'
     });
-    expect(response.status).toBe(500);
+    expect(response.status).toBe(400);
     expect(response.data).toHaveProperty('error');
     expect(response.data.error).toContain('Messages must be an array');
+    expect(response.data.code).toBe('invalid_request');
   });
   if (result3.success) passed++;
   results.push(result3);
@@ -274,9 +277,10 @@ async function testChatAPI() {
     const response = await makeRequest('POST', '/api/chat', {
       messages: []
     });
-    expect(response.status).toBe(500);
+    expect(response.status).toBe(400);
     expect(response.data).toHaveProperty('error');
     expect(response.data.error).toContain('Messages array cannot be empty');
+    expect(response.data.code).toBe('invalid_request');
   });
   if (result4.success) passed++;
   results.push(result4);
@@ -366,9 +370,10 @@ async function testMCPTools() {
       tool: 'read_file',
       parameters: { path: '../../../etc/passwd' }
     });
-    expect(response.status).toBe(500);
+    expect(response.status).toBe(403);
     expect(response.data).toHaveProperty('error');
     expect(response.data.error).toContain('Access denied');
+    expect(response.data.code).toBe('forbidden');
   });
   if (result4.success) passed++;
   results.push(result4);
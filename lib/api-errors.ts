@@ -0,0 +1,175 @@
+/**
+ * API error envelope
+ * Every route under app/api answers a failed request with the same JSON body:
+ * `{ error, code, requestId, details? }`. `error` is a readable message,
+ * `code` a stable identifier clients can branch on, `requestId` the id also
+ * sent in the `x-request-id` header and written to the server log, and
+ * `details` the individual problems of an invalid request.
+ */
+
+import { NextResponse } from "next/server";
+
+export const API_ERROR_CODES = [
+  /** The body is not valid JSON */
+  'invalid_json',
+  /** The body or query does not match the route's schema */
+  'invalid_request',
+  /** Message content parts or images are invalid */
+  'invalid_message_content',
+  /** Generation options are invalid or not supported by the provider */
+  'invalid_options',
+  /** Unknown provider, or a model the provider does not serve */
+  'invalid_provider',
+  /** The model lacks a capability the request needs, e.g. vision */
+  'unsupported_capability',
+  /** The prompt does not fit the model's context window */
+  'context_window_exceeded',
+  /** An input guardrail blocked the message */
+  'guardrail_blocked',
+  'unauthorized',
+  'forbidden',
+  'not_found',
+  'conflict',
+  /** A collection was embedded with another embedding model */
+  'embedding_model_mismatch',
+  'rate_limited',
+  /** Automatic routing found no healthy model */
+  'no_route',
+  'service_unavailable',
+  'internal_error',
+] as const;
+
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number];
+
+export interface ApiErrorDetail {
+  /** Dotted path of the offending field, empty for the whole body */
+  path: string;
+  message: string;
+}
+
+export interface ApiErrorBody {
+  error: string;
+  code: ApiErrorCode;
+  requestId: string;
+  details?: ApiErrorDetail[];
+}
+
+export class ApiError extends Error {
+  constructor(
+    public code: ApiErrorCode,
+    message: string,
+    public status = 400,
+    public details?: ApiErrorDetail[]
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+function isApiErrorCode(code: unknown): code is ApiErrorCode {
+  return API_ERROR_CODES.includes(code as ApiErrorCode);
+}
+
+// What routes read from thrown values; provider SDK errors keep the HTTP details on `response`
+interface ErrorLike {
+  status?: unknown;
+  code?: unknown;
+  message?: unknown;
+  headers?: unknown;
+  response?: { status?: unknown; headers?: unknown };
+}
+
+function asErrorLike(error: unknown): ErrorLike | undefined {
+  return typeof error === 'object' && error !== null ? (error as ErrorLike) : undefined;
+}
+
+/**
+ * The HTTP status an error carries, such as a provider's 429
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  const e = asErrorLike(error);
+  const status = e?.status ?? e?.response?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * The HTTP response headers an error carries, e.g. to read `Retry-After`
+ */
+export function getErrorHeaders(error: unknown): unknown {
+  const e = asErrorLike(error);
+  return e?.headers ?? e?.response?.headers;
+}
+
+/**
+ * What a log line may say about an error: its status, code and class, but not
+ * its message, which can echo back the request and the keys it was sent with
+ */
+export function errorSummary(error: unknown): string {
+  const e = asErrorLike(error);
+  const status = getErrorStatus(error);
+  const parts = [
+    error instanceof Error ? error.name : typeof error,
+    ...(status !== undefined ? [`status ${status}`] : []),
+    ...(typeof e?.code === 'string' || typeof e?.code === 'number' ? [`code ${e.code}`] : []),
+  ];
+  return parts.join(', ');
+}
+
+function toStatus(error: unknown): number {
+  const status = getErrorStatus(error);
+  return status !== undefined && status >= 400 && status <= 599 ? status : 500;
+}
+
+// Errors without a code of their own are classified by their status
+function codeForStatus(status: number): ApiErrorCode {
+  switch (status) {
+    case 401:
+      return 'unauthorized';
+    case 403:
+      return 'forbidden';
+    case 404:
+      return 'not_found';
+    case 409:
+      return 'conflict';
+    case 429:
+      return 'rate_limited';
+    case 503:
+      return 'service_unavailable';
+    default:
+      return status < 500 ? 'invalid_request' : 'internal_error';
+  }
+}
+
+/**
+ * The error envelope for anything a route throws. Library errors carry a
+ * `status` and may carry a `code`; anything else is a 500.
+ */
+export function errorResponse(
+  error: unknown,
+  requestId: string,
+  options: {
+    /** Scrub secrets such as user API keys from the message */
+    redact?: (message: string) => string;
+    headers?: Record<string, string>;
+  } = {}
+): NextResponse<ApiErrorBody> {
+  const { code: errorCode, message: errorMessage } = asErrorLike(error) ?? {};
+  const status = toStatus(error);
+  const code = isApiErrorCode(errorCode) ? errorCode : codeForStatus(status);
+  const message = typeof errorMessage === 'string' && errorMessage ? errorMessage : 'Unknown error';
+  const redact = options.redact ?? ((text: string) => text);
+
+  if (status >= 500) {
+    console.error(`[${requestId}]`, redact(error instanceof Error && error.stack ? error.stack : message));
+  }
+
+  return NextResponse.json(
+    {
+      error: redact(message),
+      code,
+      requestId,
+      ...(error instanceof ApiError && error.details?.length && { details: error.details }),
+    },
+    { status, headers: { 'x-request-id': requestId, ...options.headers } }
+  );
+}
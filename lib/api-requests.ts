@@ -0,0 +1,126 @@
+/**
+ * Request parsing for API routes
+ * Bodies and query strings are checked against zod schemas before a route
+ * reads them, so client mistakes become 400s with the offending fields in
+ * `details` instead of exceptions deep inside a handler.
+ */
+
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { ApiError, type ApiErrorDetail } from "./api-errors";
+
+// Client-supplied request ids are reused when they are safe to log
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * The request's `x-request-id`, or a new id
+ */
+export function getRequestId(req: Request): string {
+  const requestId = req.headers.get('x-request-id');
+  return requestId && REQUEST_ID_PATTERN.test(requestId) ? requestId : randomUUID();
+}
+
+function toDetails(error: z.ZodError): ApiErrorDetail[] {
+  return error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }));
+}
+
+function invalidRequest(error: z.ZodError, what: string): ApiError {
+  const details = toDetails(error);
+  const summary = details.map(detail => (detail.path ? `${detail.path}: ${detail.message}` : detail.message)).join('; ');
+  return new ApiError('invalid_request', `Invalid ${what}: ${summary}`, 400, details);
+}
+
+/**
+ * Validate a value the route already read, e.g. a body that is not JSON-parsed
+ * by parseJsonBody
+ */
+export function parseWith<T extends z.ZodTypeAny>(schema: T, value: unknown, what = 'request body'): z.infer<T> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw invalidRequest(result.error, what);
+  }
+  return result.data;
+}
+
+/**
+ * The JSON body of a request, validated against `schema`
+ */
+export async function parseJsonBody<T extends z.ZodTypeAny>(req: Request, schema: T): Promise<z.infer<T>> {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    throw new ApiError('invalid_json', 'Invalid request body: not valid JSON');
+  }
+  return parseWith(schema, body);
+}
+
+/**
+ * The query string of a request as an object of strings, validated against
+ * `schema`
+ */
+export function parseSearchParams<T extends z.ZodTypeAny>(req: Request, schema: T): z.infer<T> {
+  const params = Object.fromEntries(new URL(req.url).searchParams);
+  return parseWith(schema, params, 'query');
+}
+
+/** Query flags such as `?refresh=true` */
+export const booleanParamSchema = z.enum(['true', 'false']).transform(value => value === 'true');
+
+// Image URLs are checked in detail by parseMessageContent
+const contentPartSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('text'), text: z.string() }),
+  z.object({ type: z.literal('image_url'), image_url: z.object({ url: z.string() }) }),
+]);
+
+export const chatMessageSchema = z
+  .object({
+    role: z.enum(['system', 'user', 'assistant'], {
+      errorMap: () => ({ message: "Each message must have a 'role' of system, user or assistant" }),
+    }),
+    content: z.union([z.string(), z.array(contentPartSchema)], {
+      errorMap: (issue, ctx) =>
+        issue.code === 'invalid_union'
+          ? { message: "Each message must have a 'content' string or array of content parts" }
+          : { message: ctx.defaultError },
+    }),
+  })
+  .passthrough();
+
+export type ChatRequestMessage = z.infer<typeof chatMessageSchema>;
+
+/**
+ * Fields every chat route reads. Provider, persona and option fields pass
+ * through to the parsers that own them.
+ */
+export const chatRequestSchema = z
+  .object({
+    messages: z
+      .array(chatMessageSchema, {
+        required_error: 'Messages must be an array',
+        invalid_type_error: 'Messages must be an array',
+      })
+      .min(1, 'Messages array cannot be empty')
+      .refine(
+        messages => {
+          // An empty array is reported by min()
+          if (messages.length === 0) return true;
+          const { content } = messages[messages.length - 1];
+          return typeof content === 'string' ? content.trim().length > 0 : content.length > 0;
+        },
+        'The last message must have content'
+      ),
+    streamProtocol: z.enum(['text', 'data']).optional(),
+    provider: z.string().min(1).optional(),
+    model: z.string().min(1).optional(),
+    temperature: z.number().min(0).max(2).optional(),
+    maxTokens: z.number().int().positive().optional(),
+    cache: z.boolean().optional(),
+    persona: z.string().min(1).optional(),
+    conversationId: z.string().nullable().optional(),
+    parentMessageId: z.string().nullable().optional(),
+    replyToMessageId: z.string().nullable().optional(),
+  })
+  .passthrough();
+
+export type ChatRequest = z.infer<typeof chatRequestSchema>;
@@ -0,0 +1,277 @@
+/**
+ * Chat history management
+ * Fits previous messages into the model's context window: recent turns are
+ * kept verbatim and older turns are folded into a running summary written by
+ * the same model, or a cheaper one set with LLM_SUMMARY_MODEL
+ */
+
+import { createHash } from "crypto";
+import { PromptTemplate } from "@langchain/core/prompts";
+import { StringOutputParser } from "@langchain/core/output_parsers";
+import type { GenerationOptions } from "./generation-options";
+import {
+  createChatModel,
+  parseProviderConfig,
+  type LLMConfig,
+} from "./llm-providers";
+import { getMessageText, type ChatMessageContent } from "./message-content";
+import { getModelCapabilities } from "./model-capabilities";
+import { UsageCallbackHandler } from "./usage-tracker";
+
+export interface HistoryMessage {
+  role: string;
+  /** Only the text is kept; images of earlier turns are not sent again */
+  content: ChatMessageContent;
+}
+
+export interface PreparedHistory {
+  /** Text for the prompt's {chat_history} */
+  chatHistory: string;
+  /** Older messages replaced by the summary, or dropped when summarizing failed */
+  summarizedMessages: number;
+  historyTokens: number;
+}
+
+export interface PrepareHistoryOptions {
+  config: LLMConfig;
+  /** Tokens of the rest of the prompt: template and current message */
+  promptTokens: number;
+  /** Route the summarizer's usage is recorded under */
+  route: string;
+  /** Cancels summarizing, e.g. when the client disconnects */
+  signal?: AbortSignal;
+}
+
+export class ContextWindowError extends Error {
+  status = 400;
+  code = 'context_window_exceeded' as const;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContextWindowError';
+  }
+}
+
+// Upper bound for a summary, also its share of the history budget
+const MAX_SUMMARY_TOKENS = 1024;
+
+const MAX_CACHED_SUMMARIES = 500;
+
+const SUMMARY_TEMPLATE = `Progressively summarize the lines of conversation provided, adding onto the previous summary. Keep decisions, requirements, names, numbers and open questions; leave out greetings and filler. Reply with the new summary only.
+
+Previous summary:
+{summary}
+
+New lines of conversation:
+{lines}
+
+New summary:`;
+
+/**
+ * Rough token count, four characters per token
+ * Providers tokenize differently, so budgets leave headroom rather than
+ * relying on an exact count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function formatHistoryMessage(message: HistoryMessage): string {
+  return `${message.role}: ${getMessageText(message.content)}`;
+}
+
+// Summaries by conversation prefix, so each request only summarizes the turns
+// that aged out since the last one
+// Kept on globalThis so every route bundle shares the same summaries
+const globalForHistory = globalThis as typeof globalThis & { __historySummaries?: Map<string, string> };
+const summaryCache = (globalForHistory.__historySummaries ??= new Map<string, string>());
+
+function cacheSummary(key: string, summary: string): void {
+  summaryCache.delete(key);
+  summaryCache.set(key, summary);
+  if (summaryCache.size > MAX_CACHED_SUMMARIES) {
+    summaryCache.delete(summaryCache.keys().next().value!);
+  }
+}
+
+/**
+ * Keys for every prefix of the messages: prefixKeys[i] covers the first i
+ * messages summarized by `summarizerId`
+ */
+function getPrefixKeys(messages: HistoryMessage[], summarizerId: string): string[] {
+  const keys = [createHash('sha256').update(summarizerId).digest('hex')];
+  for (const message of messages) {
+    keys.push(
+      createHash('sha256')
+        .update(keys[keys.length - 1])
+        .update(JSON.stringify([message.role, getMessageText(message.content)]))
+        .digest('hex')
+    );
+  }
+  return keys;
+}
+
+/**
+ * The summarizer: LLM_SUMMARY_MODEL (`provider:model`) or the chat model itself
+ */
+function getSummaryConfig(config: LLMConfig): LLMConfig {
+  const summaryModel = process.env.LLM_SUMMARY_MODEL?.trim();
+  if (summaryModel) {
+    // Split on the first colon only, model names such as `qwen/qwen3-coder:free` contain colons
+    const [provider, ...model] = summaryModel.split(':');
+    const summaryConfig = parseProviderConfig(
+      { provider, model: model.join(':') || undefined, fallbacks: [] },
+      config.apiKeys
+    );
+    return { ...summaryConfig, temperature: 0, maxTokens: MAX_SUMMARY_TOKENS, options: undefined };
+  }
+
+  // The chat model keeps its runtime settings such as Ollama's numCtx, but stop
+  // sequences or a JSON response format meant for the reply would spoil the summary
+  const options: GenerationOptions = { ...config.options };
+  delete options.stop;
+  delete options.responseFormat;
+  return {
+    ...config,
+    temperature: 0,
+    maxTokens: MAX_SUMMARY_TOKENS,
+    options: Object.keys(options).length > 0 ? options : undefined,
+  };
+}
+
+/**
+ * Fold messages into the running summary, resuming from the longest prefix
+ * summarized before and splitting the rest into chunks the summarizer can read
+ */
+async function summarizeMessages(
+  messages: HistoryMessage[],
+  config: LLMConfig,
+  route: string,
+  signal?: AbortSignal
+): Promise<string> {
+  const summaryConfig = getSummaryConfig(config);
+  const prefixKeys = getPrefixKeys(messages, `${summaryConfig.provider}:${summaryConfig.model}`);
+
+  let summarized = messages.length;
+  while (summarized > 0 && !summaryCache.has(prefixKeys[summarized])) {
+    summarized--;
+  }
+  let summary = summarized > 0 ? summaryCache.get(prefixKeys[summarized])! : '';
+  if (summarized === messages.length) {
+    return summary;
+  }
+
+  const model = await createChatModel(summaryConfig);
+  const chain = PromptTemplate.fromTemplate(SUMMARY_TEMPLATE)
+    .pipe(model)
+    .pipe(new StringOutputParser());
+  const usageHandler = new UsageCallbackHandler({ route, model, config: summaryConfig });
+
+  const { contextWindow: modelWindow } = getModelCapabilities(summaryConfig.provider, summaryConfig.model);
+  // Ollama loads the model with the window set in numCtx
+  const numCtx = summaryConfig.options?.numCtx;
+  const contextWindow = numCtx !== undefined ? Math.min(numCtx, modelWindow) : modelWindow;
+  const chunkBudget = Math.max(
+    MAX_SUMMARY_TOKENS,
+    contextWindow - 2 * MAX_SUMMARY_TOKENS - estimateTokens(SUMMARY_TEMPLATE)
+  );
+
+  while (summarized < messages.length) {
+    let end = summarized;
+    let chunkTokens = 0;
+    const lines: string[] = [];
+    while (end < messages.length) {
+      // A message too long for the summarizer on its own is cut down to fit
+      const line = formatHistoryMessage(messages[end]).slice(0, chunkBudget * 4);
+      const lineTokens = estimateTokens(line);
+      if (lines.length > 0 && chunkTokens + lineTokens > chunkBudget) {
+        break;
+      }
+      lines.push(line);
+      chunkTokens += lineTokens;
+      end++;
+    }
+
+    summary = (await chain.invoke(
+      { summary: summary || '(none)', lines: lines.join('\n') },
+      { callbacks: [usageHandler], signal }
+    )).trim();
+    summarized = end;
+    cacheSummary(prefixKeys[summarized], summary);
+  }
+
+  return summary;
+}
+
+/**
+ * Fit previous messages into what the model's context window leaves after
+ * the prompt and the reply. When they do not fit, the most recent turns are
+ * kept verbatim and older ones are replaced by a summary; if summarizing
+ * fails, older turns are dropped instead.
+ *
+ * The smallest context window of the model and its fallbacks is used, so any
+ * model in the chain can take the prompt.
+ */
+export async function prepareChatHistory(
+  messages: HistoryMessage[],
+  options: PrepareHistoryOptions
+): Promise<PreparedHistory> {
+  const { config, promptTokens, route, signal } = options;
+  const capabilities = getModelCapabilities(config.provider, config.model);
+  const contextWindow = Math.min(
+    // Ollama loads the model with the window set in numCtx
+    config.options?.numCtx ?? capabilities.contextWindow,
+    ...(config.fallbacks ?? []).map(({ provider, model }) => getModelCapabilities(provider, model).contextWindow)
+  );
+  const outputTokens = config.maxTokens ?? Math.min(capabilities.maxOutputTokens, Math.floor(contextWindow / 4));
+  const historyBudget = contextWindow - outputTokens - promptTokens;
+
+  if (historyBudget <= 0) {
+    throw new ContextWindowError(
+      `The prompt needs about ${promptTokens + outputTokens} tokens with the reply, ` +
+      `more than the ${contextWindow} token context window of model ${config.model} of provider ${config.provider}`
+    );
+  }
+
+  const lines = messages.map(formatHistoryMessage);
+  const lineTokens = lines.map(line => estimateTokens(line) + 1);
+  const totalTokens = lineTokens.reduce((sum, tokens) => sum + tokens, 0);
+  if (totalTokens <= historyBudget) {
+    return { chatHistory: lines.join('\n'), summarizedMessages: 0, historyTokens: totalTokens };
+  }
+
+  // Newest messages first, up to what the summary leaves of the budget
+  const recentBudget = historyBudget - Math.min(MAX_SUMMARY_TOKENS, Math.floor(historyBudget / 3));
+  let split = messages.length;
+  let recentTokens = 0;
+  while (split > 0 && recentTokens + lineTokens[split - 1] <= recentBudget) {
+    recentTokens += lineTokens[split - 1];
+    split--;
+  }
+  const recentLines = lines.slice(split);
+
+  let summaryLine: string;
+  try {
+    const summary = await summarizeMessages(messages.slice(0, split), config, route, signal);
+    summaryLine = `system: Summary of the earlier conversation: ${summary}`;
+  } catch (e: any) {
+    if (signal?.aborted) {
+      throw e;
+    }
+    console.error(`Summarizing chat history failed, dropping ${split} older messages: ${e.message}`);
+    summaryLine = `system: ${split} earlier messages were omitted.`;
+  }
+
+  const chatHistory = [summaryLine, ...recentLines].join('\n');
+  return { chatHistory, summarizedMessages: split, historyTokens: estimateTokens(chatHistory) };
+}
+
+/**
+ * Response headers describing how the history was condensed
+ */
+export function getHistoryHeaders(history: PreparedHistory): Record<string, string> {
+  if (history.summarizedMessages === 0) {
+    return {};
+  }
+  return { 'x-llm-history-summarized': String(history.summarizedMessages) };
+}
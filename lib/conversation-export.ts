@@ -0,0 +1,249 @@
+/**
+ * Conversation export and import
+ * Markdown for readable transcripts, JSON with everything the store keeps
+ * (sources and tool calls included) and JSONL in OpenAI's fine-tuning chat
+ * format. JSON and JSONL exports can be imported again as new threads.
+ * Markdown and JSONL hold the branch ending in the latest message, JSON the
+ * whole message tree.
+ */
+
+import { z } from "zod";
+import {
+  ConversationError,
+  conversationInputSchema,
+  formatConversationIssues,
+  getBranch,
+  type Conversation,
+  type ConversationInput,
+  type IntermediateStep,
+} from "./conversations";
+import { getPersonaStore } from "./personas";
+
+export const CONVERSATION_FORMATS = ['markdown', 'json', 'jsonl'] as const;
+
+export type ConversationFormat = (typeof CONVERSATION_FORMATS)[number];
+
+export interface ExportedConversation {
+  content: string;
+  contentType: string;
+  fileName: string;
+}
+
+const JSON_EXPORT_VERSION = 1;
+
+export const conversationFormatSchema = z.enum(CONVERSATION_FORMATS, {
+  errorMap: () => ({ message: `Unsupported format. Supported formats: ${CONVERSATION_FORMATS.join(', ')}` }),
+});
+
+function toFileName(title: string, extension: string): string {
+  const name = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+  return `${name || 'conversation'}.${extension}`;
+}
+
+// A fence longer than any backtick run in the text, so code in it survives
+function fence(text: string, language = ''): string {
+  const longestRun = Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  const marker = '`'.repeat(longestRun + 1);
+  return `${marker}${language}\n${text}\n${marker}`;
+}
+
+function toMarkdown(conversation: Conversation): string {
+  const lines = [
+    `# ${conversation.title}`,
+    '',
+    `- Endpoint: \`${conversation.endpoint}\``,
+    ...(conversation.persona ? [`- Persona: \`${conversation.persona}\``] : []),
+    `- Created: ${conversation.createdAt}`,
+    `- Updated: ${conversation.updatedAt}`,
+  ];
+
+  for (const message of getBranch(conversation)) {
+    const author = message.role === 'user' ? 'User' : 'Assistant';
+    const model = message.provider && message.model ? ` (${message.provider}:${message.model})` : '';
+    lines.push('', `## ${author}${model}`, '');
+
+    for (const step of message.intermediateSteps ?? []) {
+      lines.push(
+        `**Tool call:** \`${step.action.name}\``,
+        '',
+        fence(JSON.stringify(step.action.args, null, 2), 'json'),
+        '',
+        fence(step.observation),
+        ''
+      );
+    }
+
+    lines.push(message.content);
+
+    if (message.sources?.length) {
+      lines.push('', '**Sources:**', '');
+      message.sources.forEach((source, i) => {
+        const metadata = Object.keys(source.metadata).length > 0 ? ` — \`${JSON.stringify(source.metadata)}\`` : '';
+        lines.push(`${i + 1}. ${source.pageContent.replace(/\s+/g, ' ').trim()}${metadata}`);
+      });
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+function toToolCallId(step: IntermediateStep, index: number): string {
+  return step.action.id ?? `call_${index}`;
+}
+
+/**
+ * One training example in OpenAI's chat fine-tuning format; the persona's
+ * system prompt opens it when the persona still exists
+ */
+function toJsonl(conversation: Conversation): string {
+  const systemPrompt = conversation.persona && getPersonaStore().get(conversation.persona)?.systemTemplate;
+  const messages: Record<string, unknown>[] = systemPrompt ? [{ role: 'system', content: systemPrompt }] : [];
+  let toolCallCount = 0;
+
+  for (const message of getBranch(conversation)) {
+    const steps = message.intermediateSteps ?? [];
+    steps.forEach(step => {
+      const id = toToolCallId(step, toolCallCount++);
+      messages.push(
+        {
+          role: 'assistant',
+          tool_calls: [
+            { id, type: 'function', function: { name: step.action.name, arguments: JSON.stringify(step.action.args) } },
+          ],
+        },
+        { role: 'tool', tool_call_id: id, content: step.observation }
+      );
+    });
+    messages.push({ role: message.role, content: message.content });
+  }
+
+  return `${JSON.stringify({ messages })}\n`;
+}
+
+export function exportConversation(conversation: Conversation, format: ConversationFormat): ExportedConversation {
+  switch (format) {
+    case 'markdown':
+      return {
+        content: toMarkdown(conversation),
+        contentType: 'text/markdown; charset=utf-8',
+        fileName: toFileName(conversation.title, 'md'),
+      };
+    case 'json':
+      return {
+        content: `${JSON.stringify({ version: JSON_EXPORT_VERSION, exportedAt: new Date().toISOString(), conversation }, null, 2)}\n`,
+        contentType: 'application/json; charset=utf-8',
+        fileName: toFileName(conversation.title, 'json'),
+      };
+    case 'jsonl':
+      return {
+        content: toJsonl(conversation),
+        contentType: 'application/jsonl; charset=utf-8',
+        fileName: toFileName(conversation.title, 'jsonl'),
+      };
+  }
+}
+
+function parseJson(text: string, what: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ConversationError(`Invalid ${what}: not valid JSON`);
+  }
+}
+
+/**
+ * Messages of an OpenAI chat example; tool calls and tool results become the
+ * intermediate steps of the next assistant answer, and system messages are
+ * left out since they belong to a persona
+ */
+function fromOpenAIMessages(messages: unknown): ConversationInput['messages'] {
+  if (!Array.isArray(messages)) {
+    throw new ConversationError('Invalid JSONL: each line needs a messages array');
+  }
+
+  const imported: ConversationInput['messages'] = [];
+  const toolCalls = new Map<string, IntermediateStep['action']>();
+  let steps: IntermediateStep[] = [];
+
+  for (const message of messages) {
+    const content = typeof message?.content === 'string' ? message.content : '';
+    if (message?.role === 'assistant' && Array.isArray(message.tool_calls) && message.tool_calls.length > 0) {
+      for (const call of message.tool_calls) {
+        let args: Record<string, unknown> = {};
+        try {
+          args = JSON.parse(call?.function?.arguments ?? '{}');
+        } catch {
+          args = { input: call?.function?.arguments };
+        }
+        toolCalls.set(call?.id, { name: String(call?.function?.name ?? 'tool'), args, ...(call?.id && { id: call.id }) });
+      }
+      if (!content) {
+        continue;
+      }
+    }
+
+    if (message?.role === 'tool') {
+      steps.push({
+        action: toolCalls.get(message.tool_call_id) ?? { name: 'tool', args: {} },
+        observation: content,
+      });
+    } else if (message?.role === 'user' || message?.role === 'assistant') {
+      imported.push({
+        role: message.role,
+        content,
+        ...(message.role === 'assistant' && steps.length > 0 && { intermediateSteps: steps }),
+      });
+      steps = [];
+    } else if (message?.role !== 'system') {
+      throw new ConversationError(`Invalid JSONL: unsupported role ${message?.role}`);
+    }
+  }
+
+  return imported;
+}
+
+/**
+ * Read a JSON or JSONL export into a conversation to store as a new thread.
+ * Without a format, a JSON object holding a `conversation` is read as JSON
+ * and anything else as JSONL. `endpoint` applies when the export names none.
+ */
+export function importConversation(
+  text: string,
+  options: { format?: ConversationFormat; endpoint?: string } = {}
+): ConversationInput {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new ConversationError('Nothing to import');
+  }
+
+  let format = options.format;
+  if (!format) {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      // Several JSONL lines are not one JSON value
+    }
+    format = parsed?.conversation ? 'json' : 'jsonl';
+  }
+
+  let input: unknown;
+  if (format === 'json') {
+    const parsed = parseJson(trimmed, 'JSON export');
+    input = parsed?.conversation ?? parsed;
+  } else if (format === 'jsonl') {
+    const lines = trimmed.split('\n').filter(line => line.trim());
+    if (lines.length !== 1) {
+      throw new ConversationError(`Invalid JSONL: expected one conversation, found ${lines.length} lines`);
+    }
+    input = { messages: fromOpenAIMessages(parseJson(lines[0], 'JSONL').messages) };
+  } else {
+    throw new ConversationError('Markdown transcripts cannot be imported; import a JSON or JSONL export');
+  }
+
+  const result = conversationInputSchema.safeParse(input);
+  if (!result.success) {
+    throw new ConversationError(`Invalid conversation: ${formatConversationIssues(result.error)}`);
+  }
+  return { ...result.data, endpoint: result.data.endpoint ?? options.endpoint };
+}
@@ -0,0 +1,445 @@
+/**
+ * Conversation store
+ * Chat routes append the user and assistant turns of requests that carry a
+ * `conversationId`, so threads survive a page reload and can be reopened.
+ * Each conversation is a JSON file in CONVERSATIONS_DIR.
+ *
+ * Messages form a tree: an edited message or a regenerated reply is a
+ * sibling of the original, so alternate answers are kept. The branch shown
+ * is the path to the latest message unless a client picks another.
+ */
+
+import { randomUUID } from "crypto";
+import { mkdir, readFile, readdir, rename, rm, writeFile } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import type { JSONValue } from "ai";
+
+import { getMessageText } from "./message-content";
+
+const DEFAULT_CONVERSATIONS_DIR = '.llm-conversations';
+
+const MAX_TITLE_LENGTH = 80;
+
+// Ids become file names, so only plain characters are accepted
+const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Names of routes next to /api/conversations/:id
+const RESERVED_IDS = ['export', 'import'];
+
+export interface ConversationSource {
+  pageContent: string;
+  metadata: Record<string, JSONValue>;
+}
+
+/** A tool call of an agent and what the tool returned */
+export interface IntermediateStep {
+  action: { name: string; args: Record<string, unknown>; id?: string };
+  observation: string;
+}
+
+export interface ConversationMessage {
+  id: string;
+  /** Message this one follows on its branch, null for the first message */
+  parentId: string | null;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+  /** Documents a retrieval answer is based on */
+  sources?: ConversationSource[];
+  /** Tool calls an agent made before answering */
+  intermediateSteps?: IntermediateStep[];
+  /** Model that wrote an assistant message */
+  provider?: string;
+  model?: string;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  /** Chat route the conversation was held with, e.g. /api/chat/agents */
+  endpoint: string;
+  persona?: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: ConversationMessage[];
+}
+
+export interface ConversationSummary extends Omit<Conversation, 'messages'> {
+  messageCount: number;
+}
+
+export type ConversationReply = Omit<ConversationMessage, 'id' | 'parentId' | 'role' | 'createdAt'>;
+
+export type ConversationInput = z.infer<typeof conversationInputSchema>;
+
+export class ConversationError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'ConversationError';
+  }
+}
+
+const titleSchema = z.string().trim().min(1).max(MAX_TITLE_LENGTH);
+
+// Source metadata is sent to clients as a message annotation, so it must be JSON
+const jsonValueSchema: z.ZodType<JSONValue> = z.lazy(() =>
+  z.union([z.string(), z.number(), z.boolean(), z.null(), z.array(jsonValueSchema), z.record(jsonValueSchema)])
+);
+
+const conversationMessageSchema = z.object({
+  // Ids only link messages to their parents; stored messages get new ones
+  id: z.string().optional(),
+  parentId: z.string().nullable().optional(),
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+  createdAt: z.string().datetime().optional(),
+  sources: z
+    .array(z.object({ pageContent: z.string(), metadata: z.record(jsonValueSchema).default({}) }))
+    .optional(),
+  intermediateSteps: z
+    .array(
+      z.object({
+        action: z.object({ name: z.string(), args: z.record(z.unknown()).default({}), id: z.string().optional() }),
+        observation: z.string(),
+      })
+    )
+    .optional(),
+  provider: z.string().optional(),
+  model: z.string().optional(),
+});
+
+/**
+ * A conversation from outside the store, e.g. an import; ids and timestamps
+ * are assigned when it is stored
+ */
+export const conversationInputSchema = z.object({
+  title: titleSchema.optional(),
+  endpoint: z.string().regex(/^\/api\//, 'Expected an API route such as /api/chat').optional(),
+  persona: z.string().min(1).optional(),
+  messages: z.array(conversationMessageSchema).min(1),
+});
+
+export function formatConversationIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+}
+
+/**
+ * Location of the conversation files, `CONVERSATIONS_DIR` or .llm-conversations
+ */
+export function getConversationsDirectory(): string {
+  return path.resolve(process.cwd(), process.env.CONVERSATIONS_DIR || DEFAULT_CONVERSATIONS_DIR);
+}
+
+export function isConversationId(id: unknown): id is string {
+  return typeof id === 'string' && CONVERSATION_ID_PATTERN.test(id) && !RESERVED_IDS.includes(id);
+}
+
+function toTitle(content: string): string {
+  const line = content.replace(/\s+/g, ' ').trim();
+  if (!line) {
+    return 'New conversation';
+  }
+  return line.length > MAX_TITLE_LENGTH ? `${line.slice(0, MAX_TITLE_LENGTH - 3)}...` : line;
+}
+
+/**
+ * A complete conversation for the given input, titled after its first user
+ * message unless it has a title. Messages without a `parentId` follow the
+ * message before them.
+ */
+export function toConversation(input: ConversationInput, id: string = randomUUID()): Conversation {
+  const now = new Date().toISOString();
+  const firstUserMessage = input.messages.find(message => message.role === 'user');
+  const ids = new Map(input.messages.map((message, index) => [message.id ?? `${index}`, `${index}`]));
+  return {
+    id,
+    title: input.title ?? toTitle(firstUserMessage?.content ?? ''),
+    endpoint: input.endpoint ?? '/api/chat',
+    ...(input.persona && { persona: input.persona }),
+    createdAt: input.messages[0].createdAt ?? now,
+    updatedAt: now,
+    messages: input.messages.map(({ id: _id, parentId, ...message }, index) => {
+      // Parents come first, so the messages cannot form a cycle
+      if (parentId && !(Number(ids.get(parentId)) < index)) {
+        throw new ConversationError(`messages.${index}.parentId must name an earlier message`);
+      }
+      return {
+        id: `${index}`,
+        parentId: parentId === undefined ? (index > 0 ? `${index - 1}` : null) : parentId && ids.get(parentId)!,
+        ...message,
+        createdAt: message.createdAt ?? now,
+      };
+    }),
+  };
+}
+
+/**
+ * Messages from the first one to `leafId`, by default the latest message
+ */
+export function getBranch(conversation: Conversation, leafId?: string): ConversationMessage[] {
+  const byId = new Map(conversation.messages.map(message => [message.id, message]));
+  const branch: ConversationMessage[] = [];
+  let message = leafId ? byId.get(leafId) : conversation.messages[conversation.messages.length - 1];
+  while (message && branch.length < conversation.messages.length) {
+    branch.unshift(message);
+    message = message.parentId === null ? undefined : byId.get(message.parentId);
+  }
+  return branch;
+}
+
+function toSummary({ messages, ...conversation }: Conversation): ConversationSummary {
+  return { ...conversation, messageCount: messages.length };
+}
+
+/**
+ * Conversations kept as one JSON file each
+ * Writes to a conversation are serialized, so turns appended by overlapping
+ * requests are never lost.
+ */
+export class ConversationStore {
+  private pending: Map<string, Promise<unknown>> = new Map();
+
+  constructor(private directory: string) {}
+
+  private fileFor(id: string): string {
+    if (!isConversationId(id)) {
+      throw new ConversationError(`Invalid conversation id: ${id}`);
+    }
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  private async read(id: string): Promise<Conversation | undefined> {
+    try {
+      const conversation: Conversation = JSON.parse(await readFile(this.fileFor(id), 'utf-8'));
+      // Conversations stored before branching are a single branch
+      conversation.messages.forEach((message, index) => {
+        if (message.parentId === undefined) {
+          message.parentId = index > 0 ? conversation.messages[index - 1].id : null;
+        }
+      });
+      return conversation;
+    } catch (e: any) {
+      if (e.code === 'ENOENT') {
+        return undefined;
+      }
+      throw e;
+    }
+  }
+
+  private async write(conversation: Conversation): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    // Written to a temporary file first so readers never see a partial file
+    const file = this.fileFor(conversation.id);
+    await writeFile(`${file}.tmp`, JSON.stringify(conversation, null, 2), 'utf-8');
+    await rename(`${file}.tmp`, file);
+  }
+
+  /**
+   * Run `update` after any earlier update of the same conversation
+   */
+  private serialize<T>(id: string, update: () => Promise<T>): Promise<T> {
+    const previous = this.pending.get(id) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(update);
+    this.pending.set(id, next);
+    next.finally(() => {
+      if (this.pending.get(id) === next) {
+        this.pending.delete(id);
+      }
+    }).catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Summaries of all conversations, most recently updated first
+   */
+  async list(filter: { endpoint?: string } = {}): Promise<ConversationSummary[]> {
+    let names: string[];
+    try {
+      names = (await readdir(this.directory)).filter(name => name.endsWith('.json'));
+    } catch (e: any) {
+      if (e.code === 'ENOENT') {
+        return [];
+      }
+      throw e;
+    }
+
+    const conversations = await Promise.all(
+      names.map(name => this.read(name.slice(0, -'.json'.length)).catch(() => undefined))
+    );
+    return conversations
+      .filter((conversation): conversation is Conversation => !!conversation)
+      .filter(conversation => !filter.endpoint || conversation.endpoint === filter.endpoint)
+      .map(toSummary)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async get(id: string): Promise<Conversation | undefined> {
+    return this.read(id);
+  }
+
+  /**
+   * Store a conversation as a new thread with a fresh id
+   */
+  async create(input: unknown): Promise<Conversation> {
+    const result = conversationInputSchema.safeParse(input);
+    if (!result.success) {
+      throw new ConversationError(`Invalid conversation: ${formatConversationIssues(result.error)}`);
+    }
+    const conversation = toConversation(result.data);
+    await this.serialize(conversation.id, () => this.write(conversation));
+    return conversation;
+  }
+
+  /**
+   * Append a message, creating the conversation on its first message.
+   * Without a `parentId` the message follows the latest message.
+   */
+  append(
+    id: string,
+    init: { endpoint: string; persona?: string },
+    message: Omit<ConversationMessage, 'id' | 'parentId' | 'createdAt'> & { parentId?: string | null }
+  ): Promise<ConversationMessage> {
+    return this.serialize(id, async () => {
+      const now = new Date().toISOString();
+      const conversation: Conversation = (await this.read(id)) ?? {
+        id,
+        title: toTitle(message.content),
+        endpoint: init.endpoint,
+        createdAt: now,
+        updatedAt: now,
+        messages: [],
+      };
+
+      const { parentId = conversation.messages[conversation.messages.length - 1]?.id ?? null, ...fields } = message;
+      if (parentId !== null && !conversation.messages.some(candidate => candidate.id === parentId)) {
+        throw new ConversationError(`Message ${parentId} not found in conversation ${id}`);
+      }
+
+      // Messages are never removed, so their count is a fresh id
+      const stored: ConversationMessage = { id: `${conversation.messages.length}`, parentId, ...fields, createdAt: now };
+      conversation.messages.push(stored);
+      conversation.persona = init.persona ?? conversation.persona;
+      conversation.updatedAt = now;
+      await this.write(conversation);
+      return stored;
+    });
+  }
+
+  rename(id: string, title: unknown): Promise<Conversation> {
+    const result = titleSchema.safeParse(title);
+    if (!result.success) {
+      return Promise.reject(new ConversationError(`Title must be 1 to ${MAX_TITLE_LENGTH} characters`));
+    }
+
+    return this.serialize(id, async () => {
+      const conversation = await this.read(id);
+      if (!conversation) {
+        throw new ConversationError(`Conversation not found: ${id}`, 404);
+      }
+      conversation.title = result.data;
+      conversation.updatedAt = new Date().toISOString();
+      await this.write(conversation);
+      return conversation;
+    });
+  }
+
+  delete(id: string): Promise<void> {
+    return this.serialize(id, async () => {
+      if (!(await this.read(id))) {
+        throw new ConversationError(`Conversation not found: ${id}`, 404);
+      }
+      await rm(this.fileFor(id), { force: true });
+    });
+  }
+}
+
+// Kept on globalThis so every route bundle shares the same store and write queue
+const globalForConversations = globalThis as typeof globalThis & { __conversationStore?: ConversationStore };
+
+export function getConversationStore(): ConversationStore {
+  return (globalForConversations.__conversationStore ??= new ConversationStore(getConversationsDirectory()));
+}
+
+export interface ConversationTurn {
+  conversationId: string;
+  /** Stored user message the reply answers */
+  userMessageId: string;
+  /** Store the assistant's reply; failures are logged, the reply was already sent */
+  recordReply(reply: ConversationReply): Promise<void>;
+}
+
+function optionalMessageId(value: unknown, field: string): string | null | undefined {
+  if (value === undefined || value === null || typeof value === 'string') {
+    return value;
+  }
+  throw new ConversationError(`${field} must be a message id`);
+}
+
+/**
+ * Store the user message of a chat request that names a `conversationId`
+ * Returns undefined for requests without one, which are not recorded.
+ *
+ * The message follows `parentMessageId` (null starts a new first message),
+ * by default the latest message. A request with `replyToMessageId`
+ * regenerates the reply to that stored user message instead, so nothing is
+ * stored until the new reply.
+ */
+export async function recordUserTurn(
+  request: any,
+  options: { endpoint: string; persona?: string }
+): Promise<ConversationTurn | undefined> {
+  const conversationId = request?.conversationId;
+  if (conversationId === undefined || conversationId === null) {
+    return undefined;
+  }
+  if (!isConversationId(conversationId)) {
+    throw new ConversationError('conversationId must be 1 to 64 letters, digits, dashes or underscores');
+  }
+
+  const parentMessageId = optionalMessageId(request.parentMessageId, 'parentMessageId');
+  const replyToMessageId = optionalMessageId(request.replyToMessageId, 'replyToMessageId');
+  const store = getConversationStore();
+
+  let userMessageId: string;
+  if (replyToMessageId) {
+    const conversation = await store.get(conversationId);
+    if (!conversation?.messages.some(message => message.id === replyToMessageId && message.role === 'user')) {
+      throw new ConversationError(`replyToMessageId must name a user message of conversation ${conversationId}`);
+    }
+    userMessageId = replyToMessageId;
+  } else {
+    const messages = Array.isArray(request.messages) ? request.messages : [];
+    const lastMessage = messages[messages.length - 1];
+    const stored = await store.append(conversationId, options, {
+      role: 'user',
+      content: getMessageText(lastMessage?.content),
+      ...(parentMessageId !== undefined && { parentId: parentMessageId }),
+    });
+    userMessageId = stored.id;
+  }
+
+  return {
+    conversationId,
+    userMessageId,
+    async recordReply(reply) {
+      try {
+        await store.append(conversationId, options, { role: 'assistant', ...reply, parentId: userMessageId });
+      } catch (e: any) {
+        console.error(`Failed to record reply in conversation ${conversationId}: ${e.message}`);
+      }
+    },
+  };
+}
+
+/**
+ * Response header naming the conversation a request was recorded in
+ */
+export function getConversationHeaders(turn?: ConversationTurn): Record<string, string> {
+  if (!turn) {
+    return {};
+  }
+  return { 'x-conversation-id': turn.conversationId };
+}
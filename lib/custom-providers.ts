@@ -0,0 +1,147 @@
+/**
+ * Custom OpenAI-compatible providers
+ * vLLM, llama.cpp servers, LocalAI or company gateways are declared in a
+ * config file instead of code and instantiated through the OpenAI-compatible path
+ */
+
+import { existsSync, readFileSync, statSync } from "fs";
+import path from "path";
+import { z } from "zod";
+import { isBuiltInProvider, type ProviderConfig } from "./llm-providers";
+import { AUTO_PROVIDER } from "./model-router";
+
+const DEFAULT_CONFIG_FILE = 'llm-providers.config.json';
+
+const modelCapabilitiesSchema = z.object({
+  toolCalling: z.boolean(),
+  jsonMode: z.boolean(),
+  vision: z.boolean(),
+  contextWindow: z.number().int().positive(),
+  maxOutputTokens: z.number().int().positive(),
+}).partial();
+
+const customProviderSchema = z.object({
+  name: z
+    .string()
+    .regex(/^[a-z0-9][a-z0-9_-]*$/, 'Provider names use lowercase letters, digits, "-" and "_"')
+    .refine(name => name !== AUTO_PROVIDER, name => ({ message: `"${name}" is reserved for routing requests to a suitable model` }))
+    .refine(name => !isBuiltInProvider(name), name => ({ message: `"${name}" is the name of a built-in provider` })),
+  baseURL: z.string().url(),
+  /** Environment variable holding the API key; omit for servers without authentication */
+  apiKeyEnvVar: z.string().min(1).optional(),
+  models: z.array(z.string().min(1)).min(1),
+  defaultModel: z.string().optional(),
+  /** Default model for the OpenAI-compatible /embeddings endpoint */
+  embeddingModel: z.string().min(1).optional(),
+  supportsStreaming: z.boolean().default(true),
+  /** Capabilities keyed by model name, `*` for all models */
+  capabilities: z.record(z.string(), modelCapabilitiesSchema).default({}),
+  defaultParams: z
+    .object({
+      temperature: z.number().min(0).max(2).optional(),
+      maxTokens: z.number().int().positive().optional(),
+      topP: z.number().min(0).max(1).optional(),
+      frequencyPenalty: z.number().optional(),
+      presencePenalty: z.number().optional(),
+    })
+    .default({}),
+});
+
+// Entries are validated one by one so a single bad entry does not hide the others
+const customProvidersFileSchema = z.object({
+  providers: z.array(z.unknown()),
+});
+
+export type CustomProviderDefaults = z.infer<typeof customProviderSchema>['defaultParams'];
+
+export type CustomProviderCapabilities = z.infer<typeof customProviderSchema>['capabilities'];
+
+export interface CustomProviderConfig extends ProviderConfig {
+  custom: true;
+  baseURL: string;
+  apiKeyEnvVar?: string;
+  embeddingModel?: string;
+  capabilities: CustomProviderCapabilities;
+  defaultParams: CustomProviderDefaults;
+}
+
+let loaded: { file: string; mtimeMs: number; providers: Map<string, CustomProviderConfig> } | undefined;
+
+/**
+ * Location of the registry, `LLM_PROVIDERS_CONFIG` or `llm-providers.config.json`
+ * in the working directory
+ */
+export function getCustomProvidersFile(): string {
+  return path.resolve(process.cwd(), process.env.LLM_PROVIDERS_CONFIG || DEFAULT_CONFIG_FILE);
+}
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues.map(issue => `${issue.path.join('.') || 'entry'}: ${issue.message}`).join('; ');
+}
+
+function parseCustomProviders(file: string): Map<string, CustomProviderConfig> {
+  const providers = new Map<string, CustomProviderConfig>();
+
+  let entries: unknown[];
+  try {
+    entries = customProvidersFileSchema.parse(JSON.parse(readFileSync(file, 'utf-8'))).providers;
+  } catch (error) {
+    // A broken registry should not take the built-in providers down with it
+    const detail = error instanceof z.ZodError
+      ? describeIssues(error)
+      : error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Ignoring invalid custom provider config ${file}: ${detail}`);
+    return providers;
+  }
+
+  entries.forEach((rawEntry, index) => {
+    const result = customProviderSchema.safeParse(rawEntry);
+    if (!result.success) {
+      console.error(`Ignoring custom provider #${index + 1} in ${file}: ${describeIssues(result.error)}`);
+      return;
+    }
+    const entry = result.data;
+
+    if (providers.has(entry.name)) {
+      console.error(`Ignoring custom provider "${entry.name}": the name is already in use`);
+      return;
+    }
+    if (entry.defaultModel && !entry.models.includes(entry.defaultModel)) {
+      console.error(`Ignoring custom provider "${entry.name}": defaultModel is not in models`);
+      return;
+    }
+
+    providers.set(entry.name, {
+      custom: true,
+      models: entry.models,
+      defaultModel: entry.defaultModel ?? entry.models[0],
+      requiresApiKey: Boolean(entry.apiKeyEnvVar),
+      supportsStreaming: entry.supportsStreaming,
+      baseURL: entry.baseURL.replace(/\/+$/, ''),
+      apiKeyEnvVar: entry.apiKeyEnvVar,
+      embeddingModel: entry.embeddingModel,
+      capabilities: entry.capabilities,
+      defaultParams: entry.defaultParams,
+    });
+  });
+
+  return providers;
+}
+
+/**
+ * Get the custom providers, keyed by name
+ * The file is read again whenever it changes, so edits apply without a restart
+ */
+export function getCustomProviders(): Map<string, CustomProviderConfig> {
+  const file = getCustomProvidersFile();
+  if (!existsSync(file)) {
+    loaded = undefined;
+    return new Map();
+  }
+
+  const { mtimeMs } = statSync(file);
+  if (!loaded || loaded.file !== file || loaded.mtimeMs !== mtimeMs) {
+    loaded = { file, mtimeMs, providers: parseCustomProviders(file) };
+  }
+  return loaded.providers;
+}
@@ -0,0 +1,129 @@
+/**
+ * Provider fallback chains
+ * Wraps an ordered list of chat models and moves to the next one when a
+ * provider is rate limited, failing or unreachable
+ */
+
+import {
+  BaseChatModel,
+  type BaseChatModelCallOptions,
+  type BaseChatModelParams,
+  type BindToolsInput,
+} from "@langchain/core/language_models/chat_models";
+import type { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import type { BaseMessage } from "@langchain/core/messages";
+import type { ChatGenerationChunk, ChatResult } from "@langchain/core/outputs";
+import { errorSummary } from "./api-errors";
+import type { LLMProvider } from "./llm-providers";
+import {
+  bindWrappedTools,
+  generateWrapped,
+  streamWrapped,
+  type WrappedModel,
+} from "./wrapped-chat-model";
+
+export type FallbackCandidate = WrappedModel;
+
+export interface FallbackChatModelParams extends BaseChatModelParams {
+  candidates: FallbackCandidate[];
+}
+
+/**
+ * Whether an error should move a fallback chain on to its next candidate:
+ * rate limits (429), server errors (5xx) and refused connections
+ */
+export function isFallbackError(error: unknown): boolean {
+  let current: any = error;
+  for (let depth = 0; current && depth < 5; depth++) {
+    const status = current.status ?? current.response?.status;
+    if (typeof status === 'number' && (status === 429 || status >= 500)) {
+      return true;
+    }
+    if (current.code === 'ECONNREFUSED') {
+      return true;
+    }
+    const message = typeof current.message === 'string' ? current.message : '';
+    if (/ECONNREFUSED|fetch failed|Connection error|rate limit/i.test(message)) {
+      return true;
+    }
+    current = current.cause;
+  }
+  return false;
+}
+
+/**
+ * Chat model that tries each candidate in order. Streaming only falls back
+ * before the first chunk has been produced, so a reply is never stitched
+ * together from two providers.
+ */
+export class FallbackChatModel extends BaseChatModel {
+  candidates: FallbackCandidate[];
+
+  /** Provider and model that produced the latest response */
+  respondedWith?: { provider: LLMProvider; model: string };
+
+  constructor(fields: FallbackChatModelParams) {
+    super(fields);
+    if (fields.candidates.length === 0) {
+      throw new Error('FallbackChatModel requires at least one candidate');
+    }
+    this.candidates = fields.candidates;
+  }
+
+  _llmType(): string {
+    return 'fallback';
+  }
+
+  bindTools(tools: BindToolsInput[], kwargs?: Partial<BaseChatModelCallOptions>): FallbackChatModel {
+    return new FallbackChatModel({
+      candidates: this.candidates.map((candidate) => ({
+        ...candidate,
+        runnable: bindWrappedTools(candidate, tools, kwargs),
+      })),
+    });
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+  ): Promise<ChatResult> {
+    for (const [index, candidate] of this.candidates.entries()) {
+      try {
+        const result = await generateWrapped(candidate, messages, options);
+        this.respondedWith = { provider: candidate.provider, model: candidate.model };
+        return result;
+      } catch (error) {
+        // An aborted request is not retried on the next candidate
+        if (index === this.candidates.length - 1 || options.signal?.aborted || !isFallbackError(error)) {
+          throw error;
+        }
+        console.warn(`LLM provider ${candidate.provider} (${candidate.model}) failed, falling back:`, errorSummary(error));
+      }
+    }
+    throw new Error('No fallback candidate produced a response');
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun,
+  ): AsyncGenerator<ChatGenerationChunk> {
+    for (const [index, candidate] of this.candidates.entries()) {
+      let started = false;
+      try {
+        yield* streamWrapped(candidate, messages, options, runManager, () => {
+          if (!started) {
+            started = true;
+            this.respondedWith = { provider: candidate.provider, model: candidate.model };
+          }
+        });
+        return;
+      } catch (error) {
+        if (started || index === this.candidates.length - 1 || options.signal?.aborted || !isFallbackError(error)) {
+          throw error;
+        }
+        console.warn(`LLM provider ${candidate.provider} (${candidate.model}) failed, falling back:`, errorSummary(error));
+      }
+    }
+  }
+}
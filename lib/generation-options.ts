@@ -0,0 +1,167 @@
+/**
+ * Provider-specific generation options
+ * Sampling, stop sequences, seeds, JSON responses and Ollama's runtime
+ * settings, validated once and mapped to each provider's constructor fields
+ */
+
+import { z } from "zod";
+import type { BuiltInProvider, LLMProvider } from "./llm-providers";
+
+export const generationOptionsSchema = z
+  .object({
+    topP: z.number().gt(0).max(1),
+    topK: z.number().int().positive(),
+    stop: z.array(z.string().min(1)).min(1).max(4),
+    seed: z.number().int(),
+    frequencyPenalty: z.number().min(-2).max(2),
+    presencePenalty: z.number().min(-2).max(2),
+    responseFormat: z.enum(['text', 'json']),
+    /** Ollama: context window to load the model with */
+    numCtx: z.number().int().positive(),
+    /** Ollama: how long the model stays loaded, e.g. "5m" or seconds; -1 keeps it loaded */
+    keepAlive: z.union([
+      z.string().regex(/^-?\d+(\.\d+)?(ms|s|m|h)?$/, 'Expected a duration such as "5m" or "30s"'),
+      z.number().int(),
+    ]),
+  })
+  .partial()
+  .strict();
+
+export type GenerationOptions = z.infer<typeof generationOptionsSchema>;
+
+export type GenerationOption = keyof GenerationOptions;
+
+// Options every OpenAI-compatible server accepts, including custom providers
+const OPENAI_COMPATIBLE_OPTIONS: GenerationOption[] = [
+  'topP', 'stop', 'seed', 'frequencyPenalty', 'presencePenalty', 'responseFormat',
+];
+
+const PROVIDER_OPTIONS: Record<BuiltInProvider, GenerationOption[]> = {
+  openai: OPENAI_COMPATIBLE_OPTIONS,
+  anthropic: ['topP', 'topK', 'stop'],
+  gemini: ['topP', 'topK', 'stop', 'responseFormat'],
+  openrouter: OPENAI_COMPATIBLE_OPTIONS,
+  ollama: [
+    'topP', 'topK', 'stop', 'seed', 'frequencyPenalty', 'presencePenalty', 'responseFormat', 'numCtx', 'keepAlive',
+  ],
+  // LM Studio only takes JSON schemas, not the plain JSON response format
+  lmstudio: ['topP', 'stop', 'seed', 'frequencyPenalty', 'presencePenalty'],
+  // Accepted and ignored, so requests with options can be tested offline
+  mock: Object.keys(generationOptionsSchema.shape) as GenerationOption[],
+};
+
+export class GenerationOptionsError extends Error {
+  status = 400;
+  code = 'invalid_options' as const;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'GenerationOptionsError';
+  }
+}
+
+/**
+ * Validate the `options` of a request
+ */
+export function parseGenerationOptions(raw: unknown): GenerationOptions | undefined {
+  if (raw === undefined || raw === null) {
+    return undefined;
+  }
+
+  const result = generationOptionsSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+      .join('; ');
+    throw new GenerationOptionsError(`Invalid options: ${issues}`);
+  }
+  return Object.keys(result.data).length > 0 ? result.data : undefined;
+}
+
+/**
+ * Options a provider accepts; custom providers are OpenAI-compatible
+ */
+export function getSupportedOptions(provider: LLMProvider): GenerationOption[] {
+  return PROVIDER_OPTIONS[provider as BuiltInProvider] ?? OPENAI_COMPATIBLE_OPTIONS;
+}
+
+/**
+ * Options that are set but not accepted by the provider
+ */
+export function getUnsupportedOptions(provider: LLMProvider, options?: GenerationOptions): GenerationOption[] {
+  const supported = getSupportedOptions(provider);
+  return (Object.keys(options ?? {}) as GenerationOption[]).filter(option => !supported.includes(option));
+}
+
+export function assertSupportedOptions(provider: LLMProvider, options?: GenerationOptions): void {
+  const unsupported = getUnsupportedOptions(provider, options);
+  if (unsupported.length > 0) {
+    throw new GenerationOptionsError(
+      `Provider ${provider} does not support the option${unsupported.length > 1 ? 's' : ''} ${unsupported.join(', ')}. ` +
+      `Supported options: ${getSupportedOptions(provider).join(', ')}.`
+    );
+  }
+}
+
+/**
+ * The options a provider accepts, for fallbacks that may be other providers
+ */
+export function pickSupportedOptions(provider: LLMProvider, options?: GenerationOptions): GenerationOptions | undefined {
+  if (!options) {
+    return undefined;
+  }
+  const supported = getSupportedOptions(provider);
+  const picked = Object.fromEntries(
+    Object.entries(options).filter(([option]) => supported.includes(option as GenerationOption))
+  );
+  return Object.keys(picked).length > 0 ? picked : undefined;
+}
+
+/**
+ * ChatOpenAI fields, for OpenAI, OpenRouter, LM Studio and custom providers
+ * Seed and response format have no constructor field and go in modelKwargs
+ */
+export function toOpenAIFields(options: GenerationOptions = {}) {
+  const modelKwargs = {
+    ...(options.seed !== undefined && { seed: options.seed }),
+    ...(options.responseFormat === 'json' && { response_format: { type: 'json_object' } }),
+  };
+  return {
+    ...(options.topP !== undefined && { topP: options.topP }),
+    ...(options.frequencyPenalty !== undefined && { frequencyPenalty: options.frequencyPenalty }),
+    ...(options.presencePenalty !== undefined && { presencePenalty: options.presencePenalty }),
+    ...(options.stop && { stop: options.stop }),
+    ...(Object.keys(modelKwargs).length > 0 && { modelKwargs }),
+  };
+}
+
+export function toAnthropicFields(options: GenerationOptions = {}) {
+  return {
+    ...(options.topP !== undefined && { topP: options.topP }),
+    ...(options.topK !== undefined && { topK: options.topK }),
+    ...(options.stop && { stopSequences: options.stop }),
+  };
+}
+
+export function toGeminiFields(options: GenerationOptions = {}) {
+  return {
+    ...(options.topP !== undefined && { topP: options.topP }),
+    ...(options.topK !== undefined && { topK: options.topK }),
+    ...(options.stop && { stopSequences: options.stop }),
+    ...(options.responseFormat === 'json' && { json: true }),
+  };
+}
+
+export function toOllamaFields(options: GenerationOptions = {}) {
+  return {
+    ...(options.topP !== undefined && { topP: options.topP }),
+    ...(options.topK !== undefined && { topK: options.topK }),
+    ...(options.stop && { stop: options.stop }),
+    ...(options.seed !== undefined && { seed: options.seed }),
+    ...(options.frequencyPenalty !== undefined && { frequencyPenalty: options.frequencyPenalty }),
+    ...(options.presencePenalty !== undefined && { presencePenalty: options.presencePenalty }),
+    ...(options.responseFormat === 'json' && { format: 'json' }),
+    ...(options.numCtx !== undefined && { numCtx: options.numCtx }),
+    ...(options.keepAlive !== undefined && { keepAlive: options.keepAlive }),
+  };
+}
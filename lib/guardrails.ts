@@ -0,0 +1,628 @@
+/**
+ * Guardrails for chat input and output
+ * Pre-filters screen what users send and the context retrieved for them
+ * (input size, PII, prompt injection, blocked topics); post-filters screen
+ * what models return (secret and PII leaks, policy rules). Each filter
+ * blocks, redacts or annotates, per route, as configured in a config file.
+ */
+
+import { existsSync, readFileSync, statSync } from "fs";
+import path from "path";
+import { z } from "zod";
+
+import { ApiError } from "./api-errors";
+import type { ChatRequestMessage } from "./api-requests";
+import type { ChatStreamEvent } from "./stream-utils";
+
+const DEFAULT_CONFIG_FILE = 'guardrails.config.json';
+
+// Output is held back this far so matches split across tokens are still caught
+const OUTPUT_HOLD_BACK_CHARS = 200;
+
+const WITHHELD_NOTICE = '[Response withheld by guardrails]';
+
+export type GuardrailAction = 'block' | 'redact' | 'annotate';
+
+/** `context` is text a route adds to the prompt, e.g. retrieved documents */
+export type GuardrailStage = 'input' | 'context' | 'output';
+
+export type GuardrailFilterName =
+  | 'max_input_size'
+  | 'pii'
+  | 'prompt_injection'
+  | 'blocked_topic'
+  | 'secrets'
+  | 'policy';
+
+/**
+ * What a filter did. The matched text itself is never part of a decision,
+ * so decisions can be logged and sent to clients.
+ */
+export interface GuardrailDecision {
+  stage: GuardrailStage;
+  filter: GuardrailFilterName;
+  action: GuardrailAction;
+  reason: string;
+  /** Number of matches */
+  count: number;
+}
+
+const actionSchema = z.enum(['block', 'redact', 'annotate', 'off']);
+
+const ruleSchema = z.object({
+  name: z.string().min(1),
+  /** Regular expressions, matched case-insensitively */
+  patterns: z
+    .array(
+      z.string().min(1).refine(pattern => {
+        try {
+          new RegExp(pattern, 'gi');
+          return true;
+        } catch {
+          return false;
+        }
+      }, 'Invalid regular expression')
+    )
+    .min(1),
+  action: z.enum(['block', 'redact', 'annotate']).optional(),
+});
+
+const inputSettingsSchema = z.object({
+  /** Longer messages are rejected; null for no limit */
+  maxInputChars: z.number().int().positive().nullable(),
+  pii: actionSchema,
+  promptInjection: actionSchema,
+  /** Rules block unless they name another action */
+  blockedTopics: z.array(ruleSchema),
+});
+
+const outputSettingsSchema = z.object({
+  secrets: actionSchema,
+  pii: actionSchema,
+  /** Rules annotate unless they name another action */
+  policies: z.array(ruleSchema),
+});
+
+const settingsOverrideSchema = z.object({
+  input: inputSettingsSchema.partial().optional(),
+  output: outputSettingsSchema.partial().optional(),
+});
+
+const guardrailsFileSchema = settingsOverrideSchema.extend({
+  /** Overrides keyed by route, e.g. "/api/chat/agents" */
+  routes: z.record(z.string(), settingsOverrideSchema).default({}),
+});
+
+export interface GuardrailSettings {
+  input: z.infer<typeof inputSettingsSchema>;
+  output: z.infer<typeof outputSettingsSchema>;
+}
+
+type GuardrailsFile = z.infer<typeof guardrailsFileSchema>;
+
+export const DEFAULT_GUARDRAIL_SETTINGS: GuardrailSettings = {
+  input: {
+    maxInputChars: 1_000_000,
+    pii: 'annotate',
+    promptInjection: 'annotate',
+    blockedTopics: [],
+  },
+  output: {
+    secrets: 'redact',
+    pii: 'annotate',
+    policies: [],
+  },
+};
+
+let loaded: { file: string; mtimeMs: number; config: GuardrailsFile | undefined } | undefined;
+
+/**
+ * Location of the guardrail config, `GUARDRAILS_CONFIG` or
+ * `guardrails.config.json` in the working directory
+ */
+export function getGuardrailsFile(): string {
+  return path.resolve(process.cwd(), process.env.GUARDRAILS_CONFIG || DEFAULT_CONFIG_FILE);
+}
+
+function parseGuardrailsFile(file: string): GuardrailsFile | undefined {
+  try {
+    const result = guardrailsFileSchema.safeParse(JSON.parse(readFileSync(file, 'utf-8')));
+    if (!result.success) {
+      console.error(`Ignoring guardrail config ${file}: ${result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+      return undefined;
+    }
+    return result.data;
+  } catch (error) {
+    console.error(`Ignoring guardrail config ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return undefined;
+  }
+}
+
+function loadGuardrailsFile(): GuardrailsFile | undefined {
+  const file = getGuardrailsFile();
+  if (!existsSync(file)) {
+    loaded = undefined;
+    return undefined;
+  }
+
+  const { mtimeMs } = statSync(file);
+  if (!loaded || loaded.file !== file || loaded.mtimeMs !== mtimeMs) {
+    loaded = { file, mtimeMs, config: parseGuardrailsFile(file) };
+  }
+  return loaded.config;
+}
+
+/**
+ * The guardrail settings of a route: the defaults, the config file's
+ * settings and the file's overrides for the route, merged in that order.
+ * The file is read again whenever it changes.
+ */
+export function getGuardrailSettings(route: string): GuardrailSettings {
+  const config = loadGuardrailsFile();
+  const override = config?.routes[route];
+  return {
+    input: { ...DEFAULT_GUARDRAIL_SETTINGS.input, ...config?.input, ...override?.input },
+    output: { ...DEFAULT_GUARDRAIL_SETTINGS.output, ...config?.output, ...override?.output },
+  };
+}
+
+interface GuardrailMatch {
+  start: number;
+  end: number;
+  reason: string;
+  /** Text a redaction puts in place of the match */
+  replacement: string;
+}
+
+interface GuardrailFilter {
+  name: GuardrailFilterName;
+  action: GuardrailAction;
+  find(text: string): GuardrailMatch[];
+}
+
+interface PatternRule {
+  reason: string;
+  pattern: RegExp;
+  replacement: string;
+  /** Checks a match beyond the pattern, e.g. a card number's checksum */
+  accept?: (match: string) => boolean;
+}
+
+function passesLuhnCheck(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+const PII_RULES: PatternRule[] = [
+  {
+    reason: 'email address',
+    pattern: /[A-Z0-9._%+-]+@[A-Z0-9-]+(?:\.[A-Z0-9-]+)*\.[A-Z]{2,}/gi,
+    replacement: '[EMAIL]',
+  },
+  {
+    reason: 'payment card number',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    replacement: '[CARD_NUMBER]',
+    accept: passesLuhnCheck,
+  },
+  { reason: 'US social security number', pattern: /\b\d{3}-\d{2}-\d{4}\b/g, replacement: '[SSN]' },
+  {
+    reason: 'phone number',
+    // A country code or separators are required; bare digit runs are usually ids or amounts
+    pattern: /(?<![\w+])(?:\+\d{1,3}[ .-]?(?:\(\d{3}\)|\d{3})[ .-]?\d{3}[ .-]?\d{4}|(?:\(\d{3}\) ?|\d{3}[ .-])\d{3}[ .-]\d{4})\b/g,
+    replacement: '[PHONE]',
+  },
+];
+
+const SECRET_RULES: PatternRule[] = [
+  { reason: 'API key', pattern: /\bsk-[A-Za-z0-9_-]{20,}/g, replacement: '[SECRET]' },
+  { reason: 'AWS access key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g, replacement: '[SECRET]' },
+  { reason: 'GitHub token', pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g, replacement: '[SECRET]' },
+  { reason: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g, replacement: '[SECRET]' },
+  { reason: 'Slack token', pattern: /\bxox[abpors]-[A-Za-z0-9-]{10,}/g, replacement: '[SECRET]' },
+  { reason: 'JSON web token', pattern: /\beyJ[\w-]{10,}\.eyJ[\w-]{10,}\.[\w-]{10,}/g, replacement: '[SECRET]' },
+  { reason: 'private key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----/g, replacement: '[SECRET]' },
+];
+
+// Common phrasings of attempts to override the system prompt
+const PROMPT_INJECTION_RULES: PatternRule[] = [
+  {
+    reason: 'instruction override',
+    pattern: /\b(?:ignore|disregard|forget)\s+(?:all\s+|any\s+)?(?:of\s+)?(?:the\s+|your\s+)?(?:previous|prior|above|earlier|system)\s+(?:instructions|prompts?|messages|rules|directions)/gi,
+    replacement: '[REMOVED]',
+  },
+  {
+    reason: 'system prompt extraction',
+    pattern: /\b(?:reveal|show|print|repeat|output|leak)\s+(?:me\s+)?(?:your|the)\s+(?:system\s+prompt|hidden\s+instructions|initial\s+prompt|original\s+instructions)/gi,
+    replacement: '[REMOVED]',
+  },
+  {
+    reason: 'jailbreak persona',
+    pattern: /\byou\s+are\s+now\s+(?:in\s+)?(?:DAN|developer\s+mode|jailbroken|unrestricted|unfiltered)|\bdo\s+anything\s+now\b/gi,
+    replacement: '[REMOVED]',
+  },
+  {
+    reason: 'chat template markup',
+    pattern: /<\|?(?:im_start|im_end|system)\|?>|\[\/?INST\]/gi,
+    replacement: '[REMOVED]',
+  },
+];
+
+function findPatterns(rules: PatternRule[], text: string): GuardrailMatch[] {
+  return rules.flatMap(rule =>
+    Array.from(text.matchAll(rule.pattern))
+      .filter(match => !rule.accept || rule.accept(match[0]))
+      .map(match => ({
+        start: match.index!,
+        end: match.index! + match[0].length,
+        reason: rule.reason,
+        replacement: rule.replacement,
+      }))
+  );
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function patternFilter(name: GuardrailFilterName, action: GuardrailAction, rules: PatternRule[]): GuardrailFilter {
+  return { name, action, find: text => findPatterns(rules, text) };
+}
+
+// Configured rules become one filter per action
+function ruleFilters(
+  name: GuardrailFilterName,
+  rules: z.infer<typeof ruleSchema>[],
+  defaultAction: GuardrailAction
+): GuardrailFilter[] {
+  return (['block', 'redact', 'annotate'] as const)
+    .map(action => {
+      const patterns: PatternRule[] = rules
+        .filter(rule => (rule.action ?? defaultAction) === action)
+        .flatMap(rule =>
+          rule.patterns.map(pattern => ({
+            reason: rule.name,
+            pattern: new RegExp(pattern, 'gi'),
+            replacement: '[REMOVED]',
+          }))
+        );
+      return patterns.length > 0 ? patternFilter(name, action, patterns) : undefined;
+    })
+    .filter((filter): filter is GuardrailFilter => filter !== undefined);
+}
+
+function buildInputFilters(settings: GuardrailSettings['input'], stage: GuardrailStage): GuardrailFilter[] {
+  const filters: GuardrailFilter[] = [];
+  const { maxInputChars } = settings;
+  // Retrieved documents are sized by the route, not the user
+  if (maxInputChars && stage === 'input') {
+    filters.push({
+      name: 'max_input_size',
+      action: 'block',
+      find: text =>
+        text.length > maxInputChars
+          ? [{ start: maxInputChars, end: text.length, reason: `longer than ${maxInputChars} characters`, replacement: '' }]
+          : [],
+    });
+  }
+  if (settings.pii !== 'off') {
+    filters.push(patternFilter('pii', settings.pii, PII_RULES));
+  }
+  if (settings.promptInjection !== 'off') {
+    filters.push(patternFilter('prompt_injection', settings.promptInjection, PROMPT_INJECTION_RULES));
+  }
+  return [...filters, ...ruleFilters('blocked_topic', settings.blockedTopics, 'block')];
+}
+
+function buildOutputFilters(settings: GuardrailSettings['output'], secrets: string[]): GuardrailFilter[] {
+  const filters: GuardrailFilter[] = [];
+  if (settings.secrets !== 'off') {
+    // Keys the server holds are caught verbatim, whatever their format
+    const knownSecrets: PatternRule[] = secrets
+      .filter(secret => secret.length >= 8)
+      .map(secret => ({ reason: 'API key', pattern: new RegExp(escapeRegExp(secret), 'g'), replacement: '[SECRET]' }));
+    filters.push(patternFilter('secrets', settings.secrets, [...knownSecrets, ...SECRET_RULES]));
+  }
+  if (settings.pii !== 'off') {
+    filters.push(patternFilter('pii', settings.pii, PII_RULES));
+  }
+  return [...filters, ...ruleFilters('policy', settings.policies, 'annotate')];
+}
+
+// API keys from the environment, e.g. OPENAI_API_KEY
+function getEnvironmentSecrets(): string[] {
+  return Object.entries(process.env)
+    .filter(([name, value]) => /_(?:API_KEY|SECRET|TOKEN|PRIVATE_KEY)$/.test(name) && value)
+    .map(([, value]) => value!);
+}
+
+interface ScreenResult {
+  text: string;
+  decisions: GuardrailDecision[];
+  blocked: boolean;
+}
+
+/**
+ * Apply filters to a text: redact matches of redacting filters, count all
+ * matches as decisions, grouped by filter and reason
+ */
+function screenText(text: string, filters: GuardrailFilter[], stage: GuardrailStage): ScreenResult {
+  const matches = filters
+    .flatMap(filter => filter.find(text).map(match => ({ ...match, filter })))
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const decisions = new Map<string, GuardrailDecision>();
+  const redactions: typeof matches = [];
+  for (const match of matches) {
+    const key = `${match.filter.name}:${match.filter.action}:${match.reason}`;
+    const decision = decisions.get(key);
+    if (decision) {
+      decision.count++;
+    } else {
+      decisions.set(key, { stage, filter: match.filter.name, action: match.filter.action, reason: match.reason, count: 1 });
+    }
+    // Overlapping matches are redacted once
+    const previous = redactions[redactions.length - 1];
+    if (match.filter.action === 'redact' && (!previous || match.start >= previous.end)) {
+      redactions.push(match);
+    }
+  }
+
+  let redacted = text;
+  for (const match of redactions.reverse()) {
+    redacted = redacted.slice(0, match.start) + match.replacement + redacted.slice(match.end);
+  }
+
+  return {
+    text: redacted,
+    decisions: Array.from(decisions.values()),
+    blocked: matches.some(match => match.filter.action === 'block'),
+  };
+}
+
+function describeDecision(decision: GuardrailDecision): string {
+  return `${decision.filter} (${decision.reason})`;
+}
+
+/**
+ * A request rejected by an input guardrail
+ */
+export class GuardrailError extends ApiError {
+  constructor(public decisions: GuardrailDecision[]) {
+    const blocking = decisions.filter(decision => decision.action === 'block');
+    super(
+      'guardrail_blocked',
+      `Message blocked by guardrails: ${blocking.map(describeDecision).join(', ')}`,
+      400,
+      blocking.map(decision => ({ path: `guardrails.${decision.filter}`, message: decision.reason }))
+    );
+    this.name = 'GuardrailError';
+  }
+}
+
+function getText(content: ChatRequestMessage['content']): string {
+  return typeof content === 'string'
+    ? content
+    : content.map(part => (part.type === 'text' ? part.text : '')).join('');
+}
+
+/**
+ * The guardrails of one chat request. Routes screen the messages before
+ * building the prompt, any retrieved context before it enters the prompt,
+ * and the model's answer on its way to the client; the decisions are logged
+ * and streamed to the client as `guardrail` events.
+ */
+export class GuardrailPipeline {
+  readonly route: string;
+  readonly settings: GuardrailSettings;
+  private inputFilters: GuardrailFilter[];
+  private contextFilters: GuardrailFilter[];
+  private outputFilters: GuardrailFilter[];
+  /** Every decision made for the request so far */
+  readonly decisions: GuardrailDecision[] = [];
+  // Decisions not yet sent to the client
+  private pending: GuardrailDecision[] = [];
+
+  constructor(options: {
+    route: string;
+    /** Secrets that must not appear in output, e.g. the user's API keys */
+    secrets?: (string | undefined)[];
+  }) {
+    this.route = options.route;
+    this.settings = getGuardrailSettings(options.route);
+    this.inputFilters = buildInputFilters(this.settings.input, 'input');
+    this.contextFilters = buildInputFilters(this.settings.input, 'context');
+    this.outputFilters = buildOutputFilters(this.settings.output, [
+      ...getEnvironmentSecrets(),
+      ...(options.secrets ?? []).filter((secret): secret is string => !!secret),
+    ]);
+  }
+
+  private record(decisions: GuardrailDecision[]): void {
+    for (const decision of decisions) {
+      console.warn(
+        `[guardrails] ${this.route} ${decision.stage}: ${decision.action} ${describeDecision(decision)} x${decision.count}`
+      );
+    }
+    this.decisions.push(...decisions);
+    this.pending.push(...decisions);
+  }
+
+  /**
+   * Screen the messages of a request. The last user message runs through
+   * every input filter and throws a GuardrailError when one blocks it;
+   * earlier user messages were screened when they were sent and only get
+   * their redactions again. Text content parts are screened one by one.
+   */
+  screenMessages<T extends ChatRequestMessage>(messages: T[]): T[] {
+    const lastUserIndex = messages.map(message => message.role).lastIndexOf('user');
+    const decisions: GuardrailDecision[] = [];
+    let blocked = false;
+
+    // Size applies to the whole message, not to each content part
+    if (lastUserIndex >= 0) {
+      const size = screenText(
+        getText(messages[lastUserIndex].content),
+        this.inputFilters.filter(filter => filter.name === 'max_input_size'),
+        'input'
+      );
+      decisions.push(...size.decisions);
+      blocked = size.blocked;
+    }
+    const filters = this.inputFilters.filter(filter => filter.name !== 'max_input_size');
+    const redactingFilters = filters.filter(filter => filter.action === 'redact');
+
+    const screen = (text: string, current: boolean): string => {
+      const result = screenText(text, current ? filters : redactingFilters, 'input');
+      if (current) {
+        decisions.push(...result.decisions);
+        blocked ||= result.blocked;
+      }
+      return result.text;
+    };
+
+    const screened = blocked
+      ? messages
+      : messages.map((message, index) => {
+          if (message.role !== 'user') {
+            return message;
+          }
+          const current = index === lastUserIndex;
+          const content =
+            typeof message.content === 'string'
+              ? screen(message.content, current)
+              : message.content.map(part => (part.type === 'text' ? { ...part, text: screen(part.text, current) } : part));
+          return { ...message, content };
+        });
+
+    this.record(decisions);
+    if (blocked) {
+      throw new GuardrailError(decisions);
+    }
+    return screened;
+  }
+
+  /**
+   * Screen documents a route adds to the prompt, e.g. retrieved ones.
+   * A document a filter blocks is left out instead of failing the request.
+   */
+  screenDocuments<T extends { pageContent: string }>(documents: T[]): T[] {
+    const screened: T[] = [];
+    for (const document of documents) {
+      const result = screenText(document.pageContent, this.contextFilters, 'context');
+      this.record(result.decisions);
+      if (!result.blocked) {
+        screened.push({ ...document, pageContent: result.text });
+      }
+    }
+    return screened;
+  }
+
+  /**
+   * Screen an answer that is complete at once, e.g. CLI output. A blocked
+   * answer is replaced by a notice.
+   */
+  screenAnswer(text: string): string {
+    const result = screenText(text, this.outputFilters, 'output');
+    this.record(result.decisions);
+    return result.blocked ? WITHHELD_NOTICE : result.text;
+  }
+
+  /**
+   * Screen the answer of a chat route. Decisions made so far are sent
+   * first; tokens are held back until the text following them shows no
+   * match could continue. When a filter blocks, the answer stops with a
+   * notice and the upstream generation is cancelled.
+   */
+  async *screenOutput(
+    events: AsyncIterable<ChatStreamEvent> | Iterable<ChatStreamEvent>
+  ): AsyncGenerator<ChatStreamEvent> {
+    let held = '';
+
+    const release = (final: boolean): ScreenResult => {
+      let cut = final ? held.length : held.length - OUTPUT_HOLD_BACK_CHARS;
+      if (cut <= 0) {
+        return { text: '', decisions: [], blocked: false };
+      }
+      if (!final) {
+        // Never split a match, and keep the word being written
+        for (const filter of this.outputFilters) {
+          for (const match of filter.find(held)) {
+            if (match.start < cut && match.end >= cut) {
+              cut = match.start;
+            }
+          }
+        }
+        const whitespace = held.slice(0, cut).search(/\s\S*$/);
+        if (whitespace > 0) {
+          cut = whitespace;
+        }
+      }
+      const result = screenText(held.slice(0, cut), this.outputFilters, 'output');
+      held = held.slice(cut);
+      this.record(result.decisions);
+      return result;
+    };
+
+    yield* this.pendingEvents();
+    for await (const event of events) {
+      if (event.type === 'token') {
+        held += event.text;
+      }
+      // Tool activity and sources follow the text streamed before them
+      const released = release(event.type !== 'token');
+      yield* this.emit(released);
+      if (released.blocked) {
+        return;
+      }
+      if (event.type !== 'token') {
+        yield event;
+      }
+    }
+    yield* this.emit(release(true));
+  }
+
+  private *emit(released: ScreenResult): Generator<ChatStreamEvent> {
+    yield* this.pendingEvents();
+    if (released.blocked) {
+      yield { type: 'token', text: `\n\n${WITHHELD_NOTICE}` };
+    } else if (released.text) {
+      yield { type: 'token', text: released.text };
+    }
+  }
+
+  /**
+   * Decisions not yet sent, as events, e.g. ahead of an answer that is
+   * complete at once
+   */
+  *pendingEvents(): Generator<ChatStreamEvent> {
+    const decisions = this.pending;
+    this.pending = [];
+    for (const decision of decisions) {
+      yield { type: 'guardrail', decision };
+    }
+  }
+}
+
+/**
+ * Response headers summarizing the decisions made before the response
+ * started, e.g. `x-guardrails: input:pii:redact`
+ */
+export function getGuardrailHeaders(guardrails: GuardrailPipeline): Record<string, string> {
+  if (guardrails.decisions.length === 0) {
+    return {};
+  }
+  const summary = new Set(
+    guardrails.decisions.map(decision => `${decision.stage}:${decision.filter}:${decision.action}`)
+  );
+  return { 'x-guardrails': Array.from(summary).join(',') };
+}
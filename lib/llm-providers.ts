@@ -1,20 +1,64 @@
 /**
  * Multi-provider LLM abstraction layer
- * Supports OpenAI, Anthropic, Google Gemini, OpenRouter, Ollama, and LM Studio
+ * Supports OpenAI, Anthropic, Google Gemini, OpenRouter, Ollama, and LM Studio,
+ * plus custom OpenAI-compatible providers declared in a config file and a
+ * fixture-driven mock provider for offline development and tests
  */
 
-import { ChatOpenAI } from "@langchain/openai";
+import { ChatOpenAI, OpenAIEmbeddings } from "@langchain/openai";
 import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import type { Embeddings } from "@langchain/core/embeddings";
+import { FallbackChatModel } from "./fallback-chat-model";
+import { discoverModels } from "./model-discovery";
+import { checkProviderHealth, type HealthCheckOptions } from "./provider-health";
+import type { UserApiKeys } from "./user-api-keys";
+import { getCustomProviders, type CustomProviderConfig } from "./custom-providers";
+import { CachedChatModel, getResponseCacheStore } from "./response-cache";
+import { RateLimitedChatModel } from "./rate-limited-chat-model";
+import { MockChatModel } from "./mock-chat-model";
+import {
+  findCompatibleModels,
+  getMissingCapabilities,
+  getModelCapabilities,
+  ModelCapabilityError,
+  type ModelCapability,
+} from "./model-capabilities";
+import {
+  assertSupportedOptions,
+  parseGenerationOptions,
+  pickSupportedOptions,
+  toAnthropicFields,
+  toGeminiFields,
+  toOllamaFields,
+  toOpenAIFields,
+  type GenerationOptions,
+} from "./generation-options";
 
-export type LLMProvider = 'openai' | 'anthropic' | 'gemini' | 'openrouter' | 'ollama' | 'lmstudio';
+export type BuiltInProvider = 'openai' | 'anthropic' | 'gemini' | 'openrouter' | 'ollama' | 'lmstudio' | 'mock';
+
+/** A built-in provider or the name of a custom provider from the config file */
+export type LLMProvider = BuiltInProvider | (string & {});
+
+export interface ProviderModel {
+  provider: LLMProvider;
+  model: string;
+}
 
 export interface LLMConfig {
   provider: LLMProvider;
   model: string;
   temperature?: number;
   maxTokens?: number;
+  /** Provider-specific generation options, validated against the provider */
+  options?: GenerationOptions;
   apiKey?: string;
   baseURL?: string;
+  /** Ordered provider/model pairs tried when the primary is rate limited, failing or unreachable */
+  fallbacks?: ProviderModel[];
+  /** Keys supplied by the user for this request, used instead of the environment variables */
+  apiKeys?: UserApiKeys;
+  /** Set to false to bypass the response cache for this request */
+  cache?: boolean;
 }
 
 export interface ProviderConfig {
@@ -23,12 +67,28 @@ export interface ProviderConfig {
   requiresApiKey: boolean;
   supportsStreaming: boolean;
   baseURL?: string;
+  /** Set for providers declared in the custom provider config file */
+  custom?: boolean;
+}
+
+/**
+ * A request names a provider or model that does not exist
+ */
+export class ProviderConfigError extends Error {
+  status = 400;
+  code = 'invalid_provider' as const;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderConfigError';
+  }
 }
 
 /**
  * Provider configurations for each supported LLM provider
+ * The model lists are an offline fallback; live lists come from model discovery
  */
-export const PROVIDER_CONFIGS: Record<LLMProvider, ProviderConfig> = {
+export const PROVIDER_CONFIGS: Record<BuiltInProvider, ProviderConfig> = {
   openai: {
     models: [
       'gpt-4o', 'gpt-4o-mini', 'gpt-4-turbo', 'gpt-4', 'gpt-3.5-turbo'
@@ -88,43 +148,246 @@ export const PROVIDER_CONFIGS: Record<LLMProvider, ProviderConfig> = {
     supportsStreaming: true,
     baseURL: 'http://localhost:1234/v1',
   },
+  mock: {
+    models: [
+      'mock-model' // Answers come from the LLM_MOCK_FIXTURES file
+    ],
+    defaultModel: 'mock-model',
+    requiresApiKey: false,
+    supportsStreaming: true,
+  },
+};
+
+// Servers on the user's machine, whose models depend on what was pulled or loaded
+const LOCAL_PROVIDERS = new Set<LLMProvider>(['ollama', 'lmstudio']);
+
+export function isBuiltInProvider(provider: string): provider is BuiltInProvider {
+  return Object.prototype.hasOwnProperty.call(PROVIDER_CONFIGS, provider);
+}
+
+/**
+ * Check whether a provider is built in or declared in the custom provider config
+ */
+export function isSupportedProvider(provider: string): provider is LLMProvider {
+  return isBuiltInProvider(provider) || getCustomProviders().has(provider);
+}
+
+/**
+ * Get the configuration of a built-in or custom provider
+ */
+export function getProviderConfig(provider: LLMProvider): ProviderConfig {
+  if (isBuiltInProvider(provider)) {
+    return PROVIDER_CONFIGS[provider];
+  }
+  const customConfig = getCustomProviders().get(provider);
+  if (!customConfig) {
+    throw new ProviderConfigError(`Unsupported provider: ${provider}`);
+  }
+  return customConfig;
+}
+
+/**
+ * Names of all providers, built-in ones first
+ */
+export function getProviderNames(): LLMProvider[] {
+  return [...Object.keys(PROVIDER_CONFIGS), ...getCustomProviders().keys()];
+}
+
+export interface ModelPricing {
+  /** USD per million input tokens */
+  input: number;
+  /** USD per million output tokens */
+  output: number;
+}
+
+/**
+ * List prices for hosted models, used for cost accounting
+ * Local providers (Ollama, LM Studio) and OpenRouter `:free` models cost nothing
+ */
+export const MODEL_PRICING: Partial<Record<LLMProvider, Record<string, ModelPricing>>> = {
+  openai: {
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4-turbo': { input: 10, output: 30 },
+    'gpt-4': { input: 30, output: 60 },
+    'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  },
+  anthropic: {
+    'claude-3-5-sonnet-20241022': { input: 3, output: 15 },
+    'claude-3-5-haiku-20241022': { input: 0.8, output: 4 },
+    'claude-3-opus-20240229': { input: 15, output: 75 },
+    'claude-3-sonnet-20240229': { input: 3, output: 15 },
+    'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+  },
+  gemini: {
+    'gemini-2.0-flash-exp': { input: 0, output: 0 },
+    'gemini-1.5-pro': { input: 1.25, output: 5 },
+    'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+    'gemini-1.0-pro': { input: 0.5, output: 1.5 },
+  },
+  openrouter: {
+    'meta-llama/llama-3.2-90b-vision-instruct': { input: 0.35, output: 0.4 },
+    'anthropic/claude-3.5-sonnet': { input: 3, output: 15 },
+    'openai/gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'google/gemini-2.0-flash-exp': { input: 0, output: 0 },
+    'qwen/qwen-2.5-72b-instruct': { input: 0.35, output: 0.4 },
+  },
 };
 
+/**
+ * Estimate the cost of a call in USD, or undefined when the model has no known price
+ */
+export function estimateCost(
+  provider: LLMProvider,
+  model: string,
+  usage: { inputTokens: number; outputTokens: number }
+): number | undefined {
+  if (!isSupportedProvider(provider)) {
+    return undefined;
+  }
+  if (!getProviderConfig(provider).requiresApiKey || model.endsWith(':free')) {
+    return 0;
+  }
+
+  const pricing = MODEL_PRICING[provider]?.[model];
+  if (!pricing) {
+    return undefined;
+  }
+
+  return (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000;
+}
+
 /**
  * Get the appropriate environment variable key for a provider
  */
-function getProviderApiKeyEnvVar(provider: LLMProvider): string {
-  const envVars: Record<LLMProvider, string> = {
+export function getProviderApiKeyEnvVar(provider: LLMProvider): string {
+  if (!isBuiltInProvider(provider)) {
+    return getCustomProviders().get(provider)?.apiKeyEnvVar ?? '';
+  }
+
+  const envVars: Record<BuiltInProvider, string> = {
     openai: 'OPENAI_API_KEY',
     anthropic: 'ANTHROPIC_API_KEY',
     gemini: 'GOOGLE_API_KEY',
     openrouter: 'OPENROUTER_API_KEY',
     ollama: '', // No API key needed
     lmstudio: '', // No API key needed
+    mock: '', // No API key needed
   };
   return envVars[provider];
 }
 
+/**
+ * Resolve the API key for a provider: the user's own key when supplied,
+ * otherwise the provider's environment variable
+ */
+export function resolveProviderApiKey(provider: LLMProvider, userApiKey?: string): string | undefined {
+  if (userApiKey) {
+    return userApiKey;
+  }
+  const envVar = getProviderApiKeyEnvVar(provider);
+  return envVar ? process.env[envVar] : undefined;
+}
+
 /**
  * Create a chat model instance for the specified provider and configuration
- * Uses dynamic imports to avoid build-time dependency issues
+ * When fallbacks are configured, the returned model moves down the chain on
+ * rate limits, server errors and refused connections. When LLM_CACHE is set,
+ * identical requests are answered from the response cache.
  */
 export async function createChatModel(config: LLMConfig): Promise<BaseChatModel> {
-  const providerConfig = PROVIDER_CONFIGS[config.provider];
-  
-  // Validate model
-  if (!providerConfig.models.includes(config.model)) {
-    throw new Error(`Model ${config.model} not supported by provider ${config.provider}`);
+  const model = config.fallbacks?.length
+    ? await createFallbackChatModel(config)
+    : await instantiateChatModel(config);
+
+  const cacheStore = getResponseCacheStore();
+  if (!cacheStore || config.cache === false) {
+    return model;
   }
+  return new CachedChatModel({ model, store: cacheStore, config });
+}
+
+async function createFallbackChatModel(config: LLMConfig): Promise<FallbackChatModel> {
+  const chain: ProviderModel[] = [
+    { provider: config.provider, model: config.model },
+    ...(config.fallbacks ?? []),
+  ];
+  const candidates = await Promise.all(
+    chain.map(async ({ provider, model }, index) => ({
+      provider,
+      model,
+      chatModel: await instantiateChatModel(
+        index === 0
+          ? { ...config, fallbacks: undefined }
+          : {
+              provider,
+              model,
+              temperature: config.temperature,
+              maxTokens: config.maxTokens,
+              // Fallbacks may be other providers; options they do not accept are left out
+              options: pickSupportedOptions(provider, config.options),
+              apiKeys: config.apiKeys,
+            }
+      ),
+    }))
+  );
+
+  return new FallbackChatModel({ candidates });
+}
 
-  // Get API key from environment if not provided
-  let apiKey = config.apiKey;
+/**
+ * Report which provider and model produced the latest response of a model
+ * returned by createChatModel. For fallback chains this is only known once
+ * generation has started.
+ */
+export function getRespondingModel(model: BaseChatModel, config: ProviderModel): ProviderModel {
+  if ((model instanceof FallbackChatModel || model instanceof CachedChatModel) && model.respondedWith) {
+    return model.respondedWith;
+  }
+  return { provider: config.provider, model: config.model };
+}
+
+/**
+ * Instantiate a single provider's chat model behind the provider's rate limiter
+ */
+async function instantiateChatModel(config: LLMConfig): Promise<BaseChatModel> {
+  const servedConfig = await resolveServedModel(config);
+  const chatModel = await instantiateProviderChatModel(servedConfig);
+  return new RateLimitedChatModel({ provider: servedConfig.provider, model: servedConfig.model, chatModel });
+}
+
+/**
+ * Check the model against the models the provider currently serves, or its
+ * static list when discovery fails. Local servers name their models after
+ * what was pulled or loaded, so their configured default stands for the
+ * first model they serve.
+ */
+async function resolveServedModel(config: LLMConfig): Promise<LLMConfig> {
+  const { models } = await discoverModels(config.provider, { apiKey: config.apiKeys?.[config.provider] });
+  if (models.includes(config.model)) {
+    return config;
+  }
+  if (LOCAL_PROVIDERS.has(config.provider) && config.model === getProviderConfig(config.provider).defaultModel) {
+    return { ...config, model: models[0] };
+  }
+  throw new ProviderConfigError(`Model ${config.model} not supported by provider ${config.provider}`);
+}
+
+/**
+ * Instantiate the provider's own chat model class
+ * Uses dynamic imports to avoid build-time dependency issues
+ * Client retries are disabled: RateLimitedChatModel retries with backoff instead
+ */
+async function instantiateProviderChatModel(config: LLMConfig): Promise<BaseChatModel> {
+  const providerConfig = getProviderConfig(config.provider);
+  
+  const userApiKey = config.apiKeys?.[config.provider];
+
+  // Prefer an explicit key, then the user's own key, then the environment
+  const apiKey = config.apiKey || resolveProviderApiKey(config.provider, userApiKey);
   if (providerConfig.requiresApiKey && !apiKey) {
     const envVar = getProviderApiKeyEnvVar(config.provider);
-    apiKey = process.env[envVar];
-    if (!apiKey) {
-      throw new Error(`API key required for ${config.provider}. Set ${envVar} environment variable.`);
-    }
+    throw new Error(`API key required for ${config.provider}. Set ${envVar} environment variable.`);
   }
 
   // Determine base URL
@@ -135,8 +398,10 @@ export async function createChatModel(config: LLMConfig): Promise<BaseChatModel>
       case 'openai':
         return new ChatOpenAI({
           model: config.model,
+          maxRetries: 0,
           temperature: config.temperature ?? 0.7,
           maxTokens: config.maxTokens,
+          ...toOpenAIFields(config.options),
           apiKey,
         });
 
@@ -146,8 +411,10 @@ export async function createChatModel(config: LLMConfig): Promise<BaseChatModel>
           const { ChatAnthropic } = await import("@langchain/anthropic");
           return new ChatAnthropic({
             model: config.model,
+            maxRetries: 0,
             temperature: config.temperature ?? 0.7,
             maxTokens: config.maxTokens,
+            ...toAnthropicFields(config.options),
             apiKey,
           });
         } catch (error) {
@@ -160,8 +427,10 @@ export async function createChatModel(config: LLMConfig): Promise<BaseChatModel>
           const { ChatGoogleGenerativeAI } = await import("@langchain/google-genai");
           return new ChatGoogleGenerativeAI({
             model: config.model,
+            maxRetries: 0,
             temperature: config.temperature ?? 0.7,
             maxOutputTokens: config.maxTokens,
+            ...toGeminiFields(config.options),
             apiKey,
           });
         } catch (error) {
@@ -172,8 +441,10 @@ export async function createChatModel(config: LLMConfig): Promise<BaseChatModel>
         // Use OpenAI interface with custom base URL
         return new ChatOpenAI({
           model: config.model,
+          maxRetries: 0,
           temperature: config.temperature ?? 0.7,
           maxTokens: config.maxTokens,
+          ...toOpenAIFields(config.options),
           apiKey,
           configuration: {
             baseURL,
@@ -186,7 +457,10 @@ export async function createChatModel(config: LLMConfig): Promise<BaseChatModel>
           const { ChatOllama } = await import("@langchain/ollama");
           return new ChatOllama({
             model: config.model,
+            maxRetries: 0,
             temperature: config.temperature ?? 0.7,
+            numPredict: config.maxTokens,
+            ...toOllamaFields(config.options),
             baseUrl: baseURL,
           });
         } catch (error) {
@@ -197,15 +471,23 @@ export async function createChatModel(config: LLMConfig): Promise<BaseChatModel>
         // Use OpenAI interface with LM Studio's local server
         return new ChatOpenAI({
           model: config.model,
+          maxRetries: 0,
           temperature: config.temperature ?? 0.7,
           maxTokens: config.maxTokens,
+          ...toOpenAIFields(config.options),
           apiKey: 'lm-studio', // LM Studio requires any non-empty key
           configuration: {
             baseURL,
           },
         });
 
+      case 'mock':
+        return new MockChatModel({ model: config.model });
+
       default:
+        if (providerConfig.custom) {
+          return instantiateCustomChatModel(config, providerConfig as CustomProviderConfig, apiKey);
+        }
         throw new Error(`Unsupported provider: ${config.provider}`);
     }
   } catch (error) {
@@ -216,77 +498,318 @@ export async function createChatModel(config: LLMConfig): Promise<BaseChatModel>
   }
 }
 
+/**
+ * Custom providers go through the OpenAI-compatible path, with the
+ * provider's default parameters filling in anything the request leaves out
+ */
+function instantiateCustomChatModel(
+  config: LLMConfig,
+  providerConfig: CustomProviderConfig,
+  apiKey?: string
+): BaseChatModel {
+  const defaults = providerConfig.defaultParams;
+  return new ChatOpenAI({
+    model: config.model,
+    maxRetries: 0,
+    temperature: config.temperature ?? defaults.temperature ?? 0.7,
+    maxTokens: config.maxTokens ?? defaults.maxTokens,
+    topP: defaults.topP,
+    frequencyPenalty: defaults.frequencyPenalty,
+    presencePenalty: defaults.presencePenalty,
+    ...toOpenAIFields(config.options),
+    // The OpenAI client requires a key even for servers without authentication
+    apiKey: apiKey || 'not-needed',
+    // Servers without streaming support answer in one chunk
+    disableStreaming: !providerConfig.supportsStreaming,
+    configuration: {
+      baseURL: config.baseURL || providerConfig.baseURL,
+    },
+  });
+}
+
+export interface EmbeddingsConfig {
+  provider: LLMProvider;
+  model: string;
+  baseURL?: string;
+  /** Keys supplied by the user for this request, used instead of the environment variables */
+  apiKeys?: UserApiKeys;
+}
+
+/**
+ * Default embedding model per provider; providers without an entry (and without
+ * an `embeddingModel` in the custom provider config) need the model named explicitly.
+ * OpenAI keeps ada-002 so collections ingested before models were recorded still match.
+ */
+export const DEFAULT_EMBEDDING_MODELS: Partial<Record<BuiltInProvider, string>> = {
+  openai: 'text-embedding-ada-002',
+  gemini: 'text-embedding-004',
+  ollama: 'nomic-embed-text',
+  lmstudio: 'text-embedding-nomic-embed-text-v1.5',
+};
+
+// Providers without an embeddings API
+const PROVIDERS_WITHOUT_EMBEDDINGS: LLMProvider[] = ['anthropic', 'openrouter', 'mock'];
+
+/**
+ * Identifier recorded with stored vectors, e.g. `ollama:nomic-embed-text`
+ */
+export function getEmbeddingsId(config: Pick<EmbeddingsConfig, 'provider' | 'model'>): string {
+  return `${config.provider}:${config.model}`;
+}
+
+/**
+ * Create an embeddings instance for the specified provider and model
+ * Uses dynamic imports to avoid build-time dependency issues
+ */
+export async function createEmbeddings(config: EmbeddingsConfig): Promise<Embeddings> {
+  if (PROVIDERS_WITHOUT_EMBEDDINGS.includes(config.provider)) {
+    throw new ProviderConfigError(`Embeddings not supported by provider ${config.provider}`);
+  }
+
+  const providerConfig = getProviderConfig(config.provider);
+  const apiKey = resolveProviderApiKey(config.provider, config.apiKeys?.[config.provider]);
+  if (providerConfig.requiresApiKey && !apiKey) {
+    const envVar = getProviderApiKeyEnvVar(config.provider);
+    throw new Error(`API key required for ${config.provider}. Set ${envVar} environment variable.`);
+  }
+
+  const baseURL = config.baseURL || providerConfig.baseURL;
+
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAIEmbeddings({ model: config.model, apiKey });
+
+    case 'gemini':
+      try {
+        const { GoogleGenerativeAIEmbeddings } = await import("@langchain/google-genai");
+        return new GoogleGenerativeAIEmbeddings({ model: config.model, apiKey });
+      } catch (error) {
+        throw new Error(`Failed to load Gemini embeddings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+    case 'ollama':
+      try {
+        const { OllamaEmbeddings } = await import("@langchain/ollama");
+        return new OllamaEmbeddings({ model: config.model, baseUrl: baseURL });
+      } catch (error) {
+        throw new Error(`Failed to load Ollama embeddings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+    default:
+      // LM Studio and custom providers expose OpenAI-compatible /embeddings endpoints
+      return new OpenAIEmbeddings({
+        model: config.model,
+        apiKey: apiKey || 'not-needed',
+        configuration: { baseURL },
+      });
+  }
+}
+
+/**
+ * Parse the embeddings configuration from the request (`embeddingProvider`,
+ * `embeddingModel`), the EMBEDDINGS_PROVIDER / EMBEDDINGS_MODEL environment
+ * variables, or default to OpenAI
+ */
+export function parseEmbeddingsConfig(request?: any, apiKeys?: UserApiKeys): EmbeddingsConfig {
+  const provider = request?.embeddingProvider || process.env.EMBEDDINGS_PROVIDER || 'openai';
+  if (!isSupportedProvider(provider)) {
+    throw new ProviderConfigError(`Unsupported provider: ${provider}`);
+  }
+  if (PROVIDERS_WITHOUT_EMBEDDINGS.includes(provider)) {
+    throw new ProviderConfigError(`Embeddings not supported by provider ${provider}`);
+  }
+
+  const providerConfig = getProviderConfig(provider);
+  const model = request?.embeddingModel
+    || (provider === process.env.EMBEDDINGS_PROVIDER ? process.env.EMBEDDINGS_MODEL : undefined)
+    || (isBuiltInProvider(provider)
+      ? DEFAULT_EMBEDDING_MODELS[provider]
+      : (providerConfig as CustomProviderConfig).embeddingModel);
+  if (!model) {
+    throw new ProviderConfigError(`No default embedding model for provider ${provider}; set embeddingModel`);
+  }
+
+  return {
+    provider,
+    model,
+    ...(apiKeys && Object.keys(apiKeys).length > 0 && { apiKeys }),
+  };
+}
+
 /**
  * Get the default configuration for a provider
  */
 export function getDefaultConfig(provider: LLMProvider): LLMConfig {
-  const providerConfig = PROVIDER_CONFIGS[provider];
+  const providerConfig = getProviderConfig(provider);
   return {
     provider,
     model: providerConfig.defaultModel,
-    temperature: 0.7,
+    temperature: getDefaultTemperature(provider),
   };
 }
 
 /**
- * Parse provider configuration from environment variables or request
+ * Temperature used when a request does not set one
  */
-export function parseProviderConfig(request?: any): LLMConfig {
-  // Check for provider preference in request body
-  const requestProvider = request?.provider as LLMProvider;
-  const requestModel = request?.model as string;
-  
-  // Default to OpenAI if no provider specified
-  let provider: LLMProvider = 'openai';
-  if (requestProvider) {
-    if (!(requestProvider in PROVIDER_CONFIGS)) {
-      throw new Error(`Unsupported provider: ${requestProvider}`);
+function getDefaultTemperature(provider: LLMProvider): number {
+  const providerConfig = getProviderConfig(provider);
+  if (providerConfig.custom) {
+    return (providerConfig as CustomProviderConfig).defaultParams.temperature ?? 0.7;
+  }
+  return 0.7;
+}
+
+/**
+ * Validate a provider, falling back to the provider's default model
+ * Models are checked against the discovered lists once the model is created
+ */
+function resolveProviderModel(provider: string, model?: string): ProviderModel {
+  if (!isSupportedProvider(provider)) {
+    throw new ProviderConfigError(`Unsupported provider: ${provider}`);
+  }
+
+  return {
+    provider,
+    model: model || getProviderConfig(provider).defaultModel,
+  };
+}
+
+/**
+ * Parse a fallback chain from the request or the LLM_FALLBACKS environment variable
+ * The environment variable is a comma-separated list of `provider:model` entries
+ */
+function parseFallbacks(requestFallbacks?: any): ProviderModel[] {
+  if (requestFallbacks !== undefined) {
+    if (!Array.isArray(requestFallbacks)) {
+      throw new ProviderConfigError('Fallbacks must be an array of { provider, model } entries');
     }
-    provider = requestProvider;
+    return requestFallbacks.map((entry) => {
+      if (!entry || typeof entry.provider !== 'string') {
+        throw new ProviderConfigError('Each fallback must have a provider');
+      }
+      return resolveProviderModel(entry.provider, entry.model);
+    });
   }
-  
-  const providerConfig = PROVIDER_CONFIGS[provider];
-  
-  // Validate model if specified
-  if (requestModel && !providerConfig.models.includes(requestModel)) {
-    throw new Error(`Model ${requestModel} not supported by provider ${provider}`);
+
+  const envFallbacks = process.env.LLM_FALLBACKS?.trim();
+  if (!envFallbacks) {
+    return [];
   }
-  
+
+  return envFallbacks.split(',').map((entry) => {
+    // Split on the first colon only, model names such as `qwen/qwen3-coder:free` contain colons
+    const [provider, ...model] = entry.trim().split(':');
+    return resolveProviderModel(provider, model.join(':') || undefined);
+  });
+}
+
+export interface ParseProviderConfigOptions {
+  /** Capabilities the route needs from the model */
+  requires?: ModelCapability[];
+}
+
+/**
+ * Check the requested model against the capabilities a route needs
+ * A model the request named explicitly is rejected; the provider's default
+ * model is swapped for the first compatible model instead
+ */
+function resolveCapableModel(
+  { provider, model }: ProviderModel,
+  requires: ModelCapability[],
+  explicitModel: boolean
+): ProviderModel {
+  const missing = getMissingCapabilities(provider, model, requires);
+  if (missing.length === 0) {
+    return { provider, model };
+  }
+
+  const compatibleModels = findCompatibleModels(provider, getProviderConfig(provider).models, requires);
+  if (explicitModel || compatibleModels.length === 0) {
+    throw ModelCapabilityError.missing(provider, model, missing, compatibleModels);
+  }
+  return { provider, model: compatibleModels[0] };
+}
+
+/**
+ * Provider of requests that do not name one, `DEFAULT_LLM_PROVIDER` or OpenAI
+ */
+export function getDefaultProvider(): string {
+  return process.env.DEFAULT_LLM_PROVIDER?.trim() || 'openai';
+}
+
+/**
+ * Parse provider configuration from environment variables or request
+ * `apiKeys` are the user's own keys, read from the request headers
+ * With `requires`, fallbacks lacking a required capability are left out of the chain
+ * `options` in the request are rejected when the provider does not accept
+ * them; a JSON response format also requires a model with JSON mode
+ */
+export function parseProviderConfig(
+  request?: any,
+  apiKeys?: UserApiKeys,
+  options: ParseProviderConfigOptions = {}
+): LLMConfig {
+  const generationOptions = parseGenerationOptions(request?.options);
+  const requires: ModelCapability[] = [
+    ...(options.requires ?? []),
+    ...(generationOptions?.responseFormat === 'json' ? ['jsonMode' as const] : []),
+  ];
+
+  const { provider, model } = resolveCapableModel(
+    resolveProviderModel(request?.provider || getDefaultProvider(), request?.model),
+    requires,
+    Boolean(request?.model)
+  );
+  const fallbacks = parseFallbacks(request?.fallbacks).filter(
+    (fallback) => getMissingCapabilities(fallback.provider, fallback.model, requires).length === 0
+  );
+
+  assertSupportedOptions(provider, generationOptions);
+
+  const { maxOutputTokens } = getModelCapabilities(provider, model);
+  if (request?.maxTokens > maxOutputTokens) {
+    throw new ModelCapabilityError(
+      `maxTokens ${request.maxTokens} exceeds the ${maxOutputTokens} output tokens of model ${model} of provider ${provider}`
+    );
+  }
+
   return {
     provider,
-    model: requestModel || providerConfig.defaultModel,
-    temperature: request?.temperature ?? 0.7,
+    model,
+    temperature: request?.temperature ?? getDefaultTemperature(provider),
     maxTokens: request?.maxTokens,
+    ...(generationOptions && { options: generationOptions }),
+    ...(fallbacks.length > 0 && { fallbacks }),
+    ...(apiKeys && Object.keys(apiKeys).length > 0 && { apiKeys }),
+    ...(request?.cache === false && { cache: false }),
   };
 }
 
 /**
- * Validate that a provider is available (has required API keys, etc.)
+ * Validate that a provider is available: configured and answering its health probe
  */
-export async function validateProvider(provider: LLMProvider): Promise<boolean> {
-  const providerConfig = PROVIDER_CONFIGS[provider];
-  
-  if (providerConfig.requiresApiKey) {
-    const envVar = getProviderApiKeyEnvVar(provider);
-    return !!process.env[envVar];
-  }
-  
-  // For local providers (Ollama, LM Studio), we could check if the service is running
-  // but for now, we'll assume they're available if configured
-  return true;
+export async function validateProvider(
+  provider: LLMProvider,
+  options: HealthCheckOptions = {}
+): Promise<boolean> {
+  const health = await checkProviderHealth(provider, options);
+  return health.status === 'healthy';
 }
 
 /**
  * Get list of available providers (ones with valid configuration)
+ * Providers are probed in parallel since each check may wait on the network
+ * A provider counts as configured when the user supplied a key for it
  */
-export async function getAvailableProviders(): Promise<LLMProvider[]> {
-  const providers: LLMProvider[] = [];
-  
-  for (const provider of Object.keys(PROVIDER_CONFIGS) as LLMProvider[]) {
-    if (await validateProvider(provider)) {
-      providers.push(provider);
-    }
-  }
+export async function getAvailableProviders(
+  options: { refresh?: boolean; apiKeys?: UserApiKeys } = {}
+): Promise<LLMProvider[]> {
+  const providers = getProviderNames();
+  const availability = await Promise.all(
+    providers.map((provider) =>
+      validateProvider(provider, { refresh: options.refresh, apiKey: options.apiKeys?.[provider] })
+    )
+  );
   
-  return providers;
+  return providers.filter((_, index) => availability[index]);
 }
\ No newline at end of file
@@ -0,0 +1,143 @@
+/**
+ * Multimodal message content
+ * Chat requests may send a message's content as parts instead of a string,
+ * in the shape LangChain chat models accept:
+ * `[{ type: "text", text }, { type: "image_url", image_url: { url } }]`.
+ * Images are base64 data URLs or http(s) URLs.
+ */
+
+import { HumanMessage } from "@langchain/core/messages";
+import type { BasePromptValueInterface } from "@langchain/core/prompt_values";
+import { RunnableLambda } from "@langchain/core/runnables";
+
+export interface TextContentPart {
+  type: 'text';
+  text: string;
+}
+
+export interface ImageContentPart {
+  type: 'image_url';
+  image_url: { url: string };
+}
+
+export type ContentPart = TextContentPart | ImageContentPart;
+
+export type ChatMessageContent = string | ContentPart[];
+
+export const MAX_IMAGES_PER_MESSAGE = 4;
+
+// Decoded size of an image sent as a data URL
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+const IMAGE_DATA_URL_PATTERN = /^data:image\/(png|jpeg|gif|webp);base64,/;
+
+export class MessageContentError extends Error {
+  status = 400;
+  code = 'invalid_message_content' as const;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'MessageContentError';
+  }
+}
+
+function validateImageUrl(url: unknown): string {
+  if (typeof url !== 'string') {
+    throw new MessageContentError('Image parts need an image_url.url');
+  }
+  const dataUrl = IMAGE_DATA_URL_PATTERN.exec(url);
+  if (dataUrl) {
+    const bytes = Math.floor(((url.length - dataUrl[0].length) * 3) / 4);
+    if (bytes > MAX_IMAGE_BYTES) {
+      throw new MessageContentError(`Images must be at most ${MAX_IMAGE_BYTES / 1024 / 1024} MB`);
+    }
+    return url;
+  }
+  if (/^https?:\/\//.test(url)) {
+    return url;
+  }
+  throw new MessageContentError('Images must be PNG, JPEG, GIF or WebP data URLs, or http(s) URLs');
+}
+
+/**
+ * Validate the content of a chat message: a string, or text and image parts
+ */
+export function parseMessageContent(content: unknown): ChatMessageContent {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    throw new MessageContentError('Message content must be a string or an array of content parts');
+  }
+
+  const parts = content.map((part): ContentPart => {
+    if (part?.type === 'text' && typeof part.text === 'string') {
+      return { type: 'text', text: part.text };
+    }
+    if (part?.type === 'image_url') {
+      return { type: 'image_url', image_url: { url: validateImageUrl(part.image_url?.url) } };
+    }
+    throw new MessageContentError(`Unsupported content part: ${part?.type}. Supported parts: text, image_url`);
+  });
+
+  if (parts.filter(part => part.type === 'image_url').length > MAX_IMAGES_PER_MESSAGE) {
+    throw new MessageContentError(`A message can have at most ${MAX_IMAGES_PER_MESSAGE} images`);
+  }
+  return parts;
+}
+
+/**
+ * The text of a message's content, without its images
+ */
+export function getMessageText(content: unknown): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return '';
+  }
+  return content
+    .filter((part): part is TextContentPart => part?.type === 'text' && typeof part.text === 'string')
+    .map(part => part.text)
+    .join('\n');
+}
+
+/**
+ * The validated image parts of a message's content
+ */
+export function getMessageImages(content: unknown): ImageContentPart[] {
+  const parsed = parseMessageContent(content);
+  return typeof parsed === 'string'
+    ? []
+    : parsed.filter((part): part is ImageContentPart => part.type === 'image_url');
+}
+
+export function hasImages(messages: { content?: unknown }[]): boolean {
+  return messages.some(message => getMessageImages(message.content).length > 0);
+}
+
+/**
+ * Reject images on routes whose models only receive text
+ */
+export function assertTextOnly(messages: { content?: unknown }[], route: string): void {
+  if (hasImages(messages)) {
+    throw new MessageContentError(`${route} does not accept image attachments`);
+  }
+}
+
+export function toHumanMessage(content: unknown): HumanMessage {
+  return new HumanMessage({ content: parseMessageContent(content) });
+}
+
+/**
+ * Runnable placed between a string prompt and a chat model that sends the
+ * formatted prompt together with `images` as one multimodal message.
+ * Without images the prompt passes through unchanged.
+ */
+export function attachImages(images: ImageContentPart[]) {
+  return RunnableLambda.from((prompt: BasePromptValueInterface) =>
+    images.length === 0
+      ? prompt
+      : [new HumanMessage({ content: [{ type: 'text', text: prompt.toString() }, ...images] })]
+  );
+}
@@ -0,0 +1,277 @@
+/**
+ * Deterministic mock provider
+ * Answers from a fixture file of rules matched against the prompt, so every
+ * LLM route can run end-to-end without network access or API keys
+ */
+
+import { existsSync, readFileSync, statSync } from "fs";
+import path from "path";
+import { z } from "zod";
+import {
+  BaseChatModel,
+  type BaseChatModelParams,
+  type BindToolsInput,
+} from "@langchain/core/language_models/chat_models";
+import type { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import {
+  AIMessage,
+  AIMessageChunk,
+  type BaseMessage,
+  type MessageContent,
+  type UsageMetadata,
+} from "@langchain/core/messages";
+import type { ToolCall } from "@langchain/core/messages/tool";
+import { ChatGenerationChunk, type ChatResult } from "@langchain/core/outputs";
+import { convertToOpenAITool } from "@langchain/core/utils/function_calling";
+import { sleep } from "./rate-limiter";
+
+const DEFAULT_FIXTURES_FILE = 'tests/fixtures/llm-mock.json';
+
+const DEFAULT_RESPONSE = 'This is a response from the mock provider.';
+
+const mockResponseSchema = z.object({
+  /** Text answer; after tool calls ran, the final answer */
+  response: z.string().optional(),
+  toolCalls: z
+    .array(z.object({ name: z.string().min(1), args: z.record(z.unknown()).default({}) }))
+    .optional(),
+  /** Arguments for the bound structured output tool, or JSON text when no tool is bound */
+  structuredOutput: z.record(z.unknown()).optional(),
+  /** Overrides the fixture-wide delay between streamed tokens */
+  streamDelayMs: z.number().int().min(0).optional(),
+});
+
+function isValidRegex(source: string, flags?: string): boolean {
+  try {
+    new RegExp(source, flags);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const mockRuleSchema = mockResponseSchema
+  .extend({
+    /** Case-insensitive substring of the prompt */
+    contains: z.string().min(1).optional(),
+    regex: z.string().min(1).optional(),
+    flags: z.string().regex(/^[imsu]*$/, 'Supported regex flags are i, m, s and u').optional(),
+  })
+  .refine(rule => rule.contains || rule.regex, 'Rules need `contains` or `regex`')
+  .refine(rule => !rule.regex || isValidRegex(rule.regex, rule.flags), 'Invalid regex')
+  .refine(
+    rule => rule.response !== undefined || rule.toolCalls || rule.structuredOutput,
+    'Rules need `response`, `toolCalls` or `structuredOutput`'
+  );
+
+const mockFixturesSchema = z.object({
+  streamDelayMs: z.number().int().min(0).default(0),
+  rules: z.array(mockRuleSchema).default([]),
+  /** Answer when no rule matches */
+  default: mockResponseSchema.default({ response: DEFAULT_RESPONSE }),
+});
+
+export type MockResponse = z.infer<typeof mockResponseSchema>;
+
+export interface MockRule extends MockResponse {
+  contains?: string;
+  pattern?: RegExp;
+}
+
+export interface MockFixtures {
+  streamDelayMs: number;
+  rules: MockRule[];
+  default: MockResponse;
+}
+
+let loaded: { file: string; mtimeMs: number; fixtures: MockFixtures } | undefined;
+
+/**
+ * Location of the fixtures, `LLM_MOCK_FIXTURES` or tests/fixtures/llm-mock.json
+ */
+export function getMockFixturesFile(): string {
+  return path.resolve(process.cwd(), process.env.LLM_MOCK_FIXTURES || DEFAULT_FIXTURES_FILE);
+}
+
+function parseMockFixtures(file: string): MockFixtures {
+  const result = mockFixturesSchema.safeParse(JSON.parse(readFileSync(file, 'utf-8')));
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || 'fixtures'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid mock fixtures ${file}: ${issues}`);
+  }
+
+  return {
+    ...result.data,
+    rules: result.data.rules.map(({ regex, flags, ...rule }) => ({
+      ...rule,
+      ...(regex && { pattern: new RegExp(regex, flags) }),
+    })),
+  };
+}
+
+/**
+ * Get the mock fixtures; unlike the custom provider registry, a missing or
+ * invalid fixture file is an error, since tests depend on it
+ * The file is read again whenever it changes
+ */
+export function getMockFixtures(): MockFixtures {
+  const file = getMockFixturesFile();
+  if (!existsSync(file)) {
+    throw new Error(`Mock fixtures not found: ${file}. Set LLM_MOCK_FIXTURES.`);
+  }
+
+  const { mtimeMs } = statSync(file);
+  if (!loaded || loaded.file !== file || loaded.mtimeMs !== mtimeMs) {
+    loaded = { file, mtimeMs, fixtures: parseMockFixtures(file) };
+  }
+  return loaded.fixtures;
+}
+
+/**
+ * The first rule matching the prompt, or the fixture default
+ */
+export function findMockResponse(fixtures: MockFixtures, prompt: string): MockResponse {
+  const lowerPrompt = prompt.toLowerCase();
+  return (
+    fixtures.rules.find(rule =>
+      rule.contains
+        ? lowerPrompt.includes(rule.contains.toLowerCase())
+        : rule.pattern!.test(prompt)
+    ) ?? fixtures.default
+  );
+}
+
+// Images read as an [image] marker, so fixture rules can match them
+function contentText(content: MessageContent): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content
+    .map(part => (part.type === 'text' ? (part as { text: string }).text : part.type === 'image_url' ? '[image]' : ''))
+    .join('');
+}
+
+// Rough token estimate so usage tracking has something to count
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export interface MockChatModelParams extends BaseChatModelParams {
+  model: string;
+  /** Names of the tools bound with bindTools */
+  toolNames?: string[];
+}
+
+export class MockChatModel extends BaseChatModel {
+  model: string;
+  toolNames: string[];
+
+  constructor(fields: MockChatModelParams) {
+    super(fields);
+    this.model = fields.model;
+    this.toolNames = fields.toolNames ?? [];
+  }
+
+  _llmType(): string {
+    return 'mock';
+  }
+
+  bindTools(tools: BindToolsInput[]): MockChatModel {
+    return new MockChatModel({
+      model: this.model,
+      toolNames: tools.map(tool => convertToOpenAITool(tool).function.name),
+    });
+  }
+
+  /**
+   * Rules match the latest user message. Once tool results follow it, the
+   * rule answers with its final `response` instead of calling tools again.
+   */
+  private respond(messages: BaseMessage[]): { message: AIMessage; streamDelayMs: number } {
+    const fixtures = getMockFixtures();
+    const lastHumanMessage = [...messages].reverse().find(message => message._getType() === 'human');
+    const prompt = lastHumanMessage ? contentText(lastHumanMessage.content) : '';
+    const rule = findMockResponse(fixtures, prompt);
+    const afterToolResults = messages[messages.length - 1]?._getType() === 'tool';
+
+    let content = '';
+    let toolCalls: ToolCall[] = [];
+    if (afterToolResults) {
+      content = rule.response ?? fixtures.default.response ?? DEFAULT_RESPONSE;
+    } else if (rule.structuredOutput && this.toolNames.length > 0) {
+      toolCalls = [{ name: this.toolNames[0], args: rule.structuredOutput }];
+    } else if (rule.structuredOutput) {
+      content = JSON.stringify(rule.structuredOutput);
+    } else if (rule.toolCalls) {
+      toolCalls = rule.toolCalls.map(({ name, args }) => ({ name, args }));
+    } else {
+      content = rule.response ?? '';
+    }
+
+    const promptText = messages.map(message => contentText(message.content)).join('\n');
+    const outputText = content + toolCalls.map(call => JSON.stringify(call.args)).join('');
+    const usage: UsageMetadata = {
+      input_tokens: estimateTokens(promptText),
+      output_tokens: estimateTokens(outputText),
+      total_tokens: estimateTokens(promptText) + estimateTokens(outputText),
+    };
+
+    return {
+      message: new AIMessage({
+        content,
+        tool_calls: toolCalls.map((call, index) => ({ ...call, id: `call_mock_${index}`, type: 'tool_call' })),
+        usage_metadata: usage,
+        response_metadata: { model_name: this.model },
+      }),
+      streamDelayMs: rule.streamDelayMs ?? fixtures.streamDelayMs,
+    };
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const { message } = this.respond(messages);
+    return {
+      generations: [{ text: contentText(message.content), message }],
+    };
+  }
+
+  /**
+   * Text is streamed word by word with the configured delay; tool calls
+   * arrive in a single chunk
+   */
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun,
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const { message, streamDelayMs } = this.respond(messages);
+    const tokens = contentText(message.content).match(/\S+\s*|\s+/g) ?? [];
+
+    for (const token of tokens) {
+      if (streamDelayMs > 0) {
+        await sleep(streamDelayMs, options.signal);
+      }
+      const chunk = new ChatGenerationChunk({ message: new AIMessageChunk(token), text: token });
+      yield chunk;
+      await runManager?.handleLLMNewToken(token, undefined, undefined, undefined, undefined, { chunk });
+    }
+
+    // The last chunk carries tool calls and usage
+    yield new ChatGenerationChunk({
+      message: new AIMessageChunk({
+        content: '',
+        tool_call_chunks: message.tool_calls?.map((call, index) => ({
+          name: call.name,
+          args: JSON.stringify(call.args),
+          id: call.id,
+          index,
+          type: 'tool_call_chunk' as const,
+        })),
+        usage_metadata: message.usage_metadata,
+        response_metadata: message.response_metadata,
+      }),
+      text: '',
+    });
+  }
+}
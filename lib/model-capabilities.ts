@@ -0,0 +1,167 @@
+/**
+ * Per-model capability metadata
+ * Tool calling, JSON mode, vision, context window and output limits for each
+ * model, so routes can check a model before sending it work it cannot do
+ */
+
+import type { BuiltInProvider, LLMProvider } from "./llm-providers";
+import { getCustomProviders } from "./custom-providers";
+
+export interface ModelCapabilities {
+  toolCalling: boolean;
+  jsonMode: boolean;
+  vision: boolean;
+  /** Input and output tokens the model can attend to */
+  contextWindow: number;
+  maxOutputTokens: number;
+}
+
+/** Capabilities a route can require of a model */
+export type ModelCapability = 'toolCalling' | 'jsonMode' | 'vision';
+
+export const CAPABILITY_LABELS: Record<ModelCapability, string> = {
+  toolCalling: 'tool calling',
+  jsonMode: 'JSON mode',
+  vision: 'vision',
+};
+
+// Assumed for models nothing is known about: text only, small context
+const UNKNOWN_MODEL_CAPABILITIES: ModelCapabilities = {
+  toolCalling: false,
+  jsonMode: false,
+  vision: false,
+  contextWindow: 4096,
+  maxOutputTokens: 4096,
+};
+
+/**
+ * Provider-wide defaults, refined by the model rules below
+ */
+const PROVIDER_CAPABILITIES: Record<BuiltInProvider, ModelCapabilities> = {
+  openai: { toolCalling: true, jsonMode: true, vision: false, contextWindow: 128000, maxOutputTokens: 4096 },
+  anthropic: { toolCalling: true, jsonMode: false, vision: true, contextWindow: 200000, maxOutputTokens: 4096 },
+  gemini: { toolCalling: true, jsonMode: true, vision: true, contextWindow: 1048576, maxOutputTokens: 8192 },
+  // Free OpenRouter endpoints rarely support tools
+  openrouter: { toolCalling: false, jsonMode: false, vision: false, contextWindow: 32768, maxOutputTokens: 4096 },
+  // Ollama constrains any model to JSON through its `format` option
+  ollama: { toolCalling: false, jsonMode: true, vision: false, contextWindow: 8192, maxOutputTokens: 4096 },
+  lmstudio: { ...UNKNOWN_MODEL_CAPABILITIES },
+  // Fixtures can script tool calls and structured output for any route
+  mock: { toolCalling: true, jsonMode: true, vision: true, contextWindow: 128000, maxOutputTokens: 16384 },
+};
+
+interface CapabilityRule {
+  match: RegExp;
+  capabilities: Partial<ModelCapabilities>;
+}
+
+/**
+ * Model rules per provider; every matching rule applies in order, so later
+ * rules refine earlier ones. Patterns also cover discovered models that are
+ * not in the static model lists.
+ */
+const MODEL_CAPABILITY_RULES: Partial<Record<BuiltInProvider, CapabilityRule[]>> = {
+  openai: [
+    { match: /^gpt-4o/, capabilities: { vision: true, maxOutputTokens: 16384 } },
+    { match: /^gpt-4-turbo/, capabilities: { vision: true } },
+    { match: /^gpt-4$/, capabilities: { jsonMode: false, contextWindow: 8192, maxOutputTokens: 8192 } },
+    { match: /^gpt-3\.5-turbo/, capabilities: { contextWindow: 16385 } },
+    { match: /^gpt-4\.1/, capabilities: { vision: true, contextWindow: 1047576, maxOutputTokens: 32768 } },
+    { match: /^o\d/, capabilities: { vision: true, contextWindow: 200000, maxOutputTokens: 100000 } },
+  ],
+  anthropic: [
+    { match: /^claude-3-5-haiku/, capabilities: { vision: false, maxOutputTokens: 8192 } },
+    { match: /^claude-3-5-sonnet/, capabilities: { maxOutputTokens: 8192 } },
+  ],
+  gemini: [
+    { match: /^gemini-1\.5-pro/, capabilities: { contextWindow: 2097152 } },
+    { match: /^gemini-1\.0-pro/, capabilities: { jsonMode: false, vision: false, contextWindow: 30720, maxOutputTokens: 2048 } },
+  ],
+  openrouter: [
+    { match: /^qwen\/qwen3/, capabilities: { contextWindow: 40960 } },
+    { match: /^openai\/gpt-oss/, capabilities: { contextWindow: 131072 } },
+    { match: /vision/, capabilities: { vision: true, contextWindow: 131072 } },
+    { match: /^openai\/gpt-4o/, capabilities: { toolCalling: true, jsonMode: true, vision: true, contextWindow: 128000, maxOutputTokens: 16384 } },
+    { match: /^anthropic\/claude-3/, capabilities: { toolCalling: true, vision: true, contextWindow: 200000, maxOutputTokens: 8192 } },
+    { match: /^google\/gemini/, capabilities: { toolCalling: true, jsonMode: true, vision: true, contextWindow: 1048576, maxOutputTokens: 8192 } },
+    { match: /^qwen\/qwen-2\.5-72b/, capabilities: { toolCalling: true, jsonMode: true } },
+    // Free variants are served without tool support
+    { match: /:free$/, capabilities: { toolCalling: false } },
+  ],
+  ollama: [
+    { match: /^(llama3\.[123]|qwen2\.5|qwen3|mistral|mixtral|command-r|firefunction)/, capabilities: { toolCalling: true } },
+    { match: /^(llama3\.[123]|qwen2\.5|qwen3)/, capabilities: { contextWindow: 32768 } },
+    { match: /^(llava|bakllava|moondream|llama3\.2-vision|gemma3)/, capabilities: { vision: true } },
+    { match: /^codellama/, capabilities: { contextWindow: 16384 } },
+    { match: /^phi3/, capabilities: { contextWindow: 4096 } },
+  ],
+};
+
+/**
+ * Get the capabilities of a model
+ * Custom providers declare theirs per model in the provider config file,
+ * with `*` applying to all of the provider's models
+ */
+export function getModelCapabilities(provider: LLMProvider, model: string): ModelCapabilities {
+  const customConfig = getCustomProviders().get(provider);
+  if (customConfig) {
+    return {
+      ...UNKNOWN_MODEL_CAPABILITIES,
+      ...customConfig.capabilities['*'],
+      ...customConfig.capabilities[model],
+    };
+  }
+
+  const providerDefaults = PROVIDER_CAPABILITIES[provider as BuiltInProvider] ?? UNKNOWN_MODEL_CAPABILITIES;
+  const rules = MODEL_CAPABILITY_RULES[provider as BuiltInProvider] ?? [];
+  return rules.reduce<ModelCapabilities>(
+    (capabilities, rule) => (rule.match.test(model) ? { ...capabilities, ...rule.capabilities } : capabilities),
+    { ...providerDefaults }
+  );
+}
+
+/**
+ * Capabilities from `requires` that a model lacks
+ */
+export function getMissingCapabilities(
+  provider: LLMProvider,
+  model: string,
+  requires: ModelCapability[]
+): ModelCapability[] {
+  const capabilities = getModelCapabilities(provider, model);
+  return requires.filter(capability => !capabilities[capability]);
+}
+
+/**
+ * Models from `models` that have every required capability, in order
+ */
+export function findCompatibleModels(
+  provider: LLMProvider,
+  models: string[],
+  requires: ModelCapability[]
+): string[] {
+  return models.filter(model => getMissingCapabilities(provider, model, requires).length === 0);
+}
+
+export class ModelCapabilityError extends Error {
+  status = 400;
+  code = 'unsupported_capability' as const;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelCapabilityError';
+  }
+
+  static missing(
+    provider: LLMProvider,
+    model: string,
+    missing: ModelCapability[],
+    compatibleModels: string[]
+  ): ModelCapabilityError {
+    const labels = missing.map(capability => CAPABILITY_LABELS[capability]).join(' and ');
+    const suggestion = compatibleModels.length > 0
+      ? `Compatible models: ${compatibleModels.join(', ')}`
+      : `No model of provider ${provider} supports it`;
+    return new ModelCapabilityError(`Model ${model} of provider ${provider} does not support ${labels}. ${suggestion}.`);
+  }
+}
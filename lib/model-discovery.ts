@@ -0,0 +1,203 @@
+/**
+ * Live model discovery
+ * Queries each provider for the models it currently serves and caches the
+ * results. The static provider model lists are only used as an offline fallback.
+ */
+
+import {
+  getProviderApiKeyEnvVar,
+  getProviderConfig,
+  resolveProviderApiKey,
+  type LLMProvider,
+  type ProviderConfig,
+} from "./llm-providers";
+import { getApiKeyCacheKey } from "./user-api-keys";
+import { getModelCapabilities, type ModelCapabilities } from "./model-capabilities";
+import { getMockFixtures } from "./mock-chat-model";
+
+export interface DiscoveredModels {
+  models: string[];
+  source: 'live' | 'static';
+  fetchedAt: number;
+  error?: string;
+}
+
+export interface DiscoveryOptions {
+  /** Bypass the cache and query the provider again */
+  refresh?: boolean;
+  /** The user's own API key, used instead of the environment variable */
+  apiKey?: string;
+}
+
+const DISCOVERY_TTL_MS = Number(process.env.MODEL_DISCOVERY_TTL_MS) || 5 * 60 * 1000;
+// Failed lookups expire sooner so a local server that was just started shows up quickly
+const FAILED_DISCOVERY_TTL_MS = 30 * 1000;
+export const DISCOVERY_TIMEOUT_MS = 3000;
+
+// Keyed by provider, plus a hash of the user's key when one is supplied
+const discoveryCache = new Map<string, DiscoveredModels>();
+const pendingDiscoveries = new Map<string, Promise<DiscoveredModels>>();
+
+export async function fetchJson(url: string, headers?: Record<string, string>): Promise<any> {
+  const response = await fetch(url, {
+    headers,
+    cache: 'no-store',
+    signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`${url} responded with ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Query a provider's model listing endpoint
+ */
+export async function fetchProviderModels(provider: LLMProvider, userApiKey?: string): Promise<string[]> {
+  const providerConfig = getProviderConfig(provider);
+  const apiKey = resolveProviderApiKey(provider, userApiKey);
+
+  if (providerConfig.requiresApiKey && !apiKey && provider !== 'openrouter') {
+    throw new Error(`${getProviderApiKeyEnvVar(provider)} is not set`);
+  }
+
+  switch (provider) {
+    case 'ollama': {
+      const data = await fetchJson(`${providerConfig.baseURL}/api/tags`);
+      // `llama3.2:latest` is addressed as `llama3.2` everywhere else
+      return data.models.map((model: { name: string }) => model.name.replace(/:latest$/, ''));
+    }
+
+    case 'mock':
+      // Loading the fixtures proves the provider can answer
+      getMockFixtures();
+      return providerConfig.models;
+
+    case 'lmstudio':
+    case 'openrouter': {
+      // OpenAI-compatible listing; OpenRouter's model list is public
+      const data = await fetchJson(`${providerConfig.baseURL}/models`);
+      return data.data.map((model: { id: string }) => model.id);
+    }
+
+    case 'openai': {
+      const data = await fetchJson('https://api.openai.com/v1/models', {
+        Authorization: `Bearer ${apiKey}`,
+      });
+      // The listing also contains embedding, audio and image models
+      return data.data
+        .map((model: { id: string }) => model.id)
+        .filter((id: string) => /^(gpt-|o\d|chatgpt-)/.test(id));
+    }
+
+    case 'anthropic': {
+      const data = await fetchJson('https://api.anthropic.com/v1/models?limit=100', {
+        'x-api-key': apiKey!,
+        'anthropic-version': '2023-06-01',
+      });
+      return data.data.map((model: { id: string }) => model.id);
+    }
+
+    case 'gemini': {
+      // The key goes in a header so it never shows up in error messages
+      const data = await fetchJson('https://generativelanguage.googleapis.com/v1beta/models?pageSize=1000', {
+        'x-goog-api-key': apiKey!,
+      });
+      return data.models
+        .filter((model: { supportedGenerationMethods?: string[] }) =>
+          model.supportedGenerationMethods?.includes('generateContent')
+        )
+        .map((model: { name: string }) => model.name.replace(/^models\//, ''));
+    }
+
+    default: {
+      if (!providerConfig.custom) {
+        throw new Error(`Model discovery not supported for provider ${provider}`);
+      }
+      // Custom providers are OpenAI-compatible
+      const data = await fetchJson(
+        `${providerConfig.baseURL}/models`,
+        apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined
+      );
+      return data.data.map((model: { id: string }) => model.id);
+    }
+  }
+}
+
+async function runDiscovery(provider: LLMProvider, userApiKey?: string): Promise<DiscoveredModels> {
+  try {
+    const models = await fetchProviderModels(provider, userApiKey);
+    if (models.length === 0) {
+      throw new Error('Provider reported no models');
+    }
+    return { models, source: 'live', fetchedAt: Date.now() };
+  } catch (error) {
+    return {
+      models: getProviderConfig(provider).models,
+      source: 'static',
+      fetchedAt: Date.now(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Get the models a provider currently serves, cached with a TTL
+ * Falls back to the static model list when the provider cannot be reached
+ */
+export async function discoverModels(
+  provider: LLMProvider,
+  options: DiscoveryOptions = {}
+): Promise<DiscoveredModels> {
+  const cacheKey = getApiKeyCacheKey(provider, options.apiKey);
+  const cached = discoveryCache.get(cacheKey);
+  if (cached && !options.refresh) {
+    const ttl = cached.source === 'live' ? DISCOVERY_TTL_MS : FAILED_DISCOVERY_TTL_MS;
+    if (Date.now() - cached.fetchedAt < ttl) {
+      return cached;
+    }
+  }
+
+  // Share one in-flight lookup between concurrent requests
+  let pending = pendingDiscoveries.get(cacheKey);
+  if (!pending) {
+    pending = runDiscovery(provider, options.apiKey).finally(() => pendingDiscoveries.delete(cacheKey));
+    pendingDiscoveries.set(cacheKey, pending);
+  }
+
+  const discovered = await pending;
+  discoveryCache.set(cacheKey, discovered);
+  return discovered;
+}
+
+export interface DiscoveredProviderConfig extends ProviderConfig {
+  modelsSource: DiscoveredModels['source'];
+  modelsFetchedAt: string;
+  modelCapabilities: Record<string, ModelCapabilities>;
+}
+
+/**
+ * Provider configuration with the static model list replaced by the discovered one,
+ * and the capabilities of each discovered model
+ */
+export async function getDiscoveredProviderConfig(
+  provider: LLMProvider,
+  options: DiscoveryOptions = {}
+): Promise<DiscoveredProviderConfig> {
+  const providerConfig = getProviderConfig(provider);
+  const discovered = await discoverModels(provider, options);
+
+  return {
+    ...providerConfig,
+    models: discovered.models,
+    // Keep the configured default when it is served, otherwise use the first discovered model
+    defaultModel: discovered.models.includes(providerConfig.defaultModel)
+      ? providerConfig.defaultModel
+      : discovered.models[0],
+    modelsSource: discovered.source,
+    modelsFetchedAt: new Date(discovered.fetchedAt).toISOString(),
+    modelCapabilities: Object.fromEntries(
+      discovered.models.map((model) => [model, getModelCapabilities(provider, model)])
+    ),
+  };
+}
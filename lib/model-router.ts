@@ -0,0 +1,332 @@
+/**
+ * Automatic model routing
+ * Requests with `provider: "auto"` get a concrete model picked per request
+ * from a policy weighing prompt complexity, required capabilities, provider
+ * health and a cost ceiling
+ */
+
+import { z } from "zod";
+import { estimateTokens } from "./chat-history";
+import {
+  estimateCost,
+  getDefaultProvider,
+  isSupportedProvider,
+  parseProviderConfig,
+  type LLMConfig,
+  type ParseProviderConfigOptions,
+  type ProviderModel,
+} from "./llm-providers";
+import {
+  CAPABILITY_LABELS,
+  getMissingCapabilities,
+  getModelCapabilities,
+} from "./model-capabilities";
+import {
+  getUnsupportedOptions,
+  parseGenerationOptions,
+  type GenerationOptions,
+} from "./generation-options";
+import { checkProviderHealth } from "./provider-health";
+import type { UserApiKeys } from "./user-api-keys";
+
+export const AUTO_PROVIDER = 'auto';
+
+export type PromptComplexity = 'simple' | 'standard' | 'complex';
+
+export interface PromptAssessment {
+  complexity: PromptComplexity;
+  /** Rough input size, see estimateTokens */
+  inputTokens: number;
+  /** What made the prompt more complex, for the routing reason */
+  signals: string[];
+}
+
+export interface RoutingPolicy {
+  /** Candidates per prompt complexity, in order of preference */
+  tiers: Record<PromptComplexity, ProviderModel[]>;
+  /** Estimated cost ceiling per request in USD; unpriced models are skipped when set */
+  maxCostUsd?: number;
+  /** Output tokens assumed for cost and context estimates when the request sets no maxTokens */
+  expectedOutputTokens: number;
+}
+
+export interface RoutingDecision extends ProviderModel {
+  complexity: PromptComplexity;
+  reason: string;
+}
+
+export class NoRouteError extends Error {
+  status = 503;
+  code = 'no_route' as const;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'NoRouteError';
+  }
+}
+
+/**
+ * Cheap and local models for simple prompts, stronger models as prompts grow
+ * more complex; LLM_ROUTER_POLICY overrides any part of it
+ */
+const DEFAULT_ROUTING_POLICY: RoutingPolicy = {
+  tiers: {
+    simple: [
+      { provider: 'ollama', model: 'llama3.2' },
+      { provider: 'openai', model: 'gpt-4o-mini' },
+      { provider: 'gemini', model: 'gemini-1.5-flash' },
+      { provider: 'anthropic', model: 'claude-3-5-haiku-20241022' },
+      { provider: 'openrouter', model: 'qwen/qwen3-235b-a22b:free' },
+    ],
+    standard: [
+      { provider: 'openai', model: 'gpt-4o-mini' },
+      { provider: 'gemini', model: 'gemini-1.5-flash' },
+      { provider: 'anthropic', model: 'claude-3-5-haiku-20241022' },
+      { provider: 'ollama', model: 'llama3.1' },
+      { provider: 'openrouter', model: 'qwen/qwen3-235b-a22b:free' },
+    ],
+    complex: [
+      { provider: 'anthropic', model: 'claude-3-5-sonnet-20241022' },
+      { provider: 'openai', model: 'gpt-4o' },
+      { provider: 'gemini', model: 'gemini-1.5-pro' },
+      { provider: 'openrouter', model: 'anthropic/claude-3.5-sonnet' },
+    ],
+  },
+  expectedOutputTokens: 1000,
+};
+
+const providerModelSchema = z.object({
+  provider: z.string().min(1),
+  model: z.string().min(1),
+});
+
+const routingPolicySchema = z.object({
+  tiers: z
+    .object({
+      simple: z.array(providerModelSchema),
+      standard: z.array(providerModelSchema),
+      complex: z.array(providerModelSchema),
+    })
+    .partial()
+    .optional(),
+  maxCostUsd: z.number().positive().optional(),
+  expectedOutputTokens: z.number().int().positive().optional(),
+});
+
+/**
+ * The routing policy, with LLM_ROUTER_POLICY (JSON, e.g.
+ * {"maxCostUsd":0.01,"tiers":{"simple":[{"provider":"ollama","model":"llama3.2"}]}})
+ * merged over the defaults
+ */
+export function getRoutingPolicy(): RoutingPolicy {
+  const raw = process.env.LLM_ROUTER_POLICY?.trim();
+  if (!raw) {
+    return DEFAULT_ROUTING_POLICY;
+  }
+
+  let result: z.SafeParseReturnType<unknown, z.infer<typeof routingPolicySchema>>;
+  try {
+    result = routingPolicySchema.safeParse(JSON.parse(raw));
+  } catch {
+    console.error('Ignoring LLM_ROUTER_POLICY: not valid JSON');
+    return DEFAULT_ROUTING_POLICY;
+  }
+  if (!result.success) {
+    console.error(`Ignoring LLM_ROUTER_POLICY: ${result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+    return DEFAULT_ROUTING_POLICY;
+  }
+
+  const { tiers, ...overrides } = result.data;
+  return {
+    ...DEFAULT_ROUTING_POLICY,
+    ...overrides,
+    tiers: { ...DEFAULT_ROUTING_POLICY.tiers, ...tiers },
+  };
+}
+
+const COMPLEX_TASK_KEYWORDS = [
+  'architecture', 'architect', 'design', 'refactor', 'optimize', 'analyze', 'debug',
+  'implement', 'migrate', 'trade-off', 'tradeoff', 'compare', 'prove', 'security',
+];
+
+/**
+ * Score a prompt by length, code, multi-step requests and task keywords
+ */
+export function assessPrompt(prompt: string): PromptAssessment {
+  const inputTokens = estimateTokens(prompt);
+  const lowerPrompt = prompt.toLowerCase();
+  const signals: string[] = [];
+  let score = 0;
+
+  if (inputTokens > 2000) {
+    score += 2;
+    signals.push(`~${inputTokens} tokens`);
+  } else if (inputTokens > 400) {
+    score += 1;
+    signals.push(`~${inputTokens} tokens`);
+  }
+  if (/```|\bfunction\s*\(|=>|\bclass\s+\w+/.test(prompt)) {
+    score += 1;
+    signals.push('code');
+  }
+  if (/step[ -]by[ -]step|\n\s*\d+[.)]\s/.test(lowerPrompt)) {
+    score += 1;
+    signals.push('multi-step');
+  }
+  const keywords = COMPLEX_TASK_KEYWORDS.filter(keyword => lowerPrompt.includes(keyword));
+  if (keywords.length > 0) {
+    score += Math.min(2, keywords.length);
+    signals.push(`"${keywords.slice(0, 2).join('", "')}"`);
+  }
+
+  const complexity: PromptComplexity = score >= 3 ? 'complex' : score >= 1 ? 'standard' : 'simple';
+  return { complexity, inputTokens, signals };
+}
+
+// Tiers tried after the assessed one: escalate first, then settle for less
+const TIER_ORDER: Record<PromptComplexity, PromptComplexity[]> = {
+  simple: ['simple', 'standard', 'complex'],
+  standard: ['standard', 'complex', 'simple'],
+  complex: ['complex', 'standard', 'simple'],
+};
+
+export interface RouteOptions extends ParseProviderConfigOptions {
+  /** Prompt text the request sends, used to assess complexity */
+  prompt: string;
+  maxTokens?: number;
+  /** Overrides the policy's cost ceiling for this request */
+  maxCostUsd?: number;
+  /** Candidates whose provider does not accept these options are skipped */
+  generationOptions?: GenerationOptions;
+  apiKeys?: UserApiKeys;
+}
+
+/**
+ * Pick the first candidate of the prompt's tier that has the required
+ * capabilities, fits in its context window, stays under the cost ceiling and
+ * whose provider is healthy
+ */
+export async function routeModel(options: RouteOptions): Promise<RoutingDecision> {
+  const policy = getRoutingPolicy();
+  const requires = [
+    ...(options.requires ?? []),
+    ...(options.generationOptions?.responseFormat === 'json' ? ['jsonMode' as const] : []),
+  ];
+  const maxCostUsd = options.maxCostUsd ?? policy.maxCostUsd;
+  const outputTokens = options.maxTokens ?? policy.expectedOutputTokens;
+  const { complexity, inputTokens, signals } = assessPrompt(options.prompt);
+
+  const seen = new Set<string>();
+  const candidates = TIER_ORDER[complexity]
+    .flatMap(tier => policy.tiers[tier])
+    .filter(({ provider, model }) => {
+      const key = `${provider}:${model}`;
+      if (seen.has(key) || !isSupportedProvider(provider)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+
+  const skipped: string[] = [];
+  for (const { provider, model } of candidates) {
+    const missing = getMissingCapabilities(provider, model, requires);
+    if (missing.length > 0) {
+      skipped.push(`${provider}:${model} (no ${missing.map(capability => CAPABILITY_LABELS[capability]).join(', ')})`);
+      continue;
+    }
+    const unsupported = getUnsupportedOptions(provider, options.generationOptions);
+    if (unsupported.length > 0) {
+      skipped.push(`${provider}:${model} (no ${unsupported.join(', ')} option)`);
+      continue;
+    }
+    if (inputTokens + outputTokens > getModelCapabilities(provider, model).contextWindow) {
+      skipped.push(`${provider}:${model} (context window)`);
+      continue;
+    }
+    if (maxCostUsd !== undefined) {
+      const cost = estimateCost(provider, model, { inputTokens, outputTokens });
+      if (cost === undefined || cost > maxCostUsd) {
+        skipped.push(`${provider}:${model} (${cost === undefined ? 'unpriced' : `~$${cost.toFixed(4)}`})`);
+        continue;
+      }
+    }
+    // Health checks are cached, so only the first request per provider waits on a probe
+    const health = await checkProviderHealth(provider, { apiKey: options.apiKeys?.[provider] });
+    if (health.status !== 'healthy') {
+      skipped.push(`${provider}:${model} (${health.status})`);
+      continue;
+    }
+
+    const constraints = [
+      requires.length > 0 && `with ${requires.map(capability => CAPABILITY_LABELS[capability]).join(', ')}`,
+      maxCostUsd !== undefined && `under $${maxCostUsd}`,
+    ].filter(Boolean).join(' ');
+    return {
+      provider,
+      model,
+      complexity,
+      reason: [
+        `${complexity} prompt${signals.length > 0 ? ` (${signals.join(', ')})` : ''}`,
+        `first healthy candidate${constraints ? ` ${constraints}` : ''}`,
+        ...(skipped.length > 0 ? [`skipped ${skipped.join(', ')}`] : []),
+      ].join('; '),
+    };
+  }
+
+  throw new NoRouteError(
+    `No model satisfies the routing policy for a ${complexity} prompt` +
+    (skipped.length > 0 ? `: ${skipped.join(', ')}` : '')
+  );
+}
+
+export interface ResolvedProviderConfig {
+  config: LLMConfig;
+  /** Set when the request asked for `provider: "auto"` */
+  routing?: RoutingDecision;
+}
+
+/**
+ * parseProviderConfig with support for `provider: "auto"`, also as the default
+ * provider: the request is routed to a concrete model first, and `maxCostUsd`
+ * caps the routed model's estimated cost. Requests naming a provider skip
+ * routing, so `routing` is undefined.
+ */
+export async function resolveProviderConfig(
+  request: any,
+  apiKeys: UserApiKeys | undefined,
+  options: ParseProviderConfigOptions & { prompt: string }
+): Promise<ResolvedProviderConfig> {
+  if ((request?.provider || getDefaultProvider()) !== AUTO_PROVIDER) {
+    return { config: parseProviderConfig(request, apiKeys, options) };
+  }
+
+  const routing = await routeModel({
+    ...options,
+    maxTokens: request.maxTokens,
+    maxCostUsd: typeof request.maxCostUsd === 'number' ? request.maxCostUsd : undefined,
+    generationOptions: parseGenerationOptions(request.options),
+    apiKeys,
+  });
+  return {
+    config: parseProviderConfig(
+      { ...request, provider: routing.provider, model: routing.model },
+      apiKeys,
+      options
+    ),
+    routing,
+  };
+}
+
+/**
+ * Response headers describing a routing decision
+ */
+export function getRoutingHeaders(routing?: RoutingDecision): Record<string, string> {
+  if (!routing) {
+    return {};
+  }
+  return {
+    'x-llm-routed-model': `${routing.provider}:${routing.model}`,
+    'x-llm-routing-reason': routing.reason,
+  };
+}
@@ -0,0 +1,377 @@
+/**
+ * Persona registry
+ * Named system prompts with an optional default model and temperature that
+ * chat routes pick by id. Built-in personas ship with the app; personas
+ * created or edited through /api/personas are stored in a JSON file.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from "fs";
+import path from "path";
+import { z } from "zod";
+import { isSupportedProvider } from "./llm-providers";
+
+const DEFAULT_PERSONAS_FILE = '.llm-personas.json';
+
+const personaFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).optional(),
+  /** System prompt; routes add their own context, history and question around it */
+  systemTemplate: z.string().trim().min(1).max(20000),
+  provider: z.string().refine(isSupportedProvider, provider => ({ message: `Unsupported provider: ${provider}` })).optional(),
+  model: z.string().min(1).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+});
+
+const withModelNeedsProvider = <T extends { provider?: string; model?: string }>(persona: T) =>
+  !persona.model || Boolean(persona.provider);
+
+export const personaInputSchema = personaFieldsSchema
+  .strict()
+  .refine(withModelNeedsProvider, 'A default model needs a provider');
+
+/** Updates may clear optional fields with null */
+export const personaPatchSchema = personaFieldsSchema
+  .extend({
+    description: personaFieldsSchema.shape.description.unwrap().nullable().optional(),
+    provider: personaFieldsSchema.shape.provider.unwrap().nullable().optional(),
+    model: personaFieldsSchema.shape.model.unwrap().nullable().optional(),
+    temperature: personaFieldsSchema.shape.temperature.unwrap().nullable().optional(),
+  })
+  .partial()
+  .strict();
+
+export type PersonaInput = z.infer<typeof personaInputSchema>;
+
+export type PersonaPatch = z.infer<typeof personaPatchSchema>;
+
+export interface Persona extends PersonaInput {
+  id: string;
+  /** Shipped with the app; edits override it and deleting the edit restores it */
+  builtIn: boolean;
+  updatedAt?: string;
+}
+
+export class PersonaError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'PersonaError';
+    this.status = status;
+  }
+}
+
+const BUILT_IN_PERSONAS: Persona[] = [
+  {
+    id: 'assistant',
+    name: 'Assistant',
+    description: 'Neutral, concise general-purpose assistant',
+    systemTemplate: 'You are a helpful, precise assistant. Answer clearly and concisely, state your assumptions, and say so when you are not sure of something.',
+    builtIn: true,
+  },
+  {
+    id: 'project-planner',
+    name: 'Project Planner',
+    description: 'Breaks software projects into tasks, architecture and timelines',
+    temperature: 0.3,
+    builtIn: true,
+    systemTemplate: `You are an expert project planning AI assistant specializing in software development projects of any size and complexity. Your role is to help break down complex projects into manageable tasks, suggest architectures, identify dependencies, and create realistic timelines.
+
+Key capabilities:
+- Project decomposition and task breakdown for projects ranging from simple scripts to enterprise systems
+- Technology stack recommendations for modern and legacy systems
+- Timeline estimation and milestone planning with risk assessment
+- Modular architecture design with monorepo and microservice considerations
+- Resource allocation suggestions for teams of any size
+- Best practices and architectural guidance for scalable systems
+- Integration patterns and API design
+- DevOps and CI/CD pipeline recommendations
+- Security and compliance considerations
+- Performance optimization strategies
+
+When planning projects, consider:
+- Modern development practices (CI/CD, testing, documentation, monitoring)
+- Scalability and maintainability across different project scales
+- Security and performance requirements
+- Team size, skill levels, and organizational constraints
+- Technology constraints, preferences, and migration paths
+- Modular design principles and dependency management
+- Monorepo vs multi-repo strategies
+- Microservice vs monolithic architecture decisions
+- Cloud-native and containerization strategies
+- Data architecture and storage solutions
+
+For complex enterprise projects, focus on:
+- Service decomposition and bounded contexts
+- API gateway and service mesh considerations
+- Event-driven architecture patterns
+- CQRS and event sourcing when appropriate
+- Distributed system challenges and solutions
+- Cross-cutting concerns (logging, monitoring, security)`,
+  },
+  {
+    id: 'nextjs-developer',
+    name: 'Next.js Developer',
+    description: 'Production-ready Next.js, React, Tailwind and Shadcn UI guidance',
+    temperature: 0.2,
+    builtIn: true,
+    systemTemplate: `You are an expert Next.js development assistant specializing in modern React development with the App Router, Tailwind CSS, Shadcn UI, and best practices for projects of any scale and complexity.
+
+Your expertise includes:
+- Next.js 15+ with App Router architecture for both simple and enterprise applications
+- TypeScript development patterns and advanced type systems
+- Tailwind CSS for styling, responsive design, and design systems
+- Shadcn UI component integration, customization, and theme systems
+- Server Components and Client Components with optimal rendering strategies
+- API routes, server actions, and middleware for complex backends
+- Database integration (Supabase, Prisma, multiple databases)
+- Authentication and authorization (NextAuth, custom solutions, RBAC)
+- Performance optimization, SEO, and Core Web Vitals
+- Testing strategies (unit, integration, e2e) with Jest, Vitest, Playwright
+- Deployment strategies (Vercel, Docker, self-hosted, multi-environment)
+- Monorepo setup with Turbopack, Nx, or Rush
+- Microservices integration and API orchestration
+- State management (Zustand, Redux, React Context) for complex apps
+- Real-time features (WebSockets, Server-Sent Events, WebRTC)
+- Internationalization (i18n) and accessibility (a11y)
+- CI/CD pipelines and automated testing workflows
+
+For enterprise and complex projects:
+- Modular architecture with feature-based organization
+- Component libraries and design systems
+- Multi-tenant applications and white-labeling
+- Advanced caching strategies (ISR, edge caching, Redis)
+- Error monitoring and observability (Sentry, DataDog)
+- Security best practices and compliance (GDPR, SOC2)
+- Scalable file uploads and media handling
+- Background job processing and queues
+- Service integration patterns and API design
+
+When helping with development:
+- Provide complete, production-ready code examples
+- Follow Next.js and React best practices for scale
+- Use TypeScript for type safety and maintainability
+- Implement responsive designs with Tailwind and proper semantic HTML
+- Leverage Shadcn UI components with custom variants
+- Consider performance, accessibility, and SEO implications
+- Include comprehensive error handling and loading states
+- Suggest optimal file structure and code organization
+- Recommend testing approaches and implementation
+- Consider security implications and best practices`,
+  },
+  {
+    id: 'patchy',
+    name: 'Patchy the Pirate',
+    description: 'Verbose pirate, the default of /api/chat',
+    systemTemplate: 'You are a pirate named Patchy. All responses must be extremely verbose and in pirate dialect.',
+    temperature: 0.8,
+    builtIn: true,
+  },
+  {
+    id: 'dana',
+    name: 'Dana the Puppy',
+    description: 'Energetic talking puppy, the default of /api/chat/retrieval',
+    systemTemplate: 'You are an energetic talking puppy named Dana, and must answer all questions like a happy, talking dog would.\nUse lots of puns!',
+    temperature: 0.2,
+    builtIn: true,
+  },
+  {
+    id: 'robbie',
+    name: 'Robbie the Robot',
+    description: 'Stereotypical robot, the default of /api/chat/retrieval_agents',
+    systemTemplate: 'You are a stereotypical robot named Robbie and must answer all questions like a stereotypical robot. Use lots of interjections like "BEEP" and "BOOP".',
+    temperature: 0.2,
+    builtIn: true,
+  },
+  {
+    id: 'polly',
+    name: 'Polly the Parrot',
+    description: 'Talking parrot, the default of /api/chat/agents',
+    systemTemplate: 'You are a talking parrot named Polly. All final responses must be how a talking parrot would respond. Squawk often!',
+    temperature: 0,
+    builtIn: true,
+  },
+];
+
+const storedPersonasFileSchema = z.object({
+  personas: z.array(
+    personaFieldsSchema.extend({
+      id: z.string().min(1),
+      builtIn: z.boolean(),
+      updatedAt: z.string().optional(),
+    })
+  ),
+});
+
+/**
+ * Location of the persona file, `PERSONAS_FILE` or .llm-personas.json
+ */
+export function getPersonasFile(): string {
+  return path.resolve(process.cwd(), process.env.PERSONAS_FILE || DEFAULT_PERSONAS_FILE);
+}
+
+function toPersonaId(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'persona';
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+}
+
+/**
+ * Personas created or edited at runtime, kept in a JSON file
+ * The file holds custom personas and edited copies of built-in ones; it is
+ * read again whenever it changes on disk
+ */
+export class PersonaStore {
+  private loaded?: { mtimeMs: number; personas: Map<string, Persona> };
+
+  constructor(private file: string) {}
+
+  private readStored(): Map<string, Persona> {
+    if (!existsSync(this.file)) {
+      return new Map();
+    }
+
+    const { mtimeMs } = statSync(this.file);
+    if (!this.loaded || this.loaded.mtimeMs !== mtimeMs) {
+      // A broken file is an error rather than an empty registry, so the next write cannot overwrite it
+      const result = storedPersonasFileSchema.safeParse(JSON.parse(readFileSync(this.file, 'utf-8')));
+      if (!result.success) {
+        throw new Error(`Invalid persona file ${this.file}: ${formatIssues(result.error)}`);
+      }
+      this.loaded = {
+        mtimeMs,
+        personas: new Map(result.data.personas.map(persona => [persona.id, persona])),
+      };
+    }
+    return this.loaded.personas;
+  }
+
+  private writeStored(personas: Map<string, Persona>): void {
+    mkdirSync(path.dirname(this.file), { recursive: true });
+    // Written to a temporary file first so readers never see a partial file
+    const tempFile = `${this.file}.tmp`;
+    writeFileSync(tempFile, JSON.stringify({ personas: [...personas.values()] }, null, 2), 'utf-8');
+    renameSync(tempFile, this.file);
+    this.loaded = { mtimeMs: statSync(this.file).mtimeMs, personas };
+  }
+
+  /**
+   * Built-in personas first, in their shipped order, then custom ones by name
+   */
+  list(): Persona[] {
+    const stored = this.readStored();
+    const builtIn = BUILT_IN_PERSONAS.map(persona => stored.get(persona.id) ?? persona);
+    const custom = [...stored.values()]
+      .filter(persona => !persona.builtIn)
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return [...builtIn, ...custom];
+  }
+
+  get(id: string): Persona | undefined {
+    return this.readStored().get(id) ?? BUILT_IN_PERSONAS.find(persona => persona.id === id);
+  }
+
+  create(input: unknown): Persona {
+    const result = personaInputSchema.safeParse(input);
+    if (!result.success) {
+      throw new PersonaError(`Invalid persona: ${formatIssues(result.error)}`);
+    }
+
+    const stored = new Map(this.readStored());
+    const baseId = toPersonaId(result.data.name);
+    let id = baseId;
+    for (let suffix = 2; this.get(id); suffix++) {
+      id = `${baseId}-${suffix}`;
+    }
+
+    const persona: Persona = { id, ...result.data, builtIn: false, updatedAt: new Date().toISOString() };
+    stored.set(id, persona);
+    this.writeStored(stored);
+    return persona;
+  }
+
+  /**
+   * Apply a partial update; null clears an optional field
+   */
+  update(id: string, patch: unknown): Persona {
+    const current = this.get(id);
+    if (!current) {
+      throw new PersonaError(`Persona not found: ${id}`, 404);
+    }
+    const patchResult = personaPatchSchema.safeParse(patch);
+    if (!patchResult.success) {
+      throw new PersonaError(`Invalid persona: ${formatIssues(patchResult.error)}`);
+    }
+
+    const { id: _id, builtIn: _builtIn, updatedAt: _updatedAt, ...fields } = current;
+    const merged = Object.fromEntries(
+      Object.entries({ ...fields, ...patchResult.data }).filter(([, value]) => value !== null && value !== undefined)
+    );
+    const result = personaInputSchema.safeParse(merged);
+    if (!result.success) {
+      throw new PersonaError(`Invalid persona: ${formatIssues(result.error)}`);
+    }
+
+    const persona: Persona = { id, ...result.data, builtIn: current.builtIn, updatedAt: new Date().toISOString() };
+    const stored = new Map(this.readStored());
+    stored.set(id, persona);
+    this.writeStored(stored);
+    return persona;
+  }
+
+  /**
+   * Delete a custom persona, or restore a built-in one to its shipped version
+   * Returns the restored built-in persona, if any
+   */
+  delete(id: string): Persona | undefined {
+    const builtIn = BUILT_IN_PERSONAS.find(persona => persona.id === id);
+    const stored = new Map(this.readStored());
+    if (!stored.has(id)) {
+      if (builtIn) {
+        throw new PersonaError(`Built-in persona ${id} cannot be deleted; edit it instead`);
+      }
+      throw new PersonaError(`Persona not found: ${id}`, 404);
+    }
+
+    stored.delete(id);
+    this.writeStored(stored);
+    return builtIn;
+  }
+}
+
+// Kept on globalThis so every route bundle shares the same store
+const globalForPersonas = globalThis as typeof globalThis & { __personaStore?: PersonaStore };
+
+export function getPersonaStore(): PersonaStore {
+  return (globalForPersonas.__personaStore ??= new PersonaStore(getPersonasFile()));
+}
+
+/**
+ * The persona a chat request names in `persona`, or the route's default
+ */
+export function resolvePersona(request: any, defaultPersonaId: string): Persona {
+  const id = request?.persona || defaultPersonaId;
+  if (typeof id !== 'string') {
+    throw new PersonaError('Persona must be a persona id');
+  }
+  const persona = getPersonaStore().get(id);
+  if (!persona) {
+    throw new PersonaError(`Unknown persona: ${id}`);
+  }
+  return persona;
+}
+
+/**
+ * The request with the persona's default provider and model filled in when
+ * the request does not choose a provider itself
+ */
+export function withPersonaModel(request: any, persona: Persona): any {
+  if (request?.provider || !persona.provider) {
+    return request;
+  }
+  return { ...request, provider: persona.provider, model: request?.model ?? persona.model };
+}
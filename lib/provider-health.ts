@@ -0,0 +1,114 @@
+/**
+ * Provider health checks
+ * Actively probes each provider (a ping for local servers, a cheap
+ * authenticated call for hosted ones) and caches the outcome
+ */
+
+import {
+  PROVIDER_CONFIGS,
+  getProviderApiKeyEnvVar,
+  getProviderConfig,
+  resolveProviderApiKey,
+  type LLMProvider,
+} from "./llm-providers";
+import { fetchJson, fetchProviderModels } from "./model-discovery";
+import { getApiKeyCacheKey } from "./user-api-keys";
+
+export type ProviderHealthStatus = 'healthy' | 'unhealthy' | 'unconfigured';
+
+export interface ProviderHealth {
+  status: ProviderHealthStatus;
+  latencyMs?: number;
+  lastError?: string;
+  lastChecked: string;
+}
+
+export interface HealthCheckOptions {
+  /** Probe the provider again instead of using the cached result */
+  refresh?: boolean;
+  /** The user's own API key, checked instead of the environment variable */
+  apiKey?: string;
+}
+
+const HEALTH_TTL_MS = Number(process.env.PROVIDER_HEALTH_TTL_MS) || 60 * 1000;
+
+// Keyed by provider, plus a hash of the user's key when one is supplied
+const healthCache = new Map<string, ProviderHealth>();
+const pendingChecks = new Map<string, Promise<ProviderHealth>>();
+
+/**
+ * Issue the cheapest request that proves the provider is reachable and,
+ * for hosted providers, that the API key is accepted
+ */
+async function probeProvider(provider: LLMProvider, userApiKey?: string): Promise<void> {
+  if (provider === 'openrouter') {
+    // The model list is public, so check the key itself
+    await fetchJson(`${PROVIDER_CONFIGS.openrouter.baseURL}/key`, {
+      Authorization: `Bearer ${resolveProviderApiKey(provider, userApiKey)}`,
+    });
+    return;
+  }
+
+  // Model listings double as a ping for local servers and an authenticated call for hosted ones
+  await fetchProviderModels(provider, userApiKey);
+}
+
+/**
+ * `fetch` only reports "fetch failed"; the underlying cause says what actually went wrong
+ */
+function describeError(error: unknown): string {
+  if (!(error instanceof Error)) {
+    return 'Unknown error';
+  }
+  const cause = (error as Error & { cause?: { code?: string; message?: string } }).cause;
+  const detail = cause?.code ?? cause?.message;
+  return detail ? `${error.message} (${detail})` : error.message;
+}
+
+async function runHealthCheck(provider: LLMProvider, userApiKey?: string): Promise<ProviderHealth> {
+  const lastChecked = new Date().toISOString();
+
+  if (getProviderConfig(provider).requiresApiKey && !resolveProviderApiKey(provider, userApiKey)) {
+    const envVar = getProviderApiKeyEnvVar(provider);
+    return { status: 'unconfigured', lastError: `${envVar} is not set`, lastChecked };
+  }
+
+  const startTime = Date.now();
+  try {
+    await probeProvider(provider, userApiKey);
+    return { status: 'healthy', latencyMs: Date.now() - startTime, lastChecked };
+  } catch (error) {
+    return {
+      status: 'unhealthy',
+      latencyMs: Date.now() - startTime,
+      lastError: describeError(error),
+      lastChecked,
+    };
+  }
+}
+
+/**
+ * Get the health of a provider, cached for PROVIDER_HEALTH_TTL_MS
+ * With a user-supplied key the provider is probed with that key
+ */
+export async function checkProviderHealth(
+  provider: LLMProvider,
+  options: HealthCheckOptions = {}
+): Promise<ProviderHealth> {
+  const cacheKey = getApiKeyCacheKey(provider, options.apiKey);
+  const cached = healthCache.get(cacheKey);
+  if (cached && !options.refresh && Date.now() - Date.parse(cached.lastChecked) < HEALTH_TTL_MS) {
+    return cached;
+  }
+
+  // Share one in-flight probe between concurrent requests
+  let pending = pendingChecks.get(cacheKey);
+  if (!pending) {
+    pending = runHealthCheck(provider, options.apiKey).finally(() => pendingChecks.delete(cacheKey));
+    pendingChecks.set(cacheKey, pending);
+  }
+
+  const health = await pending;
+  healthCache.set(cacheKey, health);
+  return health;
+}
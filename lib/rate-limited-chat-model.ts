@@ -0,0 +1,117 @@
+/**
+ * Rate-limited chat models
+ * Every call waits for its provider's rate limiter and is retried with
+ * backoff when the provider answers with a rate limit or server error
+ */
+
+import {
+  BaseChatModel,
+  type BaseChatModelCallOptions,
+  type BaseChatModelParams,
+  type BindToolsInput,
+} from "@langchain/core/language_models/chat_models";
+import type { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import type { BaseMessage } from "@langchain/core/messages";
+import type { ChatGenerationChunk, ChatResult } from "@langchain/core/outputs";
+import { errorSummary } from "./api-errors";
+import type { LLMProvider } from "./llm-providers";
+import {
+  getProviderRateLimiter,
+  getRetryDelayMs,
+  sleep,
+  type ProviderRateLimiter,
+} from "./rate-limiter";
+import {
+  bindWrappedTools,
+  generateWrapped,
+  streamWrapped,
+  type ChatModelRunnable,
+  type WrappedModel,
+} from "./wrapped-chat-model";
+
+export interface RateLimitedChatModelParams extends BaseChatModelParams, WrappedModel {}
+
+export class RateLimitedChatModel extends BaseChatModel implements WrappedModel {
+  provider: LLMProvider;
+  model: string;
+  chatModel: BaseChatModel;
+  runnable?: ChatModelRunnable;
+
+  constructor(fields: RateLimitedChatModelParams) {
+    super(fields);
+    this.provider = fields.provider;
+    this.model = fields.model;
+    this.chatModel = fields.chatModel;
+    this.runnable = fields.runnable;
+  }
+
+  _llmType(): string {
+    return 'rate_limited';
+  }
+
+  private get limiter(): ProviderRateLimiter {
+    return getProviderRateLimiter(this.provider);
+  }
+
+  bindTools(tools: BindToolsInput[], kwargs?: Partial<BaseChatModelCallOptions>): RateLimitedChatModel {
+    return new RateLimitedChatModel({
+      provider: this.provider,
+      model: this.model,
+      chatModel: this.chatModel,
+      runnable: bindWrappedTools(this, tools, kwargs),
+    });
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+  ): Promise<ChatResult> {
+    for (let attempt = 0; ; attempt++) {
+      const release = await this.limiter.acquire(options.signal);
+      try {
+        return await generateWrapped(this, messages, options);
+      } catch (error) {
+        const delay = getRetryDelayMs(error, attempt);
+        if (delay === undefined) {
+          throw error;
+        }
+        console.warn(`LLM provider ${this.provider} (${this.model}) failed, retrying in ${Math.round(delay)} ms:`, errorSummary(error));
+        // Free the slot while backing off so other requests are not held up
+        release();
+        await sleep(delay, options.signal);
+      } finally {
+        release();
+      }
+    }
+  }
+
+  /**
+   * Retries only happen before the first chunk; the slot is held until the stream ends
+   */
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun,
+  ): AsyncGenerator<ChatGenerationChunk> {
+    for (let attempt = 0; ; attempt++) {
+      const release = await this.limiter.acquire(options.signal);
+      let started = false;
+      try {
+        yield* streamWrapped(this, messages, options, runManager, () => {
+          started = true;
+        });
+        return;
+      } catch (error) {
+        const delay = started ? undefined : getRetryDelayMs(error, attempt);
+        if (delay === undefined) {
+          throw error;
+        }
+        console.warn(`LLM provider ${this.provider} (${this.model}) failed, retrying in ${Math.round(delay)} ms:`, errorSummary(error));
+        release();
+        await sleep(delay, options.signal);
+      } finally {
+        release();
+      }
+    }
+  }
+}
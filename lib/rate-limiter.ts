@@ -0,0 +1,334 @@
+/**
+ * Per-provider rate limiting
+ * A token bucket (requests per minute) and a concurrency cap for each
+ * provider, with requests queued until capacity frees up, plus retry with
+ * exponential backoff that honors `Retry-After`
+ */
+
+import { getErrorHeaders, getErrorStatus } from "./api-errors";
+import type { LLMProvider } from "./llm-providers";
+
+export interface RateLimitConfig {
+  /** Token bucket refill rate; unlimited when unset */
+  requestsPerMinute?: number;
+  /** Bucket capacity, defaults to requestsPerMinute */
+  burst?: number;
+  /** Requests allowed in flight at once; unlimited when unset */
+  maxConcurrency?: number;
+  /** Queued requests beyond this are rejected with a 429 */
+  maxQueueSize?: number;
+}
+
+export interface RateLimiterStats {
+  requestsPerMinute?: number;
+  maxConcurrency?: number;
+  active: number;
+  queueDepth: number;
+  /** Whole tokens left in the bucket, when a requests per minute limit is set */
+  availableTokens?: number;
+  lastWaitMs: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+  totalRequests: number;
+  rejectedRequests: number;
+}
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Defaults for providers that are easy to overload; LLM_RATE_LIMITS overrides them
+ * OpenRouter free models allow 20 requests per minute, and Ollama and LM Studio
+ * serve requests largely one at a time
+ */
+const DEFAULT_RATE_LIMITS: Partial<Record<LLMProvider, RateLimitConfig>> = {
+  openrouter: { requestsPerMinute: 20 },
+  ollama: { maxConcurrency: 2 },
+  lmstudio: { maxConcurrency: 2 },
+};
+
+const DEFAULT_MAX_QUEUE_SIZE = 100;
+// Recent waits kept for the average reported in the providers API
+const WAIT_SAMPLE_SIZE = 50;
+
+export const RETRY_OPTIONS: RetryOptions = {
+  maxRetries: Number(process.env.LLM_MAX_RETRIES ?? 2),
+  baseDelayMs: Number(process.env.LLM_RETRY_BASE_DELAY_MS) || 1000,
+  maxDelayMs: Number(process.env.LLM_RETRY_MAX_DELAY_MS) || 30 * 1000,
+};
+
+export class RateLimitQueueFullError extends Error {
+  status = 429;
+  code = 'rate_limited' as const;
+
+  constructor(provider: LLMProvider, maxQueueSize: number) {
+    super(`Too many queued requests for provider ${provider} (limit ${maxQueueSize})`);
+    this.name = 'RateLimitQueueFullError';
+  }
+}
+
+interface Waiter {
+  enqueuedAt: number;
+  resolve: (release: () => void) => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+// Token bucket plus concurrency cap for one provider, serving waiters in FIFO order
+export class ProviderRateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private active = 0;
+  private queue: Waiter[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  private waits: number[] = [];
+  private lastWaitMs = 0;
+  private maxWaitMs = 0;
+  private totalRequests = 0;
+  private rejectedRequests = 0;
+
+  constructor(private provider: LLMProvider, private config: RateLimitConfig) {
+    this.tokens = this.capacity;
+  }
+
+  private get capacity(): number {
+    return this.config.burst ?? this.config.requestsPerMinute ?? Infinity;
+  }
+
+  private refill(): void {
+    const { requestsPerMinute } = this.config;
+    if (!requestsPerMinute) {
+      return;
+    }
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) * requestsPerMinute) / 60_000);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Wait for a slot; the returned function must be called once the request is done
+   */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) {
+      return Promise.reject(new Error('Aborted'));
+    }
+
+    const maxQueueSize = this.config.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE;
+    if (this.queue.length >= maxQueueSize) {
+      this.rejectedRequests++;
+      return Promise.reject(new RateLimitQueueFullError(this.provider, maxQueueSize));
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { enqueuedAt: Date.now(), resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          this.queue = this.queue.filter(queued => queued !== waiter);
+          reject(new Error('Aborted'));
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+      this.queue.push(waiter);
+      this.pump();
+    });
+  }
+
+  private pump(): void {
+    this.refill();
+
+    while (this.queue.length > 0) {
+      if (this.config.maxConcurrency && this.active >= this.config.maxConcurrency) {
+        return;
+      }
+      if (this.tokens < 1) {
+        this.scheduleRefill();
+        return;
+      }
+
+      const waiter = this.queue.shift()!;
+      if (waiter.onAbort) {
+        waiter.signal?.removeEventListener('abort', waiter.onAbort);
+      }
+      if (this.config.requestsPerMinute) {
+        this.tokens -= 1;
+      }
+      this.active++;
+      this.recordWait(Date.now() - waiter.enqueuedAt);
+
+      let released = false;
+      waiter.resolve(() => {
+        if (!released) {
+          released = true;
+          this.active--;
+          this.pump();
+        }
+      });
+    }
+  }
+
+  private scheduleRefill(): void {
+    if (this.timer) {
+      return;
+    }
+    const msPerToken = 60_000 / this.config.requestsPerMinute!;
+    const delay = Math.max(1, Math.ceil((1 - this.tokens) * msPerToken));
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.pump();
+    }, delay);
+  }
+
+  private recordWait(waitMs: number): void {
+    this.totalRequests++;
+    this.lastWaitMs = waitMs;
+    this.maxWaitMs = Math.max(this.maxWaitMs, waitMs);
+    this.waits.push(waitMs);
+    if (this.waits.length > WAIT_SAMPLE_SIZE) {
+      this.waits.shift();
+    }
+  }
+
+  getStats(): RateLimiterStats {
+    this.refill();
+    return {
+      requestsPerMinute: this.config.requestsPerMinute,
+      maxConcurrency: this.config.maxConcurrency,
+      active: this.active,
+      queueDepth: this.queue.length,
+      availableTokens: this.config.requestsPerMinute ? Math.floor(this.tokens) : undefined,
+      lastWaitMs: this.lastWaitMs,
+      averageWaitMs: this.waits.length
+        ? Math.round(this.waits.reduce((sum, wait) => sum + wait, 0) / this.waits.length)
+        : 0,
+      maxWaitMs: this.maxWaitMs,
+      totalRequests: this.totalRequests,
+      rejectedRequests: this.rejectedRequests,
+    };
+  }
+}
+
+/**
+ * Rate limits from LLM_RATE_LIMITS, a JSON object keyed by provider, e.g.
+ * {"openrouter":{"requestsPerMinute":20},"ollama":{"maxConcurrency":1}}
+ */
+function loadRateLimitOverrides(): Record<string, RateLimitConfig> {
+  const raw = process.env.LLM_RATE_LIMITS?.trim();
+  if (!raw) {
+    return {};
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    console.error('Ignoring LLM_RATE_LIMITS: not valid JSON');
+    return {};
+  }
+}
+
+export function getRateLimitConfig(provider: LLMProvider): RateLimitConfig {
+  return { ...DEFAULT_RATE_LIMITS[provider], ...loadRateLimitOverrides()[provider] };
+}
+
+// Kept on globalThis so every route bundle shares the same limits
+const globalForLimiters = globalThis as typeof globalThis & {
+  __providerRateLimiters?: Map<LLMProvider, ProviderRateLimiter>;
+};
+const limiters = (globalForLimiters.__providerRateLimiters ??= new Map());
+
+export function getProviderRateLimiter(provider: LLMProvider): ProviderRateLimiter {
+  let limiter = limiters.get(provider);
+  if (!limiter) {
+    limiter = new ProviderRateLimiter(provider, getRateLimitConfig(provider));
+    limiters.set(provider, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * Whether an error is worth retrying against the same provider:
+ * rate limits (429) and server errors (5xx)
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof RateLimitQueueFullError) {
+    return false;
+  }
+  const status = getErrorStatus(error);
+  return status !== undefined && (status === 429 || status >= 500);
+}
+
+// Fetch-style Headers, or the plain object some SDKs attach
+function readHeader(headers: unknown, name: string): string | undefined {
+  if (typeof headers !== 'object' || headers === null) {
+    return undefined;
+  }
+  if ('get' in headers && typeof headers.get === 'function') {
+    return headers.get(name) ?? undefined;
+  }
+  const record = headers as Record<string, unknown>;
+  const value = record[name] ?? record[name.toLowerCase()];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Delay requested by the provider through `Retry-After` (seconds or an HTTP
+ * date) or `retry-after-ms`, in milliseconds
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  const headers = getErrorHeaders(error);
+
+  const retryAfterMs = Number(readHeader(headers, 'retry-after-ms'));
+  if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = readHeader(headers, 'retry-after');
+  if (!retryAfter) {
+    return undefined;
+  }
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): the provider's Retry-After when
+ * given, otherwise exponential backoff with jitter. Undefined means give up.
+ */
+export function getRetryDelayMs(error: unknown, attempt: number, options: RetryOptions = RETRY_OPTIONS): number | undefined {
+  if (attempt >= options.maxRetries || !isRetryableError(error)) {
+    return undefined;
+  }
+
+  const retryAfterMs = getRetryAfterMs(error);
+  if (retryAfterMs !== undefined) {
+    // Waiting longer than the cap is left to fallbacks or the caller
+    return retryAfterMs <= options.maxDelayMs ? retryAfterMs : undefined;
+  }
+
+  const backoff = options.baseDelayMs * 2 ** attempt;
+  return Math.min(options.maxDelayMs, backoff / 2 + Math.random() * (backoff / 2));
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Aborted'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Aborted'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
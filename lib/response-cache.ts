@@ -0,0 +1,426 @@
+/**
+ * Response cache for chat models
+ * Replays identical completions (same normalized messages and LLM config)
+ * from memory or disk instead of paying for them again. Enabled with
+ * LLM_CACHE=memory|disk.
+ */
+
+import { createHash } from "crypto";
+import path from "path";
+import {
+  BaseChatModel,
+  type BaseChatModelCallOptions,
+  type BaseChatModelParams,
+  type BindToolsInput,
+} from "@langchain/core/language_models/chat_models";
+import type { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import {
+  AIMessage,
+  AIMessageChunk,
+  type BaseMessage,
+  type MessageContent,
+} from "@langchain/core/messages";
+import type { ToolCall } from "@langchain/core/messages/tool";
+import { ChatGenerationChunk, type ChatResult } from "@langchain/core/outputs";
+import { convertToOpenAITool } from "@langchain/core/utils/function_calling";
+import { getRespondingModel, type LLMConfig, type ProviderModel } from "./llm-providers";
+import {
+  bindWrappedTools,
+  generateWrapped,
+  streamWrapped,
+  type ChatModelRunnable,
+  type WrappedModel,
+} from "./wrapped-chat-model";
+
+export type CacheStatus = 'hit' | 'miss';
+
+export interface CachedResponse {
+  content: MessageContent;
+  additionalKwargs: Record<string, unknown>;
+  toolCalls: ToolCall[];
+  responseMetadata: Record<string, unknown>;
+  /** Text of each streamed chunk, replayed in order for streaming hits */
+  chunks?: string[];
+  respondedWith: ProviderModel;
+}
+
+export interface ResponseCacheStore {
+  get(key: string): Promise<CachedResponse | undefined>;
+  set(key: string, response: CachedResponse): Promise<void>;
+  clear(): Promise<void>;
+}
+
+interface StoredEntry {
+  expiresAt: number;
+  response: CachedResponse;
+}
+
+const CACHE_TTL_MS = Number(process.env.LLM_CACHE_TTL_MS) || 24 * 60 * 60 * 1000;
+const CACHE_MAX_ENTRIES = Number(process.env.LLM_CACHE_MAX_ENTRIES) || 500;
+
+// In-memory store, least recently used entries are evicted first
+export class MemoryCacheStore implements ResponseCacheStore {
+  private entries: Map<string, StoredEntry> = new Map();
+
+  constructor(private ttlMs: number, private maxEntries: number) {}
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    // Re-insert so the Map's insertion order tracks recency
+    this.entries.set(key, entry);
+    return entry.response;
+  }
+
+  async set(key: string, response: CachedResponse): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { expiresAt: Date.now() + this.ttlMs, response });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+// Disk store, one JSON file per entry; the oldest files are pruned first
+export class DiskCacheStore implements ResponseCacheStore {
+  constructor(private directory: string, private ttlMs: number, private maxEntries: number) {}
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const fs = await import("fs/promises");
+    try {
+      const entry: StoredEntry = JSON.parse(await fs.readFile(this.fileFor(key), 'utf-8'));
+      if (entry.expiresAt <= Date.now()) {
+        await fs.rm(this.fileFor(key), { force: true });
+        return undefined;
+      }
+      return entry.response;
+    } catch {
+      // Missing or unreadable entries are treated as misses
+      return undefined;
+    }
+  }
+
+  async set(key: string, response: CachedResponse): Promise<void> {
+    const fs = await import("fs/promises");
+    await fs.mkdir(this.directory, { recursive: true });
+    const entry: StoredEntry = { expiresAt: Date.now() + this.ttlMs, response };
+    await fs.writeFile(this.fileFor(key), JSON.stringify(entry), 'utf-8');
+    await this.prune();
+  }
+
+  async clear(): Promise<void> {
+    const fs = await import("fs/promises");
+    await fs.rm(this.directory, { recursive: true, force: true });
+  }
+
+  private async prune(): Promise<void> {
+    const fs = await import("fs/promises");
+    const names = (await fs.readdir(this.directory)).filter(name => name.endsWith('.json'));
+    if (names.length <= this.maxEntries) {
+      return;
+    }
+
+    const files = await Promise.all(
+      names.map(async name => {
+        const file = path.join(this.directory, name);
+        return { file, mtimeMs: (await fs.stat(file)).mtimeMs };
+      })
+    );
+    files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    await Promise.all(
+      files.slice(0, files.length - this.maxEntries).map(({ file }) => fs.rm(file, { force: true }))
+    );
+  }
+}
+
+// Kept on globalThis so every route bundle shares one in-memory cache
+const globalForCache = globalThis as typeof globalThis & { __responseCacheStore?: ResponseCacheStore | null };
+
+/**
+ * The configured cache store, or null when LLM_CACHE is not set
+ */
+export function getResponseCacheStore(): ResponseCacheStore | null {
+  if (globalForCache.__responseCacheStore === undefined) {
+    const mode = process.env.LLM_CACHE?.trim().toLowerCase();
+    if (mode === 'memory') {
+      globalForCache.__responseCacheStore = new MemoryCacheStore(CACHE_TTL_MS, CACHE_MAX_ENTRIES);
+    } else if (mode === 'disk') {
+      const directory = path.resolve(process.cwd(), process.env.LLM_CACHE_DIR || '.llm-cache');
+      globalForCache.__responseCacheStore = new DiskCacheStore(directory, CACHE_TTL_MS, CACHE_MAX_ENTRIES);
+    } else {
+      if (mode && mode !== 'off') {
+        console.warn(`Unknown LLM_CACHE mode "${mode}", response caching is disabled`);
+      }
+      globalForCache.__responseCacheStore = null;
+    }
+  }
+  return globalForCache.__responseCacheStore;
+}
+
+/**
+ * JSON with sorted object keys, so equal values always produce equal keys
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function normalizeMessage(message: BaseMessage) {
+  return {
+    role: message._getType(),
+    content: message.content,
+    name: message.name,
+    toolCalls: (message as AIMessage).tool_calls?.map(({ name, args }) => ({ name, args })),
+    toolCallId: (message as { tool_call_id?: string }).tool_call_id,
+  };
+}
+
+// Call options that change the completion; signals, timeouts and run metadata do not
+const KEYED_CALL_OPTIONS = ['stop', 'tools', 'tool_choice', 'response_format'];
+
+/**
+ * Only the parts of the config that change the completion; API keys never enter cache keys
+ */
+function keyedConfig(config: LLMConfig) {
+  return {
+    provider: config.provider,
+    model: config.model,
+    temperature: config.temperature,
+    maxTokens: config.maxTokens,
+    options: config.options,
+    baseURL: config.baseURL,
+    fallbacks: config.fallbacks,
+  };
+}
+
+export interface CachedChatModelParams extends BaseChatModelParams {
+  model: BaseChatModel;
+  store: ResponseCacheStore;
+  config: LLMConfig;
+  /** `model` with tools bound, invoked in its place */
+  runnable?: ChatModelRunnable;
+  /** Extra values distinguishing this model in cache keys, such as bound tools */
+  keyExtras?: Record<string, unknown>;
+  /** The model tools were bound to, which also reports this model's responses */
+  boundFrom?: CachedChatModel;
+}
+
+/**
+ * Chat model that answers from the response cache when an identical request
+ * was already completed, and otherwise calls the wrapped model and stores the result
+ */
+export class CachedChatModel extends BaseChatModel {
+  model: BaseChatModel;
+  store: ResponseCacheStore;
+  config: LLMConfig;
+  runnable?: ChatModelRunnable;
+  keyExtras: Record<string, unknown>;
+  boundFrom?: CachedChatModel;
+
+  /** Whether the latest response came from the cache */
+  cacheStatus?: CacheStatus;
+
+  /** Provider and model that produced the latest response */
+  respondedWith?: ProviderModel;
+
+  constructor(fields: CachedChatModelParams) {
+    super(fields);
+    this.model = fields.model;
+    this.store = fields.store;
+    this.config = fields.config;
+    this.runnable = fields.runnable;
+    this.keyExtras = fields.keyExtras ?? {};
+    this.boundFrom = fields.boundFrom;
+  }
+
+  _llmType(): string {
+    return 'cached';
+  }
+
+  private get wrapped(): WrappedModel {
+    return {
+      provider: this.config.provider,
+      model: this.config.model,
+      chatModel: this.model,
+      runnable: this.runnable,
+    };
+  }
+
+  bindTools(tools: BindToolsInput[], kwargs?: Partial<BaseChatModelCallOptions>): CachedChatModel {
+    return new CachedChatModel({
+      model: this.model,
+      store: this.store,
+      config: this.config,
+      runnable: bindWrappedTools(this.wrapped, tools, kwargs),
+      keyExtras: {
+        tools: tools.map(tool => convertToOpenAITool(tool)),
+        kwargs,
+      },
+      boundFrom: this,
+    });
+  }
+
+  /**
+   * Routes report the model they created, while agents and structured output
+   * call a copy with tools bound
+   */
+  private recordResponse(cacheStatus: CacheStatus, respondedWith: ProviderModel): void {
+    this.cacheStatus = cacheStatus;
+    this.respondedWith = respondedWith;
+    this.boundFrom?.recordResponse(cacheStatus, respondedWith);
+  }
+
+  private cacheKey(messages: BaseMessage[], options: this["ParsedCallOptions"]): string {
+    const keyedOptions = Object.fromEntries(
+      KEYED_CALL_OPTIONS.map(name => [name, (options as Record<string, unknown>)[name]])
+    );
+    const payload = stableStringify({
+      config: keyedConfig(this.config),
+      messages: messages.map(normalizeMessage),
+      options: keyedOptions,
+      extras: this.keyExtras,
+    });
+    return createHash('sha256').update(payload).digest('hex');
+  }
+
+  private toCachedResponse(message: AIMessage | AIMessageChunk, chunks?: string[]): CachedResponse {
+    return {
+      content: message.content,
+      additionalKwargs: message.additional_kwargs,
+      toolCalls: message.tool_calls ?? [],
+      responseMetadata: message.response_metadata,
+      chunks,
+      respondedWith: getRespondingModel(this.model, this.config),
+    };
+  }
+
+  /**
+   * Cached replies carry no usage metadata: replaying them costs no tokens
+   */
+  private fromCachedResponse(cached: CachedResponse): AIMessage {
+    return new AIMessage({
+      content: cached.content,
+      additional_kwargs: cached.additionalKwargs,
+      tool_calls: cached.toolCalls,
+      response_metadata: { ...cached.responseMetadata, cached: true },
+    });
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+  ): Promise<ChatResult> {
+    const key = this.cacheKey(messages, options);
+    const cached = await this.store.get(key);
+
+    if (cached) {
+      this.recordResponse('hit', cached.respondedWith);
+      const message = this.fromCachedResponse(cached);
+      return { generations: [{ text: message.text, message }] };
+    }
+
+    const result = await generateWrapped(this.wrapped, messages, options);
+    this.recordResponse('miss', getRespondingModel(this.model, this.config));
+    await this.store.set(key, this.toCachedResponse(result.generations[0].message));
+    return result;
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun,
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const key = this.cacheKey(messages, options);
+    const cached = await this.store.get(key);
+
+    if (cached) {
+      this.recordResponse('hit', cached.respondedWith);
+      for (const chunk of replayChunks(cached)) {
+        const generationChunk = new ChatGenerationChunk({ message: chunk, text: chunk.text });
+        yield generationChunk;
+        await runManager?.handleLLMNewToken(generationChunk.text, undefined, undefined, undefined, undefined, { chunk: generationChunk });
+      }
+      return;
+    }
+
+    let aggregated: AIMessageChunk | undefined;
+    const texts: string[] = [];
+    yield* streamWrapped(this.wrapped, messages, options, runManager, (chunk) => {
+      if (!aggregated) {
+        this.recordResponse('miss', getRespondingModel(this.model, this.config));
+      }
+      aggregated = aggregated ? aggregated.concat(chunk) : chunk;
+      if (chunk.text) {
+        texts.push(chunk.text);
+      }
+    });
+
+    // Only complete streams are stored; an aborted or failed stream throws before this point
+    if (aggregated) {
+      await this.store.set(key, this.toCachedResponse(aggregated, texts));
+    }
+  }
+}
+
+/**
+ * Rebuild the chunks of a cached reply: the recorded text chunks, then any tool calls
+ */
+function replayChunks(cached: CachedResponse): AIMessageChunk[] {
+  const texts = cached.chunks ?? (typeof cached.content === 'string' ? [cached.content] : []);
+  const chunks = texts.map(text => new AIMessageChunk({ content: text }));
+
+  if (!cached.chunks && typeof cached.content !== 'string') {
+    chunks.push(new AIMessageChunk({ content: cached.content }));
+  }
+  if (cached.toolCalls.length > 0) {
+    chunks.push(
+      new AIMessageChunk({
+        content: '',
+        tool_call_chunks: cached.toolCalls.map((toolCall, index) => ({
+          name: toolCall.name,
+          args: JSON.stringify(toolCall.args),
+          id: toolCall.id,
+          index,
+          type: 'tool_call_chunk' as const,
+        })),
+      })
+    );
+  }
+  if (chunks.length > 0) {
+    chunks[chunks.length - 1] = chunks[chunks.length - 1].concat(
+      new AIMessageChunk({ content: '', response_metadata: { ...cached.responseMetadata, cached: true } })
+    );
+  }
+  return chunks;
+}
+
+/**
+ * Whether the latest response of a model from createChatModel came from the cache;
+ * undefined when caching is off for the model
+ */
+export function getCacheStatus(model: BaseChatModel): CacheStatus | undefined {
+  return model instanceof CachedChatModel ? model.cacheStatus : undefined;
+}
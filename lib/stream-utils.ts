@@ -0,0 +1,288 @@
+/**
+ * Streaming helpers shared by the chat routes
+ */
+
+import { formatStreamPart } from "ai";
+import { BaseMessage, type AIMessage, type ToolMessage } from "@langchain/core/messages";
+import type { StreamEvent } from "@langchain/core/tracers/log_stream";
+
+import type { ConversationSource, IntermediateStep } from "./conversations";
+import type { GuardrailDecision } from "./guardrails";
+
+/**
+ * Read the first chunk of a stream before the HTTP response is created.
+ * Errors raised while generation starts then surface as regular error
+ * responses, and headers can describe the model that actually answered.
+ */
+export async function primeStream<T>(stream: ReadableStream<T>): Promise<ReadableStream<T>> {
+  const reader = stream.getReader();
+  const first = await reader.read();
+
+  return new ReadableStream<T>({
+    start(controller) {
+      if (first.done) {
+        controller.close();
+      } else {
+        controller.enqueue(first.value);
+      }
+    },
+    async pull(controller) {
+      if (first.done) {
+        return;
+      }
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * primeStream for a generator of events, e.g. the events of an agent run,
+ * whose first event follows the first model response
+ */
+export async function primeEvents<T>(events: AsyncGenerator<T>): Promise<AsyncGenerator<T>> {
+  const first = await events.next();
+
+  return (async function* () {
+    if (first.done) {
+      return;
+    }
+    yield first.value;
+    yield* events;
+  })();
+}
+
+export type StreamProtocol = 'text' | 'data';
+
+export interface StreamUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+/**
+ * What a chat route streams back. Routes emit tokens, sources, tool
+ * activity and guardrail decisions; usage, error and done are added when
+ * the stream is encoded.
+ */
+export type ChatStreamEvent =
+  | { type: 'token'; text: string }
+  | { type: 'sources'; sources: ConversationSource[] }
+  | { type: 'tool_call'; toolCallId: string; toolName: string; args: Record<string, unknown> }
+  | { type: 'tool_result'; toolCallId: string; result: string }
+  | { type: 'guardrail'; decision: GuardrailDecision }
+  | { type: 'usage'; usage: StreamUsage }
+  | { type: 'error'; message: string }
+  | { type: 'done'; finishReason: 'stop' | 'error'; usage: StreamUsage };
+
+/** The reply a chat event stream added up to, e.g. to store in a conversation */
+export interface ChatStreamReply {
+  content: string;
+  sources?: ConversationSource[];
+  intermediateSteps?: IntermediateStep[];
+}
+
+/**
+ * One event in the AI SDK data stream protocol. Sources, guardrail decisions
+ * and usage travel as message annotations keyed by their kind; tool calls and their results as
+ * tool parts, so `useChat` exposes them as `toolInvocations`.
+ */
+function formatChatEvent(event: ChatStreamEvent): string {
+  switch (event.type) {
+    case 'token':
+      return formatStreamPart('text', event.text);
+    case 'sources':
+      return formatStreamPart('message_annotations', [
+        { sources: event.sources.map(({ pageContent, metadata }) => ({ pageContent, metadata })) },
+      ]);
+    case 'tool_call':
+      return formatStreamPart('tool_call', {
+        toolCallId: event.toolCallId,
+        toolName: event.toolName,
+        args: event.args,
+      });
+    case 'tool_result':
+      return formatStreamPart('tool_result', { toolCallId: event.toolCallId, result: event.result });
+    case 'guardrail':
+      return formatStreamPart('message_annotations', [{ guardrail: { ...event.decision } }]);
+    case 'usage':
+      return formatStreamPart('message_annotations', [{ usage: { ...event.usage } }]);
+    case 'error':
+      return formatStreamPart('error', event.message);
+    case 'done':
+      return formatStreamPart('finish_message', {
+        finishReason: event.finishReason,
+        usage: { promptTokens: event.usage.inputTokens, completionTokens: event.usage.outputTokens },
+      });
+  }
+}
+
+/**
+ * Tokens of a text or byte stream, e.g. a chain ending in an output parser
+ */
+export async function* textStreamEvents(
+  stream: ReadableStream<Uint8Array | string>
+): AsyncGenerator<ChatStreamEvent> {
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      const text = typeof value === 'string' ? value : decoder.decode(value, { stream: true });
+      if (text) {
+        yield { type: 'token', text };
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Tokens and tool activity of a LangGraph agent run from `streamEvents`.
+ * Model generations that call tools carry no content, so only the answer
+ * is streamed as tokens.
+ */
+export async function* agentStreamEvents(events: AsyncIterable<StreamEvent>): AsyncGenerator<ChatStreamEvent> {
+  for await (const { event, data } of events) {
+    if (event === 'on_chat_model_stream') {
+      if (!!data.chunk?.content) {
+        yield { type: 'token', text: data.chunk.content };
+      }
+    } else if (event === 'on_chat_model_end' && data.output instanceof BaseMessage) {
+      for (const [index, call] of ((data.output as AIMessage).tool_calls ?? []).entries()) {
+        yield { type: 'tool_call', toolCallId: call.id ?? `call_${index}`, toolName: call.name, args: call.args };
+      }
+    } else if (event === 'on_tool_end' && data.output instanceof BaseMessage) {
+      const message = data.output as ToolMessage;
+      yield {
+        type: 'tool_result',
+        toolCallId: message.tool_call_id,
+        result: typeof message.content === 'string' ? message.content : JSON.stringify(message.content),
+      };
+    }
+  }
+}
+
+/**
+ * Encode the events of a chat route for the requested protocol, from a
+ * generator or, for answers that are complete at once, an array.
+ *
+ * With the AI SDK `data` protocol every event is a stream part, the stream
+ * ends with the token usage of the request (a message annotation including
+ * cost) and a finish part, and an error after the response started is sent
+ * as an error part. Plain `text` carries only the tokens.
+ *
+ * `onComplete` receives the reply once the events ran out, or the part sent
+ * so far when the client disconnects, e.g. a user stopping the answer; it is
+ * not called when generation fails.
+ */
+export function encodeChatEvents(
+  events: AsyncIterable<ChatStreamEvent> | Iterable<ChatStreamEvent>,
+  options: {
+    protocol: StreamProtocol | undefined;
+    getUsage: () => StreamUsage;
+    onComplete?: (reply: ChatStreamReply) => void | Promise<void>;
+    /** Error message for clients, e.g. with API keys redacted */
+    formatError?: (error: Error) => string;
+  }
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator: AsyncIterator<ChatStreamEvent> | Iterator<ChatStreamEvent> =
+    Symbol.asyncIterator in events ? events[Symbol.asyncIterator]() : events[Symbol.iterator]();
+  const reply: ChatStreamReply = { content: '' };
+  const toolCalls = new Map<string, IntermediateStep['action']>();
+  const intermediateSteps: IntermediateStep[] = [];
+  // Set when the client disconnects; generation still in flight then fails with an abort
+  let cancelled = false;
+
+  function getReply(): ChatStreamReply {
+    return { ...reply, ...(intermediateSteps.length > 0 && { intermediateSteps }) };
+  }
+
+  function encode(event: ChatStreamEvent): Uint8Array | undefined {
+    if (options.protocol === 'data') {
+      return encoder.encode(formatChatEvent(event));
+    }
+    return event.type === 'token' ? encoder.encode(event.text) : undefined;
+  }
+
+  function collect(event: ChatStreamEvent): void {
+    if (event.type === 'token') {
+      reply.content += event.text;
+    } else if (event.type === 'sources') {
+      reply.sources = event.sources;
+    } else if (event.type === 'tool_call') {
+      toolCalls.set(event.toolCallId, { name: event.toolName, args: event.args, id: event.toolCallId });
+    } else if (event.type === 'tool_result') {
+      intermediateSteps.push({
+        action: toolCalls.get(event.toolCallId) ?? { name: 'tool', args: {}, id: event.toolCallId },
+        observation: event.result,
+      });
+    }
+  }
+
+  return new ReadableStream<Uint8Array>({
+    // Pulls until something was enqueued, as text clients skip most events
+    async pull(controller) {
+      try {
+        while (true) {
+          const { done, value } = await iterator.next();
+          if (done) {
+            await options.onComplete?.(getReply());
+            const usage = options.getUsage();
+            for (const event of [
+              { type: 'usage', usage },
+              { type: 'done', finishReason: 'stop', usage },
+            ] as ChatStreamEvent[]) {
+              const chunk = encode(event);
+              if (chunk) {
+                controller.enqueue(chunk);
+              }
+            }
+            controller.close();
+            return;
+          }
+
+          collect(value);
+          const chunk = encode(value);
+          if (chunk) {
+            controller.enqueue(chunk);
+            return;
+          }
+        }
+      } catch (e: any) {
+        if (cancelled) {
+          return;
+        }
+        if (options.protocol !== 'data') {
+          controller.error(e);
+          return;
+        }
+        const message = options.formatError?.(e) ?? e.message;
+        controller.enqueue(encode({ type: 'error', message })!);
+        controller.enqueue(encode({ type: 'done', finishReason: 'error', usage: options.getUsage() })!);
+        controller.close();
+      }
+    },
+    async cancel(reason) {
+      cancelled = true;
+      await iterator.return?.(reason);
+      // A stopped answer is kept as far as the client received it
+      if (reply.content || intermediateSteps.length > 0) {
+        await options.onComplete?.(getReply());
+      }
+    },
+  });
+}
@@ -0,0 +1,183 @@
+/**
+ * Token usage and cost accounting
+ * Captures usage through LangChain callbacks and aggregates it by
+ * provider, model, route and day
+ */
+
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import type { AIMessage } from "@langchain/core/messages";
+import type { ChatGeneration, LLMResult } from "@langchain/core/outputs";
+import {
+  estimateCost,
+  getRespondingModel,
+  type LLMProvider,
+  type ProviderModel,
+} from "./llm-providers";
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface UsageSummary extends TokenUsage {
+  calls: number;
+  costUsd: number;
+  /** Calls to models without a known price, not included in costUsd */
+  unpricedCalls: number;
+}
+
+interface UsageBucket extends UsageSummary {
+  day: string;
+  route: string;
+  provider: LLMProvider;
+  model: string;
+}
+
+export type UsageDimension = 'provider' | 'model' | 'route' | 'day';
+
+function emptySummary(): UsageSummary {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0, unpricedCalls: 0 };
+}
+
+function addToSummary(summary: UsageSummary, usage: UsageSummary): void {
+  summary.calls += usage.calls;
+  summary.inputTokens += usage.inputTokens;
+  summary.outputTokens += usage.outputTokens;
+  summary.totalTokens += usage.totalTokens;
+  summary.costUsd += usage.costUsd;
+  summary.unpricedCalls += usage.unpricedCalls;
+}
+
+/**
+ * Read token usage from a model result. Chat models attach `usage_metadata`
+ * to the generated message; older integrations only report `llmOutput.tokenUsage`.
+ */
+function extractUsage(output: LLMResult): TokenUsage {
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let found = false;
+
+  for (const generations of output.generations) {
+    for (const generation of generations) {
+      const usage = ((generation as ChatGeneration).message as AIMessage | undefined)?.usage_metadata;
+      if (usage) {
+        found = true;
+        inputTokens += usage.input_tokens;
+        outputTokens += usage.output_tokens;
+      }
+    }
+  }
+
+  if (!found) {
+    const tokenUsage = output.llmOutput?.tokenUsage ?? output.llmOutput?.estimatedTokenUsage;
+    inputTokens = tokenUsage?.promptTokens ?? 0;
+    outputTokens = tokenUsage?.completionTokens ?? 0;
+  }
+
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+}
+
+// Usage store aggregating calls into per day/route/provider/model buckets
+export class UsageStore {
+  private buckets: Map<string, UsageBucket> = new Map();
+
+  record(
+    entry: { route: string; provider: LLMProvider; model: string; usage: TokenUsage; costUsd?: number },
+    date: Date = new Date()
+  ): void {
+    const day = date.toISOString().slice(0, 10);
+    const key = [day, entry.route, entry.provider, entry.model].join('|');
+
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = { day, route: entry.route, provider: entry.provider, model: entry.model, ...emptySummary() };
+      this.buckets.set(key, bucket);
+    }
+
+    addToSummary(bucket, {
+      calls: 1,
+      ...entry.usage,
+      costUsd: entry.costUsd ?? 0,
+      unpricedCalls: entry.costUsd === undefined ? 1 : 0,
+    });
+  }
+
+  private getBuckets(range: { from?: string; to?: string } = {}): UsageBucket[] {
+    return Array.from(this.buckets.values()).filter(bucket =>
+      (!range.from || bucket.day >= range.from) && (!range.to || bucket.day <= range.to)
+    );
+  }
+
+  getTotals(range?: { from?: string; to?: string }): UsageSummary {
+    const totals = emptySummary();
+    for (const bucket of this.getBuckets(range)) {
+      addToSummary(totals, bucket);
+    }
+    return totals;
+  }
+
+  summarize(dimension: UsageDimension, range?: { from?: string; to?: string }) {
+    const groups = new Map<string, UsageSummary & Record<string, unknown>>();
+
+    for (const bucket of this.getBuckets(range)) {
+      const fields: Record<string, string> = dimension === 'model'
+        ? { provider: bucket.provider, model: bucket.model }
+        : { [dimension]: bucket[dimension] };
+      const key = Object.values(fields).join('|');
+
+      let group = groups.get(key);
+      if (!group) {
+        group = { ...fields, ...emptySummary() };
+        groups.set(key, group);
+      }
+      addToSummary(group, bucket);
+    }
+
+    return Array.from(groups.values());
+  }
+}
+
+/**
+ * Callback handler that records the usage of every chat model call in a
+ * request. Attach it to chain/agent invocations through `callbacks`.
+ */
+export class UsageCallbackHandler extends BaseCallbackHandler {
+  name = 'usage_tracker';
+
+  /** Usage of the request so far, across all model calls */
+  usage: UsageSummary = emptySummary();
+
+  private route: string;
+  private model: BaseChatModel;
+  private config: ProviderModel;
+
+  constructor(options: { route: string; model: BaseChatModel; config: ProviderModel }) {
+    // Awaited so the usage is complete by the time a response stream ends
+    super({ _awaitHandler: true });
+    this.route = options.route;
+    this.model = options.model;
+    this.config = options.config;
+  }
+
+  async handleLLMEnd(output: LLMResult): Promise<void> {
+    const usage = extractUsage(output);
+    // Fallback chains may have answered with a different provider than configured
+    const { provider, model } = getRespondingModel(this.model, this.config);
+    const costUsd = estimateCost(provider, model, usage);
+
+    globalUsageStore.record({ route: this.route, provider, model, usage, costUsd });
+    addToSummary(this.usage, {
+      calls: 1,
+      ...usage,
+      costUsd: costUsd ?? 0,
+      unpricedCalls: costUsd === undefined ? 1 : 0,
+    });
+  }
+}
+
+// Export singleton instance for global use
+// Kept on globalThis so every route bundle records into the same store
+const globalForUsage = globalThis as typeof globalThis & { __usageStore?: UsageStore };
+export const globalUsageStore = (globalForUsage.__usageStore ??= new UsageStore());
@@ -0,0 +1,65 @@
+/**
+ * User-supplied provider API keys
+ * The LLM Providers page sends the keys a user saved in their browser with
+ * each request. They are used for that request only: never stored, logged or
+ * returned by the server.
+ */
+
+import { createHash } from "crypto";
+import { isSupportedProvider, type LLMProvider } from "./llm-providers";
+
+export const USER_API_KEYS_HEADER = 'x-llm-api-keys';
+
+export type UserApiKeys = Partial<Record<LLMProvider, string>>;
+
+/**
+ * Read the user's API keys from the `x-llm-api-keys` header, a JSON object
+ * mapping providers to keys. Malformed headers and unknown providers are ignored.
+ */
+export function getUserApiKeys(req: Request): UserApiKeys {
+  const header = req.headers.get(USER_API_KEYS_HEADER);
+  if (!header) {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(header);
+  } catch {
+    return {};
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return {};
+  }
+
+  const apiKeys: UserApiKeys = {};
+  for (const [provider, key] of Object.entries(parsed)) {
+    if (isSupportedProvider(provider) && typeof key === 'string' && key.trim()) {
+      apiKeys[provider] = key.trim();
+    }
+  }
+  return apiKeys;
+}
+
+/**
+ * Cache key for results that depend on the API key in use, so one user's
+ * key never answers for another. Only a hash of the key is kept.
+ */
+export function getApiKeyCacheKey(provider: LLMProvider, apiKey?: string): string {
+  if (!apiKey) {
+    return provider;
+  }
+  const fingerprint = createHash('sha256').update(apiKey).digest('hex').slice(0, 16);
+  return `${provider}:${fingerprint}`;
+}
+
+/**
+ * Remove user-supplied keys from text that is sent back to the client,
+ * such as provider error messages
+ */
+export function redactApiKeys(text: string, apiKeys: UserApiKeys): string {
+  return Object.values(apiKeys).reduce<string>(
+    (redacted, key) => (key ? redacted.split(key).join('[redacted]') : redacted),
+    text
+  );
+}
@@ -0,0 +1,66 @@
+/**
+ * Embedding model bookkeeping for vector store collections
+ * Every ingested chunk records the embedding model that produced its vector
+ * in `metadata.embeddingModel`, so a collection is never queried or extended
+ * with vectors from a different model
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { DEFAULT_EMBEDDING_MODELS, getEmbeddingsId } from "./llm-providers";
+
+// Collections ingested before models were recorded only ever used OpenAI's default
+const LEGACY_EMBEDDINGS_ID = getEmbeddingsId({ provider: 'openai', model: DEFAULT_EMBEDDING_MODELS.openai! });
+
+export class EmbeddingModelMismatchError extends Error {
+  status = 409;
+  code = 'embedding_model_mismatch' as const;
+
+  constructor(collection: string, collectionModel: string, requestedModel: string) {
+    super(
+      `Collection "${collection}" was embedded with ${collectionModel}, but ${requestedModel} was requested. ` +
+      `Use ${collectionModel} or ingest into an empty collection.`
+    );
+    this.name = 'EmbeddingModelMismatchError';
+  }
+}
+
+/**
+ * The embedding model of a collection, or undefined when the collection is empty
+ */
+export async function getCollectionEmbeddingModel(
+  client: SupabaseClient,
+  tableName: string
+): Promise<string | undefined> {
+  const recorded = await client
+    .from(tableName)
+    .select('embeddingModel:metadata->>embeddingModel')
+    .not('metadata->>embeddingModel', 'is', null)
+    .limit(1);
+  if (recorded.error) {
+    throw new Error(`Failed to read embedding model of collection "${tableName}": ${recorded.error.message}`);
+  }
+  if (recorded.data.length > 0) {
+    return (recorded.data[0] as { embeddingModel: string }).embeddingModel;
+  }
+
+  const any = await client.from(tableName).select('id').limit(1);
+  if (any.error) {
+    throw new Error(`Failed to read collection "${tableName}": ${any.error.message}`);
+  }
+  return any.data.length > 0 ? LEGACY_EMBEDDINGS_ID : undefined;
+}
+
+/**
+ * Throw an EmbeddingModelMismatchError (409) when the collection holds vectors
+ * from a different embedding model
+ */
+export async function assertCollectionEmbeddings(
+  client: SupabaseClient,
+  tableName: string,
+  embeddingsId: string
+): Promise<void> {
+  const collectionModel = await getCollectionEmbeddingModel(client, tableName);
+  if (collectionModel && collectionModel !== embeddingsId) {
+    throw new EmbeddingModelMismatchError(tableName, collectionModel, embeddingsId);
+  }
+}
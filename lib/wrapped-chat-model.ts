@@ -0,0 +1,75 @@
+/**
+ * Wrapped chat models
+ * Plumbing shared by the chat models that add behaviour around another
+ * chat model: the rate limiter, fallback chains and the response cache
+ */
+
+import type {
+  BaseChatModel,
+  BaseChatModelCallOptions,
+  BindToolsInput,
+} from "@langchain/core/language_models/chat_models";
+import type { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import type { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import type { AIMessageChunk, BaseMessage } from "@langchain/core/messages";
+import { ChatGenerationChunk, type ChatResult } from "@langchain/core/outputs";
+import type { Runnable } from "@langchain/core/runnables";
+import type { ProviderModel } from "./llm-providers";
+
+/** A chat model, or a chat model with tools bound */
+export type ChatModelRunnable = Runnable<BaseLanguageModelInput, AIMessageChunk, BaseChatModelCallOptions>;
+
+export interface WrappedModel extends ProviderModel {
+  chatModel: BaseChatModel;
+  /** Runnable actually invoked; defaults to `chatModel` (set when tools are bound) */
+  runnable?: ChatModelRunnable;
+}
+
+/**
+ * The wrapped model with tools bound, for the wrapper's own bindTools
+ */
+export function bindWrappedTools(
+  wrapped: WrappedModel,
+  tools: BindToolsInput[],
+  kwargs?: Partial<BaseChatModelCallOptions>
+): ChatModelRunnable {
+  if (typeof wrapped.chatModel.bindTools !== 'function') {
+    throw new Error(`Model ${wrapped.model} of provider ${wrapped.provider} does not support tool calling`);
+  }
+  return wrapped.chatModel.bindTools(tools, kwargs);
+}
+
+/**
+ * Generate a reply with the wrapped model
+ */
+export async function generateWrapped(
+  wrapped: WrappedModel,
+  messages: BaseMessage[],
+  options: BaseChatModelCallOptions
+): Promise<ChatResult> {
+  const message = await (wrapped.runnable ?? wrapped.chatModel).invoke(messages, options);
+  return {
+    generations: [{ text: message.text, message }],
+    llmOutput: message.response_metadata,
+  };
+}
+
+/**
+ * Stream a reply from the wrapped model. `onChunk` sees each message chunk
+ * before it is passed on, e.g. to note that the stream has started.
+ */
+export async function* streamWrapped(
+  wrapped: WrappedModel,
+  messages: BaseMessage[],
+  options: BaseChatModelCallOptions,
+  runManager?: CallbackManagerForLLMRun,
+  onChunk?: (chunk: AIMessageChunk) => void
+): AsyncGenerator<ChatGenerationChunk> {
+  const stream = await (wrapped.runnable ?? wrapped.chatModel).stream(messages, options);
+  for await (const chunk of stream) {
+    onChunk?.(chunk);
+    const generationChunk = new ChatGenerationChunk({ message: chunk, text: chunk.text });
+    yield generationChunk;
+    await runManager?.handleLLMNewToken(generationChunk.text, undefined, undefined, undefined, undefined, { chunk: generationChunk });
+  }
+}
@@ -88,7 +88,7 @@ test.describe('100% Function Coverage Tests', () => {
         }
       });
       
-      expect(response.status()).toBe(500);
+      expect(response.status()).toBe(400);
     });
 
     test('should handle empty messages array', async ({ page }) => {
@@ -99,7 +99,7 @@ test.describe('100% Function Coverage Tests', () => {
         }
       });
       
-      expect(response.status()).toBe(500);
+      expect(response.status()).toBe(400);
     });
   });
 
@@ -142,7 +142,7 @@ test.describe('MCP Server Integration E2E Tests', () => {
       }
     });
 
-    expect(response.status()).toBe(500);
+    expect(response.status()).toBe(403);
     const result = await response.json();
     expect(result.error).toContain('Access denied');
   });
@@ -170,7 +170,7 @@ test.describe('MCP Server Integration E2E Tests', () => {
       }
     });
 
-    expect(response.status()).toBe(500);
+    expect(response.status()).toBe(400);
     const result = await response.json();
     expect(result.error).toBeDefined();
   });
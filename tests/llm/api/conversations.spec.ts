@@ -0,0 +1,267 @@
+import { test, expect } from '@playwright/test';
+
+test.describe('Conversations API', () => {
+  test('should record, list, rename and delete a conversation', async ({ page }) => {
+    const conversationId = `spec-${Date.now()}`;
+
+    const first = await page.request.post('/api/chat', {
+      data: {
+        messages: [
+          { role: 'user', content: 'Hello' }
+        ],
+        provider: 'mock',
+        conversationId
+      }
+    });
+    expect(first.status()).toBe(200);
+    expect(first.headers()['x-conversation-id']).toBe(conversationId);
+    const reply = await first.text();
+
+    const second = await page.request.post('/api/chat', {
+      data: {
+        messages: [
+          { role: 'user', content: 'Hello' },
+          { role: 'assistant', content: reply },
+          { role: 'user', content: 'Tell me more' }
+        ],
+        provider: 'mock',
+        conversationId
+      }
+    });
+    expect(second.status()).toBe(200);
+    await second.text();
+
+    const fetched = await page.request.get(`/api/conversations/${conversationId}`);
+    expect(fetched.status()).toBe(200);
+    const { conversation } = await fetched.json();
+    expect(conversation.title).toBe('Hello');
+    expect(conversation.endpoint).toBe('/api/chat');
+    expect(conversation.persona).toBe('patchy');
+    expect(conversation.messages.map(message => message.role)).toEqual(['user', 'assistant', 'user', 'assistant']);
+    expect(conversation.messages[1].content).toBe(reply);
+    expect(conversation.messages[1].provider).toBe('mock');
+
+    const listed = await page.request.get('/api/conversations?endpoint=/api/chat');
+    expect(listed.status()).toBe(200);
+    const summary = (await listed.json()).conversations.find(item => item.id === conversationId);
+    expect(summary.messageCount).toBe(4);
+    expect(summary).not.toHaveProperty('messages');
+
+    const renamed = await page.request.patch(`/api/conversations/${conversationId}`, {
+      data: { title: 'Greetings' }
+    });
+    expect(renamed.status()).toBe(200);
+    expect((await renamed.json()).conversation.title).toBe('Greetings');
+
+    const deleted = await page.request.delete(`/api/conversations/${conversationId}`);
+    expect(deleted.status()).toBe(200);
+    expect((await page.request.get(`/api/conversations/${conversationId}`)).status()).toBe(404);
+  });
+
+  test('should record the tool calls of agents', async ({ page }) => {
+    const conversationId = `spec-agents-${Date.now()}`;
+
+    const response = await page.request.post('/api/chat/agents', {
+      data: {
+        messages: [
+          { role: 'user', content: 'what is 6 times 7' }
+        ],
+        provider: 'mock',
+        conversationId
+      }
+    });
+    expect(response.status()).toBe(200);
+    await response.text();
+
+    const { conversation } = await (await page.request.get(`/api/conversations/${conversationId}`)).json();
+    const answer = conversation.messages[1];
+    expect(answer.content).toContain('42');
+    expect(answer.intermediateSteps).toEqual([
+      expect.objectContaining({
+        action: expect.objectContaining({ name: 'calculator' }),
+        observation: '42'
+      })
+    ]);
+
+    await page.request.delete(`/api/conversations/${conversationId}`);
+  });
+
+  test('should keep edited messages and regenerated replies as branches', async ({ page }) => {
+    const conversationId = `spec-branches-${Date.now()}`;
+    const send = (content: string, fields: Record<string, unknown> = {}) =>
+      page.request.post('/api/chat', {
+        data: {
+          messages: [
+            { role: 'user', content }
+          ],
+          provider: 'mock',
+          conversationId,
+          ...fields
+        }
+      });
+
+    expect((await send('Hello')).status()).toBe(200);
+    const edited = await send('Hi there', { parentMessageId: null });
+    expect(edited.status()).toBe(200);
+    await edited.text();
+    const regenerated = await send('Hello', { replyToMessageId: '0' });
+    expect(regenerated.status()).toBe(200);
+    await regenerated.text();
+
+    const { conversation } = await (await page.request.get(`/api/conversations/${conversationId}`)).json();
+    expect(conversation.messages.map(message => [message.id, message.parentId, message.role])).toEqual([
+      ['0', null, 'user'],
+      ['1', '0', 'assistant'],
+      ['2', null, 'user'],
+      ['3', '2', 'assistant'],
+      ['4', '0', 'assistant']
+    ]);
+
+    const jsonl = await page.request.get(`/api/conversations/${conversationId}/export?format=jsonl`);
+    const example = JSON.parse((await jsonl.text()).trim());
+    expect(example.messages.filter(message => message.role === 'user')).toEqual([{ role: 'user', content: 'Hello' }]);
+
+    expect((await send('Hello', { replyToMessageId: '1' })).status()).toBe(400);
+    expect((await send('Hello', { parentMessageId: '99' })).status()).toBe(400);
+
+    await page.request.delete(`/api/conversations/${conversationId}`);
+  });
+
+  test('should keep the part of an answer received before the client disconnected', async ({ page }) => {
+    const conversationId = `spec-stop-${Date.now()}`;
+    const shanty = 'Yo ho, heave ho! '.repeat(37) + 'Yo ho, heave ho!';
+
+    // The mock streams this answer over about 3 seconds
+    await expect(page.request.post('/api/chat', {
+      data: {
+        messages: [
+          { role: 'user', content: 'tell me a long sea shanty' }
+        ],
+        provider: 'mock',
+        conversationId
+      },
+      timeout: 1500
+    })).rejects.toThrow();
+
+    await expect.poll(async () => {
+      const { conversation } = await (await page.request.get(`/api/conversations/${conversationId}`)).json();
+      return conversation.messages.length;
+    }).toBe(2);
+    const { conversation } = await (await page.request.get(`/api/conversations/${conversationId}`)).json();
+    const reply = conversation.messages[1].content;
+    expect(reply.length).toBeLessThan(shanty.length);
+    expect(shanty.startsWith(reply)).toBe(true);
+
+    await page.request.delete(`/api/conversations/${conversationId}`);
+  });
+
+  test('should keep the part of a retrieval answer received before the client disconnected', async ({ page }) => {
+    const conversationId = `spec-stop-retrieval-${Date.now()}`;
+    const shanty = 'Yo ho, heave ho! '.repeat(37) + 'Yo ho, heave ho!';
+
+    // The question is condensed and the documents retrieved before the answer streams
+    await expect(page.request.post('/api/chat/retrieval', {
+      data: {
+        messages: [
+          { role: 'user', content: 'tell me a long sea shanty' }
+        ],
+        provider: 'mock',
+        conversationId
+      },
+      timeout: 2000
+    })).rejects.toThrow();
+
+    await expect.poll(async () => {
+      const { conversation } = await (await page.request.get(`/api/conversations/${conversationId}`)).json();
+      return conversation.messages.length;
+    }).toBe(2);
+    const { conversation } = await (await page.request.get(`/api/conversations/${conversationId}`)).json();
+    const reply = conversation.messages[1].content;
+    expect(reply.length).toBeLessThan(shanty.length);
+    expect(shanty.startsWith(reply)).toBe(true);
+
+    await page.request.delete(`/api/conversations/${conversationId}`);
+  });
+
+  test('should reject invalid conversation ids', async ({ page }) => {
+    const response = await page.request.post('/api/chat', {
+      data: {
+        messages: [
+          { role: 'user', content: 'Hello' }
+        ],
+        provider: 'mock',
+        conversationId: '../outside'
+      }
+    });
+
+    expect(response.status()).toBe(400);
+    const errorData = await response.json();
+    expect(errorData.error).toContain('conversationId');
+  });
+
+  test('should export a conversation and import it as a new one', async ({ page }) => {
+    const conversationId = `spec-export-${Date.now()}`;
+
+    const response = await page.request.post('/api/chat/agents', {
+      data: {
+        messages: [
+          { role: 'user', content: 'what is 6 times 7' }
+        ],
+        provider: 'mock',
+        conversationId
+      }
+    });
+    expect(response.status()).toBe(200);
+    await response.text();
+
+    const markdown = await page.request.get(`/api/conversations/${conversationId}/export?format=markdown`);
+    expect(markdown.status()).toBe(200);
+    expect(markdown.headers()['content-disposition']).toContain('.md');
+    const transcript = await markdown.text();
+    expect(transcript).toContain('# what is 6 times 7');
+    expect(transcript).toContain('**Tool call:** `calculator`');
+
+    const jsonl = await page.request.get(`/api/conversations/${conversationId}/export?format=jsonl`);
+    expect(jsonl.status()).toBe(200);
+    const example = JSON.parse((await jsonl.text()).trim());
+    expect(example.messages.map(message => message.role)).toEqual(['system', 'user', 'assistant', 'tool', 'assistant']);
+    expect(example.messages[2].tool_calls[0].function.name).toBe('calculator');
+
+    const json = await page.request.get(`/api/conversations/${conversationId}/export?format=json`);
+    expect(json.status()).toBe(200);
+
+    const imported = await page.request.post('/api/conversations/import', {
+      headers: { 'Content-Type': 'application/json' },
+      data: await json.text()
+    });
+    expect(imported.status()).toBe(201);
+    const { conversation } = await imported.json();
+    expect(conversation.id).not.toBe(conversationId);
+    expect(conversation.endpoint).toBe('/api/chat/agents');
+    expect(conversation.messages[1].intermediateSteps[0].observation).toBe('42');
+
+    const importedJsonl = await page.request.post('/api/conversations/import?endpoint=/api/chat/agents', {
+      data: await jsonl.text()
+    });
+    expect(importedJsonl.status()).toBe(201);
+    const fromJsonl = (await importedJsonl.json()).conversation;
+    expect(fromJsonl.messages.map(message => message.role)).toEqual(['user', 'assistant']);
+    expect(fromJsonl.messages[1].intermediateSteps[0].action.name).toBe('calculator');
+
+    for (const id of [conversationId, conversation.id, fromJsonl.id]) {
+      await page.request.delete(`/api/conversations/${id}`);
+    }
+  });
+
+  test('should reject unsupported export formats and Markdown imports', async ({ page }) => {
+    const exported = await page.request.post('/api/conversations/export?format=pdf', {
+      data: { messages: [{ role: 'user', content: 'Hello' }] }
+    });
+    expect(exported.status()).toBe(400);
+
+    const imported = await page.request.post('/api/conversations/import?format=markdown', {
+      data: '# Hello'
+    });
+    expect(imported.status()).toBe(400);
+  });
+});
@@ -43,6 +43,86 @@ test.describe('LLM Provider API', () => {
     expect(providerNames).toContain('lmstudio');
   });
 
+  test('should describe custom providers from the config file', async ({ page }) => {
+    const response = await page.request.get('/api/llm/providers?includeUnavailable=true');
+    expect(response.status()).toBe(200);
+
+    const data = await response.json();
+    const builtIn = ['openai', 'anthropic', 'gemini', 'openrouter', 'ollama', 'lmstudio'];
+    for (const provider of data.providers) {
+      if (builtIn.includes(provider.provider)) {
+        expect(provider.config.custom).toBeFalsy();
+      } else {
+        // Custom providers go through the OpenAI-compatible path
+        expect(provider.config.custom).toBe(true);
+        expect(typeof provider.config.baseURL).toBe('string');
+        expect(provider.config.models.length).toBeGreaterThan(0);
+      }
+    }
+  });
+
+  test('should report where model lists come from', async ({ page }) => {
+    const response = await page.request.get('/api/llm/providers?includeUnavailable=true&refresh=true');
+    expect(response.status()).toBe(200);
+
+    const data = await response.json();
+    for (const providerInfo of data.providers) {
+      // Live lists when the provider answers, the static list otherwise
+      expect(['live', 'static']).toContain(providerInfo.config.modelsSource);
+      expect(typeof providerInfo.config.modelsFetchedAt).toBe('string');
+      expect(providerInfo.config.models.length).toBeGreaterThan(0);
+    }
+  });
+
+  test('should report model capabilities', async ({ page }) => {
+    const response = await page.request.get('/api/llm/providers?includeUnavailable=true');
+    expect(response.status()).toBe(200);
+
+    const data = await response.json();
+    for (const providerInfo of data.providers) {
+      for (const model of providerInfo.config.models) {
+        const capabilities = providerInfo.config.modelCapabilities[model];
+        expect(typeof capabilities.toolCalling).toBe('boolean');
+        expect(typeof capabilities.jsonMode).toBe('boolean');
+        expect(typeof capabilities.vision).toBe('boolean');
+        expect(capabilities.contextWindow).toBeGreaterThan(0);
+        expect(capabilities.maxOutputTokens).toBeGreaterThan(0);
+      }
+    }
+  });
+
+  test('should report rate limits and queue state', async ({ page }) => {
+    const response = await page.request.get('/api/llm/providers?includeUnavailable=true');
+    expect(response.status()).toBe(200);
+
+    const data = await response.json();
+    for (const provider of data.providers) {
+      expect(typeof provider.rateLimit.queueDepth).toBe('number');
+      expect(typeof provider.rateLimit.active).toBe('number');
+      expect(typeof provider.rateLimit.averageWaitMs).toBe('number');
+    }
+
+    const openrouter = data.providers.find(p => p.provider === 'openrouter');
+    expect(openrouter.rateLimit.requestsPerMinute).toBeGreaterThan(0);
+  });
+
+  test('should report provider health', async ({ page }) => {
+    const response = await page.request.get('/api/llm/providers?includeUnavailable=true');
+    expect(response.status()).toBe(200);
+
+    const data = await response.json();
+    for (const providerInfo of data.providers) {
+      const health = providerInfo.health;
+      expect(['healthy', 'unhealthy', 'unconfigured']).toContain(health.status);
+      expect(typeof health.lastChecked).toBe('string');
+      // Only providers that answered their probe are reported as available
+      expect(providerInfo.available).toBe(health.status === 'healthy');
+      if (health.status !== 'healthy') {
+        expect(typeof health.lastError).toBe('string');
+      }
+    }
+  });
+
   test('should validate a specific provider', async ({ page }) => {
     const response = await page.request.post('/api/llm/providers', {
       data: {
@@ -214,4 +294,97 @@ test.describe('LLM Provider API Performance', () => {
       expect(response.status()).toBe(200);
     }
   });
-});
\ No newline at end of file
+});
+test.describe('LLM Usage API', () => {
+  test('should report usage totals and breakdowns', async ({ page }) => {
+    const response = await page.request.get('/api/llm/usage');
+    expect(response.status()).toBe(200);
+
+    const data = await response.json();
+    expect(data.totals).toHaveProperty('inputTokens');
+    expect(data.totals).toHaveProperty('outputTokens');
+    expect(data.totals).toHaveProperty('costUsd');
+    expect(Array.isArray(data.byProvider)).toBe(true);
+    expect(Array.isArray(data.byModel)).toBe(true);
+    expect(Array.isArray(data.byRoute)).toBe(true);
+    expect(Array.isArray(data.byDay)).toBe(true);
+  });
+
+  test('should reject invalid date ranges', async ({ page }) => {
+    const response = await page.request.get('/api/llm/usage?from=yesterday');
+    expect(response.status()).toBe(400);
+  });
+});
+
+test.describe('LLM Provider API with user keys', () => {
+  test('should use a user-supplied key without echoing it', async ({ page }) => {
+    const userKey = 'sk-or-user-supplied-test-key';
+    const response = await page.request.post('/api/llm/providers', {
+      data: { provider: 'openrouter' },
+      headers: { 'x-llm-api-keys': JSON.stringify({ openrouter: userKey }) }
+    });
+    expect(response.status()).toBe(200);
+
+    const data = await response.json();
+    // With a key the provider is probed rather than reported as unconfigured
+    expect(data.health.status).not.toBe('unconfigured');
+    expect(JSON.stringify(data)).not.toContain(userKey);
+  });
+
+  test('should ignore a malformed key header', async ({ page }) => {
+    const response = await page.request.get('/api/llm/providers', {
+      headers: { 'x-llm-api-keys': 'not-json' }
+    });
+    expect(response.status()).toBe(200);
+  });
+});
+
+test.describe('LLM Compare API', () => {
+  test('should stream each model on its own channel', async ({ page }) => {
+    const response = await page.request.post('/api/llm/compare', {
+      data: {
+        messages: [{ role: 'user', content: 'Hello' }],
+        models: [
+          { provider: 'mock' },
+          { provider: 'mock', temperature: 0 }
+        ]
+      }
+    });
+
+    expect(response.status()).toBe(200);
+    const events = (await response.text())
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line));
+
+    for (const channel of [0, 1]) {
+      const channelEvents = events.filter(event => event.channel === channel);
+      expect(channelEvents[0].type).toBe('start');
+
+      const done = channelEvents.find(event => event.type === 'done');
+      expect(done.provider).toBe('mock');
+      expect(done.ttftMs).toBeGreaterThanOrEqual(0);
+      expect(done.latencyMs).toBeGreaterThanOrEqual(done.ttftMs);
+      expect(done.usage.outputTokens).toBeGreaterThan(0);
+
+      const text = channelEvents
+        .filter(event => event.type === 'token')
+        .map(event => event.text)
+        .join('');
+      expect(text).toContain('mock provider');
+    }
+  });
+
+  test('should reject invalid model lists', async ({ page }) => {
+    const response = await page.request.post('/api/llm/compare', {
+      data: {
+        messages: [{ role: 'user', content: 'Hello' }],
+        models: [{ provider: 'invalid-provider' }]
+      }
+    });
+
+    expect(response.status()).toBe(400);
+    const errorData = await response.json();
+    expect(errorData.error).toContain('Unsupported provider');
+  });
+});
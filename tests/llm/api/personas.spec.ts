@@ -0,0 +1,88 @@
+import { test, expect } from '@playwright/test';
+
+test.describe('Personas API', () => {
+  test('should list the built-in personas', async ({ page }) => {
+    const response = await page.request.get('/api/personas');
+    expect(response.status()).toBe(200);
+
+    const data = await response.json();
+    const ids = data.personas.map(persona => persona.id);
+    expect(ids).toEqual(expect.arrayContaining(['assistant', 'patchy', 'polly', 'dana', 'robbie']));
+    expect(data.personas[0]).toHaveProperty('systemTemplate');
+  });
+
+  test('should create, use, update and delete a persona', async ({ page }) => {
+    const created = await page.request.post('/api/personas', {
+      data: {
+        name: `Support Engineer ${Date.now()}`,
+        systemTemplate: 'You are a calm, precise support engineer.',
+        provider: 'mock',
+        temperature: 0.1
+      }
+    });
+    expect(created.status()).toBe(201);
+    const { persona } = await created.json();
+    expect(persona.id).toMatch(/^support-engineer-/);
+    expect(persona.builtIn).toBe(false);
+
+    // The persona's provider applies when the request names none
+    const chat = await page.request.post('/api/chat', {
+      data: {
+        messages: [
+          { role: 'user', content: 'Hello' }
+        ],
+        persona: persona.id
+      }
+    });
+    expect(chat.status()).toBe(200);
+    expect(chat.headers()['x-llm-persona']).toBe(persona.id);
+    expect(chat.headers()['x-llm-provider']).toBe('mock');
+
+    const updated = await page.request.patch(`/api/personas/${persona.id}`, {
+      data: { description: 'Tier 2 support', temperature: null }
+    });
+    expect(updated.status()).toBe(200);
+    const updatedData = await updated.json();
+    expect(updatedData.persona.description).toBe('Tier 2 support');
+    expect(updatedData.persona).not.toHaveProperty('temperature');
+
+    const deleted = await page.request.delete(`/api/personas/${persona.id}`);
+    expect(deleted.status()).toBe(200);
+    expect((await page.request.get(`/api/personas/${persona.id}`)).status()).toBe(404);
+  });
+
+  test('should reject invalid personas', async ({ page }) => {
+    const response = await page.request.post('/api/personas', {
+      data: {
+        name: 'Invalid',
+        systemTemplate: 'You are helpful.',
+        provider: 'invalid-provider'
+      }
+    });
+
+    expect(response.status()).toBe(400);
+    const errorData = await response.json();
+    expect(errorData.error).toContain('Unsupported provider');
+  });
+
+  test('should not delete built-in personas', async ({ page }) => {
+    const response = await page.request.delete('/api/personas/assistant');
+    expect(response.status()).toBe(400);
+  });
+
+  test('should reject unknown personas in chat requests', async ({ page }) => {
+    const response = await page.request.post('/api/chat', {
+      data: {
+        messages: [
+          { role: 'user', content: 'Hello' }
+        ],
+        provider: 'mock',
+        persona: 'no-such-persona'
+      }
+    });
+
+    expect(response.status()).toBe(400);
+    const errorData = await response.json();
+    expect(errorData.error).toContain('Unknown persona');
+  });
+});